@@ -1,20 +1,61 @@
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { DndProvider, useDrag, useDrop } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import { produce } from 'immer';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { generateUserStories, summarizeRetrospective, analyzeTaskAttachments } from './services/geminiService';
-import type { Task, ColumnId, Sprint, Attachment } from './types';
-import { COLUMNS, ItemTypes } from './constants';
-
-const initialTasks: Task[] = [
-    { id: 'task-1', column: 'backlog', title: 'User Authentication Flow', description: 'Design and implement the complete user login and registration process.', points: 8, attachments: [] },
-    { id: 'task-2', column: 'backlog', title: 'Setup CI/CD Pipeline', description: 'Configure GitHub Actions for automated testing and deployment.', attachments: [] },
-    { id: 'task-3', column: 'todo', title: 'Create Database Schema', description: 'Define the initial database schema for users and projects.', points: 5, attachments: [] },
-    { id: 'task-4', column: 'in-progress', title: 'Develop Landing Page', description: 'Build the main marketing landing page with React and Tailwind.', points: 3, attachments: [] },
-    { id: 'task-6', column: 'blocked', title: 'API Integration', description: 'Waiting for backend team to provide the new endpoint.', points: 5, attachments: [] },
-    { id: 'task-5', column: 'done', title: 'Project Scaffolding', description: 'Initialize the React project with TypeScript and basic dependencies.', points: 2, attachments: [] },
-];
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { generateUserStories, regenerateUserStory, draftAcceptanceCriteria, suggestEstimate, summarizeRetrospective, analyzeTaskAttachments } from './services/aiService';
+import type { GeneratedStory, DraftAcceptanceCriterion, EstimateSuggestion } from './services/aiService';
+import { describeInconsistency, findEstimateInconsistencies, selectReferenceTasks } from './services/estimationService';
+import type { EstimateInconsistency } from './services/estimationService';
+import { AI_PROVIDER_LABELS, getAiSettings, setAiSettings } from './services/ai';
+import type { AiSettings } from './services/ai';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { useAiRequest } from './hooks/useAiRequest';
+import { useToast } from './hooks/useToast';
+import { useUrlFilter } from './hooks/useUrlFilter';
+import { useBoardSync } from './hooks/useBoardSync';
+import { getSyncSettings, mergeTask, sameValue, setSyncSettings } from './services/sync';
+import { loadSyncBackup, saveSyncBackup } from './services/storageService';
+import type { WorkspaceBackup } from './services/storageService';
+import type { SharedBoard, SyncPeer, SyncSettings, SyncStatus } from './services/sync';
+import { DATA_SOURCE_LABELS, createWorkspaceRepository, getDataSourceSettings, rebaseWorkspace, setDataSourceSettings } from './services/data';
+import type { DataSourceSettings, WorkspaceRepository } from './services/data';
+import { appendTaskEvent, buildBurndown, createTaskEvent, moveTaskTo, withCreatedEvent } from './services/taskHistoryService';
+import { createSprintAfter, findNextPlannedSprint, sortSprints } from './services/sprintService';
+import { serializeWorkspace } from './services/workspaceTransferService';
+import { exportJiraCsv, exportTasksCsv } from './services/csvService';
+import type { CsvTaskDraft } from './services/csvService';
+import { initialsFor } from './services/capacityService';
+import { buildPlanningCapacity } from './services/planningService';
+import { applyRanks, nextRank, orderAfterDrop, sortByRank } from './services/backlogService';
+import { BLOCKED_AGE_WARNING_DAYS, blockedAgeInDays, buildDependencyIndex, createBlocker, isFinished, isForwardMove, syncBlocker, unfinishedDependencies, wouldCreateCycle } from './services/blockerService';
+import type { TaskDependencies } from './services/blockerService';
+import { commentWithReplies, createComment, diffTaskEdit } from './services/activityService';
+import { ACCEPTED_UPLOAD_TYPES, MAX_ATTACHMENT_BYTES, checkAttachmentFile, copyAttachmentBlobs, embedAttachments, formatFileSize, hasInlineAttachments, isAnalyzable, loadAttachmentBlob, previewKindOf, pruneAttachmentBlobs, setAttachmentScope, storeAttachment, storeInlineAttachments, withoutInlineData } from './services/attachmentService';
+import { collectLabels, isFilterEmpty, matchesFilter, parseLabels, sanitizeFilter } from './services/filterService';
+import { createActionItem, createRetroItem, createRetrospective, findPreviousRetrospective, findRetrospective, itemsByVotes, replaceSuggestedActionItems, resolveActionItemStatus } from './services/retrospectiveService';
+import type { Task, ColumnId, Sprint, SprintStatus, Attachment, ChecklistItem, AcceptanceCriterion, BoardColumn, BoardConfig, Workspace, Team, TeamMember, Retrospective, RetroActionItem, RetroFormatId, ActionItemStatus, TaskPriority, SavedView, TaskBlocker, TaskComment, TaskEvent } from './types';
+import { DEFAULT_BOARD_CONFIG, DEFAULT_RETRO_FORMAT, DEFAULT_TEAM, ItemTypes, RETRO_FORMATS } from './constants';
+import { AiSettingsModal } from './components/AiSettingsModal';
+import { AttachmentPreview } from './components/AttachmentPreview';
+import { Avatar } from './components/Avatar';
+import { BacklogRefinementView } from './components/BacklogRefinementView';
+import { BlockerFields, BlockerModal } from './components/BlockerModal';
+import { BoardFilterBar } from './components/BoardFilterBar';
+import { CapacityPanel } from './components/CapacityPanel';
+import { ColumnSettingsModal } from './components/ColumnSettingsModal';
+import { CompleteSprintModal } from './components/CompleteSprintModal';
+import { CsvTransferModal } from './components/CsvTransferModal';
+import { DataSourceModal } from './components/DataSourceModal';
+import { InlineSpinner } from './components/InlineSpinner';
+import { PriorityBadge, PrioritySelect } from './components/PriorityBadge';
+import { ReportsView } from './components/ReportsView';
+import { SprintPlanningModal } from './components/SprintPlanningModal';
+import { StoryReviewModal } from './components/StoryReviewModal';
+import { SYNC_STATUS_LABELS, SyncSettingsModal } from './components/SyncSettingsModal';
+import { TaskActivity } from './components/TaskActivity';
+import { TeamRosterModal } from './components/TeamRosterModal';
+import { WorkspaceTransferModal } from './components/WorkspaceTransferModal';
 
 const initialSprint: Sprint = {
   id: 'sprint-1',
@@ -22,9 +63,40 @@ const initialSprint: Sprint = {
   startDate: new Date('2024-07-20T00:00:00Z'),
   endDate: new Date('2024-08-03T00:00:00Z'),
   goal: 'Launch the initial version of the marketing website and user authentication.',
+  status: 'active',
 };
 
-const TaskCard: React.FC<{ task: Task; onClick: (task: Task) => void }> = ({ task, onClick }) => {
+const initialTasks: Task[] = ([
+  { id: 'task-1', column: 'backlog', title: 'User Authentication Flow', description: 'Design and implement the complete user login and registration process.', points: 8, priority: 'must', attachments: [] },
+  { id: 'task-2', column: 'backlog', title: 'Setup CI/CD Pipeline', description: 'Configure GitHub Actions for automated testing and deployment.', priority: 'should', attachments: [] },
+  { id: 'task-3', column: 'todo', title: 'Create Database Schema', description: 'Define the initial database schema for users and projects.', points: 5, attachments: [] },
+  { id: 'task-4', column: 'in-progress', title: 'Develop Landing Page', description: 'Build the main marketing landing page with React and Tailwind.', points: 3, attachments: [] },
+  { id: 'task-6', column: 'blocked', title: 'API Integration', description: 'Connect the landing page sign-up form to the new registration endpoint.', points: 5, attachments: [], dependsOn: ['task-3'], blocker: { reason: 'Waiting for the backend team to provide the new endpoint.', externalParty: 'Backend team', since: initialSprint.startDate.toISOString() } },
+  { id: 'task-5', column: 'done', title: 'Project Scaffolding', description: 'Initialize the React project with TypeScript and basic dependencies.', points: 2, attachments: [] },
+] as Task[]).map(task => withCreatedEvent(task.column !== 'backlog' ? { ...task, sprintId: initialSprint.id } : task, initialSprint.startDate));
+
+const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const downloadFile = (filename: string, content: string, mimeType: string) =>
+  downloadBlob(filename, new Blob([content], { type: mimeType }));
+
+const TaskCard: React.FC<{
+  task: Task;
+  assignee?: TeamMember;
+  estimateInconsistency?: EstimateInconsistency;
+  dependencies?: TaskDependencies;
+  editors?: string[]; // other people on a synced board who have this task open
+  changedBy?: string; // someone else just changed this task
+  onClick: (task: Task) => void;
+  onDropBefore: (draggedTaskId: string, beforeTaskId: string) => void;
+}> = ({ task, assignee, estimateInconsistency, dependencies, editors = [], changedBy, onClick, onDropBefore }) => {
   const [{ isDragging }, drag] = useDrag(() => ({
     type: ItemTypes.TASK,
     item: { id: task.id },
@@ -32,6 +104,15 @@ const TaskCard: React.FC<{ task: Task; onClick: (task: Task) => void }> = ({ tas
       isDragging: !!monitor.isDragging(),
     }),
   }));
+  // Dropping a card onto another one places it just above that card.
+  const [{ isOver }, drop] = useDrop(() => ({
+    accept: ItemTypes.TASK,
+    canDrop: (item: { id: string }) => item.id !== task.id,
+    drop: (item: { id: string }) => onDropBefore(item.id, task.id),
+    collect: (monitor) => ({
+      isOver: monitor.isOver() && monitor.canDrop(),
+    }),
+  }), [onDropBefore, task.id]);
 
   const draggingStyles = 'opacity-50 transform rotate-3 scale-105 shadow-2xl';
   const baseStyles = `p-4 mb-4 bg-white dark:bg-gray-800 rounded-lg shadow-md border-l-4 cursor-pointer hover:shadow-xl transition-all duration-300 ease-in-out`;
@@ -40,20 +121,83 @@ const TaskCard: React.FC<{ task: Task; onClick: (task: Task) => void }> = ({ tas
     task.column === 'blocked' ? 'border-red-500' : 
     'border-primary';
 
+  const blockedAge = task.blocker ? blockedAgeInDays(task.blocker) : undefined;
+  const blockedByTask = dependencies?.blockedBy.find(t => t.id === task.blocker?.blockedByTaskId);
+  const openDependencies = dependencies?.blockedBy.filter(t => !isFinished(t)) ?? [];
+
   return (
     <div
-      ref={drag}
+      ref={(node) => { drag(drop(node)); }}
       onClick={() => onClick(task)}
-      className={`${baseStyles} ${borderColor} ${isDragging ? draggingStyles : 'opacity-100'}`}
+      className={`${baseStyles} ${borderColor} ${isDragging ? draggingStyles : 'opacity-100'} ${isOver ? 'ring-2 ring-primary ring-offset-2 -translate-y-0.5' : changedBy ? 'ring-2 ring-indigo-400' : ''}`}
       role="button"
       aria-label={`View details for ${task.title}`}
     >
+      {(editors.length > 0 || changedBy) && (
+        <div className="flex justify-between gap-2 mb-1 text-xs text-indigo-600 dark:text-indigo-300">
+          {editors.length > 0 && <span>✎ {editors.join(', ')} {editors.length === 1 ? 'is' : 'are'} editing</span>}
+          {changedBy && <span className="ml-auto">↻ Updated by {changedBy}</span>}
+        </div>
+      )}
       <h4 className="font-bold text-gray-800 dark:text-gray-100">{task.title}</h4>
       <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 whitespace-normal break-words">{task.description}</p>
+      {task.labels && task.labels.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {task.labels.map(label => (
+            <span key={label} className="text-xs rounded px-1.5 py-0.5 bg-indigo-50 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300">#{label}</span>
+          ))}
+        </div>
+      )}
+      {task.blocker && (
+        <div className="mt-2 text-xs rounded px-2 py-1 bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200">
+          <div className="flex justify-between gap-2">
+            <span className="font-semibold">⛔ {blockedByTask ? `Waiting on "${blockedByTask.title}"` : task.blocker.externalParty ? `Waiting on ${task.blocker.externalParty}` : 'Blocked'}</span>
+            <span
+              className={`whitespace-nowrap ${blockedAge! >= BLOCKED_AGE_WARNING_DAYS ? 'font-bold text-red-600 dark:text-red-400' : ''}`}
+              title={`Blocked since ${new Date(task.blocker.since).toLocaleDateString()}`}
+            >
+              ⏱ {blockedAge}d
+            </span>
+          </div>
+          <p className="mt-0.5 break-words">{task.blocker.reason}</p>
+        </div>
+      )}
+      {dependencies && (dependencies.blockedBy.length > 0 || dependencies.blocks.length > 0) && (
+        <div className="flex flex-wrap gap-2 mt-2 text-xs">
+          {dependencies.blockedBy.length > 0 && (
+            <span
+              className={openDependencies.length > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}
+              title={`Blocked by: ${dependencies.blockedBy.map(t => `"${t.title}"${isFinished(t) ? ' (done)' : ''}`).join(', ')}`}
+            >
+              ⛓ {openDependencies.length > 0 ? `${openDependencies.length} of ${dependencies.blockedBy.length} dependencies open` : 'Dependencies done'}
+            </span>
+          )}
+          {dependencies.blocks.length > 0 && (
+            <span className="text-medium dark:text-gray-400" title={`Blocks: ${dependencies.blocks.map(t => `"${t.title}"`).join(', ')}`}>
+              ⤳ Blocks {dependencies.blocks.length}
+            </span>
+          )}
+        </div>
+      )}
       <div className="flex justify-between items-center mt-3">
+        {assignee && <Avatar member={assignee} />}
+        {task.priority && <PriorityBadge priority={task.priority} />}
+        {task.checklist && task.checklist.length > 0 && (
+          <span className={`text-xs ${task.checklist.every(item => item.done) ? 'text-green-600 dark:text-green-400' : 'text-medium dark:text-gray-400'}`}>
+            ☑ {task.checklist.filter(item => item.done).length}/{task.checklist.length}
+          </span>
+        )}
+        {task.acceptanceCriteria && task.acceptanceCriteria.length > 0 && (
+          <span className="text-xs text-medium dark:text-gray-400" title="Acceptance criteria">✓ {task.acceptanceCriteria.length} AC</span>
+        )}
         {task.attachments && task.attachments.length > 0 && (
           <span className="text-xs text-medium dark:text-gray-400">📎 {task.attachments.length}</span>
         )}
+        {estimateInconsistency && (
+          <span className="text-xs font-semibold text-yellow-700 dark:text-yellow-300 bg-yellow-100 dark:bg-yellow-900/40 rounded-full px-2 py-0.5" title={describeInconsistency(estimateInconsistency)}>
+            ⚖ ~{estimateInconsistency.typicalPoints}?
+          </span>
+        )}
         {task.points && task.points > 0 && (
           <div className="text-xs font-semibold bg-primary text-white rounded-full px-2 py-1 inline-block ml-auto">
             {task.points} Points
@@ -65,32 +209,55 @@ const TaskCard: React.FC<{ task: Task; onClick: (task: Task) => void }> = ({ tas
 };
 
 const KanbanColumn: React.FC<{
-  column: { id: ColumnId; title: string };
+  column: BoardColumn;
   tasks: Task[];
-  moveTask: (taskId: string, targetColumn: ColumnId) => void;
+  hiddenCount?: number; // tasks in this column that the board filter hides
+  members: TeamMember[];
+  estimateInconsistencies: Map<string, EstimateInconsistency>;
+  dependencyIndex: Map<string, TaskDependencies>;
+  editorsByTask?: Map<string, string[]>;
+  remoteChanges?: Map<string, string>;
+  moveTask: (taskId: string, targetColumn: ColumnId, beforeTaskId?: string) => void;
   onAddTaskClick?: () => void;
   onTaskClick: (task: Task) => void;
-}> = ({ column, tasks, moveTask, onAddTaskClick, onTaskClick }) => {
+}> = ({ column, tasks, hiddenCount = 0, members, estimateInconsistencies, dependencyIndex, editorsByTask, remoteChanges, moveTask, onAddTaskClick, onTaskClick }) => {
   const [{ isOver }, drop] = useDrop(() => ({
     accept: ItemTypes.TASK,
-    drop: (item: { id: string }) => moveTask(item.id, column.id),
+    // A card underneath already handled the drop; otherwise the task goes to the bottom of the column.
+    drop: (item: { id: string }, monitor) => {
+      if (!monitor.didDrop()) moveTask(item.id, column.id);
+    },
     collect: (monitor) => ({
       isOver: !!monitor.isOver(),
     }),
-  }));
+  }), [moveTask, column.id]);
+
+  const handleDropBefore = useCallback((taskId: string, beforeTaskId: string) => moveTask(taskId, column.id, beforeTaskId), [moveTask, column.id]);
 
-  const baseColumnStyles = 'flex-1 p-4 rounded-lg min-h-[400px] transition-all duration-300';
-  const idleStyles = 'bg-gray-100 dark:bg-gray-900/50';
+  const wipLimit = column.id !== 'backlog' ? column.wipLimit : undefined;
+  const taskCount = tasks.length + hiddenCount;
+  const isOverWipLimit = wipLimit !== undefined && taskCount > wipLimit;
+  const isAtWipLimit = wipLimit !== undefined && taskCount === wipLimit;
+
+  const baseColumnStyles = 'flex-1 min-w-[16rem] p-4 rounded-lg min-h-[400px] transition-all duration-300';
+  const idleStyles = isOverWipLimit ? 'bg-red-50 dark:bg-red-900/20 border-2 border-red-500' : 'bg-gray-100 dark:bg-gray-900/50';
   const activeStyles = 'bg-indigo-100 dark:bg-gray-700 border-2 border-dashed border-primary';
+  const headerBorder = isOverWipLimit ? 'border-red-500' : isAtWipLimit ? 'border-yellow-500' : 'border-primary';
 
   return (
     <div
       ref={drop}
       className={`${baseColumnStyles} ${isOver ? activeStyles : idleStyles}`}
     >
-      <div className="flex justify-between items-center mb-4 border-b-2 border-primary pb-2">
+      <div className={`flex justify-between items-center mb-4 border-b-2 ${headerBorder} pb-2`}>
         <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">
-          {column.title} ({tasks.length})
+          {column.title} ({taskCount}{wipLimit !== undefined && `/${wipLimit}`})
+          {isOverWipLimit && (
+            <span className="ml-2 text-xs font-semibold text-white bg-red-500 rounded-full px-2 py-0.5 align-middle">WIP limit exceeded</span>
+          )}
+          {hiddenCount > 0 && (
+            <span className="block text-xs font-normal text-medium">{hiddenCount} hidden by filters</span>
+          )}
         </h3>
         {onAddTaskClick && (
           <button 
@@ -104,53 +271,272 @@ const KanbanColumn: React.FC<{
       </div>
       <div>
         {tasks.map((task) => (
-          <TaskCard key={task.id} task={task} onClick={onTaskClick} />
+          <TaskCard
+            key={task.id}
+            task={task}
+            assignee={members.find(m => m.id === task.assigneeId)}
+            estimateInconsistency={estimateInconsistencies.get(task.id)}
+            dependencies={dependencyIndex.get(task.id)}
+            editors={editorsByTask?.get(task.id)}
+            changedBy={remoteChanges?.get(task.id)}
+            onClick={onTaskClick}
+            onDropBefore={handleDropBefore}
+          />
         ))}
       </div>
     </div>
   );
 };
 
+const ACTION_ITEM_STATUS_STYLES: Record<ActionItemStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  done: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  dropped: 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-400',
+};
 
 const RetrospectiveModal: React.FC<{
+    sprint: Sprint;
+    retrospective?: Retrospective;
+    previousRetrospective?: Retrospective;
+    previousSprintName?: string;
+    tasks: Task[];
+    columns: BoardColumn[];
+    actor?: string;
     onClose: () => void;
-    setSummary: (summary: string) => void;
-    setIsLoading: (loading: boolean) => void;
-}> = ({ onClose, setSummary, setIsLoading }) => {
-    const [wentWell, setWentWell] = useState('');
-    const [couldImprove, setCouldImprove] = useState('');
-
-    const handleSubmit = async () => {
-        setIsLoading(true);
+    onSave: (retrospectives: Retrospective[], newTasks: Task[]) => void;
+}> = ({ sprint, retrospective, previousRetrospective, previousSprintName, tasks, columns, actor, onClose, onSave }) => {
+    const { notifyError } = useToast();
+    const [retro, setRetro] = useState<Retrospective>(() => retrospective ?? createRetrospective(sprint.id, DEFAULT_RETRO_FORMAT));
+    const [previousActionItems, setPreviousActionItems] = useState<RetroActionItem[]>(() =>
+        (previousRetrospective?.actionItems ?? []).map(item => ({ ...item, status: resolveActionItemStatus(item, tasks) }))
+    );
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [newActionText, setNewActionText] = useState('');
+    const [pendingTasks, setPendingTasks] = useState<Task[]>([]);
+    const summaryRequest = useAiRequest();
+
+    const format = RETRO_FORMATS[retro.format];
+    const allTasks = [...tasks, ...pendingTasks];
+    const columnTitle = (columnId: ColumnId) => columns.find(c => c.id === columnId)?.title ?? columnId;
+
+    const updateActionItem = (id: string, changes: Partial<RetroActionItem>) => {
+        setRetro(prev => ({ ...prev, actionItems: prev.actionItems.map(item => (item.id === id ? { ...item, ...changes } : item)) }));
+    };
+
+    const handleAddItem = (columnId: string) => {
+        const text = drafts[columnId]?.trim();
+        if (!text) return;
+        setRetro(prev => ({ ...prev, items: [...prev.items, createRetroItem(columnId, text)] }));
+        setDrafts(prev => ({ ...prev, [columnId]: '' }));
+    };
+
+    const handleVote = (id: string, delta: number) => {
+        setRetro(prev => ({ ...prev, items: prev.items.map(item => (item.id === id ? { ...item, votes: Math.max(0, item.votes + delta) } : item)) }));
+    };
+
+    const handleAddActionItem = () => {
+        if (!newActionText.trim()) return;
+        setRetro(prev => ({ ...prev, actionItems: [...prev.actionItems, createActionItem(newActionText.trim())] }));
+        setNewActionText('');
+    };
+
+    const handleRemoveActionItem = (item: RetroActionItem) => {
+        setRetro(prev => ({ ...prev, actionItems: prev.actionItems.filter(i => i.id !== item.id) }));
+        setPendingTasks(prev => prev.filter(t => t.id !== item.taskId));
+    };
+
+    const handleAddToBacklog = (item: RetroActionItem) => {
+        const task: Task = {
+            id: `task-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+            column: 'backlog',
+            title: item.text,
+            description: `Action item from the ${sprint.name} retrospective.${item.owner ? ` Owner: ${item.owner}.` : ''}`,
+            attachments: [],
+            history: [createTaskEvent('created', { to: 'backlog', actor })],
+        };
+        setPendingTasks(prev => [...prev, task]);
+        updateActionItem(item.id, { taskId: task.id });
+    };
+
+    const handleSummarize = async () => {
+        const previousSummary = retro.summary;
         try {
-            const summary = await summarizeRetrospective(wentWell.split('\n'), couldImprove.split('\n'));
-            setSummary(summary);
+            const result = await summaryRequest.run(options => summarizeRetrospective(format, retro.items, previousActionItems, {
+                ...options,
+                onProgress: (partial) => setRetro(prev => ({ ...prev, summary: partial })),
+            }));
+            if (!result) {
+                setRetro(prev => ({ ...prev, summary: previousSummary }));
+                return;
+            }
+            setRetro(prev => ({
+                ...prev,
+                summary: result.summary,
+                actionItems: replaceSuggestedActionItems(prev.actionItems, result.actionItems),
+            }));
         } catch (error) {
             console.error("Failed to summarize retrospective:", error);
-            alert(`Error summarizing retrospective: ${error instanceof Error ? error.message : String(error)}`);
-        } finally {
-            setIsLoading(false);
-            onClose();
+            notifyError('Error summarizing retrospective', error);
+            setRetro(prev => ({ ...prev, summary: previousSummary }));
         }
     };
 
+    const handleSave = () => {
+        const updatedAt = new Date().toISOString();
+        const saved: Retrospective[] = [{ ...retro, updatedAt }];
+        if (previousRetrospective) {
+            saved.push({ ...previousRetrospective, actionItems: previousActionItems, updatedAt });
+        }
+        onSave(saved, pendingTasks);
+    };
+
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-            <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-2xl text-gray-800 dark:text-gray-100">
-                <h2 className="text-2xl font-bold mb-6">Sprint Retrospective</h2>
-                <div className="space-y-4">
-                    <div>
-                        <label className="font-semibold block mb-2">What went well?</label>
-                        <textarea value={wentWell} onChange={(e) => setWentWell(e.target.value)} rows={5} className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+            <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-5xl text-gray-800 dark:text-gray-100 max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl font-bold">{sprint.name} Retrospective</h2>
+                    <select
+                        value={retro.format}
+                        onChange={(e) => setRetro(prev => ({ ...prev, format: e.target.value as RetroFormatId }))}
+                        disabled={retro.items.length > 0}
+                        title={retro.items.length > 0 ? 'The format can only be changed before any notes are added.' : undefined}
+                        aria-label="Retrospective format"
+                        className="p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 disabled:opacity-60"
+                    >
+                        {Object.values(RETRO_FORMATS).map(f => (
+                            <option key={f.id} value={f.id}>{f.name}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {previousActionItems.length > 0 && (
+                    <div className="mb-6 p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                        <h3 className="font-semibold mb-2">Action items from {previousSprintName ?? 'the last retrospective'}</h3>
+                        <ul className="space-y-2">
+                            {previousActionItems.map(item => {
+                                const task = item.taskId ? allTasks.find(t => t.id === item.taskId) : undefined;
+                                return (
+                                    <li key={item.id} className="flex items-center gap-2 text-sm">
+                                        <span className="flex-1">
+                                            {item.text}
+                                            {item.owner && <span className="text-medium"> · {item.owner}</span>}
+                                            {item.taskId && <span className="text-medium"> · task {task ? `in ${columnTitle(task.column)}` : 'deleted'}</span>}
+                                        </span>
+                                        <select
+                                            value={item.status}
+                                            onChange={(e) => setPreviousActionItems(prev => prev.map(i => (i.id === item.id ? { ...i, status: e.target.value as ActionItemStatus } : i)))}
+                                            aria-label={`Status of "${item.text}"`}
+                                            className={`text-xs rounded px-2 py-1 ${ACTION_ITEM_STATUS_STYLES[item.status]}`}
+                                        >
+                                            <option value="open">Open</option>
+                                            <option value="done">Done</option>
+                                            <option value="dropped">Dropped</option>
+                                        </select>
+                                    </li>
+                                );
+                            })}
+                        </ul>
                     </div>
-                    <div>
-                        <label className="font-semibold block mb-2">What could be improved?</label>
-                        <textarea value={couldImprove} onChange={(e) => setCouldImprove(e.target.value)} rows={5} className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+                )}
+
+                <div className={`grid gap-4 grid-cols-1 ${format.columns.length === 4 ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
+                    {format.columns.map(column => (
+                        <div key={column.id} className="p-3 rounded-lg bg-gray-100 dark:bg-gray-900/50">
+                            <h3 className="font-semibold mb-2">{column.title}</h3>
+                            <ul className="space-y-2 mb-2">
+                                {itemsByVotes(retro.items, column.id).map(item => (
+                                    <li key={item.id} className="flex items-start gap-2 p-2 rounded bg-white dark:bg-gray-800 text-sm">
+                                        <span className="flex-1 break-words">{item.text}</span>
+                                        <button type="button" onClick={() => handleVote(item.id, 1)} className="text-xs px-1.5 rounded bg-indigo-100 dark:bg-indigo-900/40 text-primary font-semibold" aria-label={`Vote for "${item.text}"`}>
+                                            ▲ {item.votes}
+                                        </button>
+                                        {item.votes > 0 && (
+                                            <button type="button" onClick={() => handleVote(item.id, -1)} className="text-xs text-medium" aria-label={`Remove a vote from "${item.text}"`}>▼</button>
+                                        )}
+                                        <button type="button" onClick={() => setRetro(prev => ({ ...prev, items: prev.items.filter(i => i.id !== item.id) }))} className="text-red-500 hover:text-red-700 font-bold text-xs" aria-label={`Remove "${item.text}"`}>X</button>
+                                    </li>
+                                ))}
+                            </ul>
+                            <input
+                                type="text"
+                                value={drafts[column.id] ?? ''}
+                                onChange={(e) => setDrafts(prev => ({ ...prev, [column.id]: e.target.value }))}
+                                onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddItem(column.id); } }}
+                                placeholder="Add a note and press Enter"
+                                className="w-full p-2 border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm"
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <div className="mt-6">
+                    <div className="flex justify-between items-center mb-2">
+                        <h3 className="text-lg font-semibold">Summary & Action Items</h3>
+                        <button
+                            type="button"
+                            onClick={summaryRequest.isRunning ? summaryRequest.cancel : handleSummarize}
+                            disabled={!summaryRequest.isRunning && retro.items.length === 0}
+                            className="px-3 py-1 rounded bg-secondary text-white text-sm hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                        >
+                            {summaryRequest.isRunning ? <><InlineSpinner />Summarizing... ✕ Cancel</> : '✨ AI Summarize'}
+                        </button>
+                    </div>
+                    <textarea
+                        value={retro.summary}
+                        onChange={(e) => setRetro(prev => ({ ...prev, summary: e.target.value }))}
+                        readOnly={summaryRequest.isRunning}
+                        rows={3}
+                        placeholder="Summary of the retrospective"
+                        className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm mb-2"
+                    />
+                    <ul className="space-y-2 mb-2">
+                        {retro.actionItems.map(item => (
+                            <li key={item.id} className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={item.text}
+                                    onChange={(e) => updateActionItem(item.id, { text: e.target.value, source: undefined })}
+                                    disabled={!!item.taskId}
+                                    aria-label="Action item"
+                                    className="flex-1 p-1 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm disabled:opacity-70"
+                                />
+                                <input
+                                    type="text"
+                                    value={item.owner ?? ''}
+                                    onChange={(e) => updateActionItem(item.id, { owner: e.target.value || undefined, source: undefined })}
+                                    placeholder="Owner"
+                                    aria-label="Action item owner"
+                                    className="w-28 p-1 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm"
+                                />
+                                {item.taskId ? (
+                                    <span className="text-xs text-green-600 dark:text-green-400 w-28 text-center">✓ In backlog</span>
+                                ) : (
+                                    <button type="button" onClick={() => handleAddToBacklog(item)} className="text-xs px-2 py-1 rounded border border-primary text-primary hover:bg-primary hover:text-white w-28">
+                                        → Backlog
+                                    </button>
+                                )}
+                                <button type="button" onClick={() => handleRemoveActionItem(item)} className="text-red-500 hover:text-red-700 font-bold px-2" aria-label={`Remove "${item.text}"`}>X</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={newActionText}
+                            onChange={(e) => setNewActionText(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddActionItem(); } }}
+                            placeholder="Add an action item"
+                            className="flex-1 p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm"
+                        />
+                        <button type="button" onClick={handleAddActionItem} className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-600 text-sm">Add</button>
                     </div>
                 </div>
+
                 <div className="mt-6 flex justify-end space-x-4">
                     <button onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Cancel</button>
-                    <button onClick={handleSubmit} className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover">Generate Summary</button>
+                    <button onClick={handleSave} disabled={summaryRequest.isRunning} className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover disabled:bg-gray-400 disabled:cursor-not-allowed">
+                        Save Retrospective{pendingTasks.length > 0 && ` & Add ${pendingTasks.length} Task${pendingTasks.length === 1 ? '' : 's'}`}
+                    </button>
                 </div>
             </div>
         </div>
@@ -159,18 +545,20 @@ const RetrospectiveModal: React.FC<{
 
 const NewTaskModal: React.FC<{
     onClose: () => void;
-    onAddTask: (task: { title: string; description: string; points?: number }) => void;
+    onAddTask: (task: { title: string; description: string; points?: number; priority?: TaskPriority }) => void;
 }> = ({ onClose, onAddTask }) => {
+    const { notify } = useToast();
     const [title, setTitle] = useState('');
     const [description, setDescription] = useState('');
     const [points, setPoints] = useState<number | ''>('');
+    const [priority, setPriority] = useState<TaskPriority | ''>('');
 
     const handleSubmit = () => {
         if (!title.trim() || !description.trim()) {
-            alert('Please fill in the title and description.');
+            notify({ kind: 'warning', message: 'Please fill in the title and description.' });
             return;
         }
-        onAddTask({ title, description, points: points !== '' ? Number(points) : undefined });
+        onAddTask({ title, description, points: points !== '' ? Number(points) : undefined, priority: priority || undefined });
     };
 
     return (
@@ -186,9 +574,15 @@ const NewTaskModal: React.FC<{
                         <label htmlFor="description" className="font-semibold block mb-2">Description</label>
                         <textarea id="description" value={description} onChange={(e) => setDescription(e.target.value)} required rows={4} className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
                     </div>
-                     <div>
-                        <label htmlFor="points" className="font-semibold block mb-2">Story Points (Optional)</label>
-                        <input id="points" type="number" value={points} onChange={(e) => setPoints(e.target.value === '' ? '' : parseInt(e.target.value, 10))} min="0" className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="points" className="font-semibold block mb-2">Story Points (Optional)</label>
+                            <input id="points" type="number" value={points} onChange={(e) => setPoints(e.target.value === '' ? '' : parseInt(e.target.value, 10))} min="0" className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+                        </div>
+                        <div>
+                            <label htmlFor="priority" className="font-semibold block mb-2">Priority (Optional)</label>
+                            <PrioritySelect id="priority" value={priority} onChange={setPriority} />
+                        </div>
                     </div>
                     <div className="mt-6 flex justify-end space-x-4">
                         <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Cancel</button>
@@ -200,22 +594,79 @@ const NewTaskModal: React.FC<{
     );
 };
 
+const createChecklistItem = (text: string, index = 0): ChecklistItem => ({
+  id: `item-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 7)}`,
+  text,
+  done: false,
+});
+
+const createAcceptanceCriterion = (draft: DraftAcceptanceCriterion, index = 0): AcceptanceCriterion => ({
+  id: `ac-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 7)}`,
+  ...draft,
+});
+
+const CRITERION_CLAUSES = ['given', 'when', 'then'] as const;
+
 const TaskDetailModal: React.FC<{
     task: Task;
+    columns: BoardColumn[];
+    members: TeamMember[];
+    referenceTasks: Task[];
+    tasks: Task[];
+    savedTask: Task; // the task as it is on the board now, for comments and the activity log
+    currentMemberId: string;
+    estimateInconsistency?: EstimateInconsistency;
     onClose: () => void;
-    onSave: (updatedTask: Task) => void;
+    onSave: (updatedTask: Task, newEvents: TaskEvent[]) => void;
     onDelete: (taskId: string) => void;
-}> = ({ task, onClose, onSave, onDelete }) => {
+    onCurrentMemberChange: (memberId: string) => void;
+    onAddComment: (text: string, parentId?: string) => void;
+    onDeleteComment: (commentId: string) => void;
+}> = ({ task, columns, members, referenceTasks, tasks, savedTask, currentMemberId, estimateInconsistency, onClose, onSave, onDelete, onCurrentMemberChange, onAddComment, onDeleteComment }) => {
+    const { notify, notifyError } = useToast();
     const [title, setTitle] = useState(task.title);
     const [description, setDescription] = useState(task.description);
     const [points, setPoints] = useState<number | ''>(task.points || '');
     const [column, setColumn] = useState<ColumnId>(task.column);
+    const [assigneeId, setAssigneeId] = useState(task.assigneeId ?? '');
+    const [priority, setPriority] = useState<TaskPriority | ''>(task.priority ?? '');
+    const [labelsText, setLabelsText] = useState((task.labels || []).join(', '));
+    const [blocker, setBlocker] = useState<TaskBlocker | null>(task.blocker ?? null);
+    const [dependsOn, setDependsOn] = useState<string[]>(task.dependsOn || []);
+    const [checklist, setChecklist] = useState<ChecklistItem[]>(task.checklist || []);
+    const [newChecklistText, setNewChecklistText] = useState('');
+    const [subTasksToChecklist, setSubTasksToChecklist] = useState(true);
+    const [acceptanceCriteria, setAcceptanceCriteria] = useState<AcceptanceCriterion[]>(task.acceptanceCriteria || []);
+    const criteriaRequest = useAiRequest();
+    const [estimateSuggestion, setEstimateSuggestion] = useState<EstimateSuggestion | null>(null);
+    const estimateRequest = useAiRequest();
     const [attachments, setAttachments] = useState<Attachment[]>(task.attachments || []);
-    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const analysisRequest = useAiRequest();
+    const [analysisPreview, setAnalysisPreview] = useState('');
+    const [analysisEvents, setAnalysisEvents] = useState<TaskEvent[]>([]);
+    const [isUploading, setIsUploading] = useState(false);
+    const [previewId, setPreviewId] = useState<string | null>(null);
+    const unanalyzable = attachments.filter((attachment: Attachment) => !isAnalyzable(attachment));
+
+    const otherTasks = useMemo(() => tasks.filter(t => t.id !== task.id), [tasks, task.id]);
+    const dependents = otherTasks.filter(t => t.dependsOn?.includes(task.id) || t.blocker?.blockedByTaskId === task.id);
+    // Anything that already waits on this task can't become one of its dependencies.
+    const dependencyCandidates = otherTasks.filter(t => !dependsOn.includes(t.id) && !wouldCreateCycle(task.id, t.id, tasks));
+
+    const handleColumnChange = (nextColumn: ColumnId) => {
+        setColumn(nextColumn);
+        if (nextColumn === 'blocked' && !blocker) {
+            setBlocker(createBlocker({ reason: '' }));
+        }
+    };
 
     const handleSubmit = () => {
         if (!title.trim()) {
-            alert('Title is required.');
+            notify({ kind: 'warning', message: 'Title is required.' });
+            return;
+        }
+        if (column === 'blocked' && !blocker?.reason.trim()) {
+            notify({ kind: 'warning', message: 'Please say why the task is blocked.' });
             return;
         }
         onSave({
@@ -225,50 +676,128 @@ const TaskDetailModal: React.FC<{
             points: points !== '' ? Number(points) : undefined,
             column,
             attachments,
-        });
+            assigneeId: assigneeId || undefined,
+            priority: priority || undefined,
+            labels: parseLabels(labelsText),
+            blocker: column === 'blocked' && blocker ? { ...blocker, reason: blocker.reason.trim(), externalParty: blocker.externalParty?.trim() || undefined } : undefined,
+            dependsOn,
+            checklist,
+            acceptanceCriteria: acceptanceCriteria.filter(c => c.given.trim() || c.when.trim() || c.then.trim()),
+        }, analysisEvents);
     };
 
     const handleDelete = () => {
-        if (window.confirm('Are you sure you want to delete this task? This action cannot be undone.')) {
+        if (window.confirm('Are you sure you want to delete this task? You can restore it with Undo (Ctrl+Z).')) {
             onDelete(task.id);
         }
     };
     
-    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const files = event.target.files;
-        if (!files) return;
-
-        // Fix: Explicitly type `file` as `File` to resolve a potential type inference issue where `file` was being treated as `unknown`.
-        Array.from(files).forEach((file: File) => {
-            const reader = new FileReader();
-            reader.onload = (e) => {
-                const data = e.target?.result as string;
-                if (data) {
-                    setAttachments(prev => [...prev, { name: file.name, type: file.type, data }]);
-                }
-            };
-            reader.readAsDataURL(file);
-        });
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files || []) as File[];
+        event.target.value = '';
+        const rejected = files.map(checkAttachmentFile).filter((problem): problem is string => problem !== null);
+        if (rejected.length > 0) {
+            notify({ kind: 'warning', title: rejected.length === 1 ? 'File not attached' : `${rejected.length} files not attached`, message: rejected.join(' ') });
+        }
+        const accepted = files.filter(file => checkAttachmentFile(file) === null);
+        if (accepted.length === 0) return;
+
+        setIsUploading(true);
+        try {
+            for (const file of accepted) {
+                const attachment = await storeAttachment(file);
+                setAttachments(prev => [...prev, attachment]);
+            }
+        } catch (error) {
+            console.error("Failed to store attachment:", error);
+            notifyError('Error attaching file', error);
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const handleDownloadAttachment = async (attachment: Attachment) => {
+        try {
+            downloadBlob(attachment.name, await loadAttachmentBlob(attachment));
+        } catch (error) {
+            notifyError(`Could not download "${attachment.name}"`, error);
+        }
+    };
+
+    const handleAddChecklistItem = () => {
+        if (!newChecklistText.trim()) return;
+        setChecklist(prev => [...prev, createChecklistItem(newChecklistText.trim())]);
+        setNewChecklistText('');
+    };
+
+    const updateChecklistItem = (id: string, changes: Partial<ChecklistItem>) => {
+        setChecklist(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    };
+
+    const updateCriterion = (id: string, changes: Partial<AcceptanceCriterion>) => {
+        setAcceptanceCriteria(prev => prev.map(c => (c.id === id ? { ...c, ...changes } : c)));
     };
 
-    const handleRemoveAttachment = (index: number) => {
-        setAttachments(prev => prev.filter((_, i) => i !== index));
+    const handleDraftCriteria = async () => {
+        try {
+            const drafts = await criteriaRequest.run(options => draftAcceptanceCriteria(title, description, acceptanceCriteria, options));
+            if (drafts) {
+                setAcceptanceCriteria(prev => [...prev, ...drafts.map(createAcceptanceCriterion)]);
+            }
+        } catch (error) {
+            console.error("Failed to draft acceptance criteria:", error);
+            notifyError('Error drafting acceptance criteria', error);
+        }
+    };
+
+    const handleSuggestEstimate = async () => {
+        try {
+            const references = selectReferenceTasks({ id: task.id, title, description }, referenceTasks);
+            const suggestion = await estimateRequest.run(options => suggestEstimate({ title, description }, references, options));
+            if (suggestion) {
+                setEstimateSuggestion(suggestion);
+            }
+        } catch (error) {
+            console.error("Failed to suggest an estimate:", error);
+            notifyError('Error suggesting an estimate', error);
+        }
+    };
+
+    const handleRemoveAttachment = (id: string) => {
+        setAttachments(prev => prev.filter(attachment => attachment.id !== id));
+        if (previewId === id) setPreviewId(null);
     };
 
     const handleAnalyzeAttachments = async () => {
         if (attachments.length === 0) {
-            alert("Please attach at least one file to analyze.");
+            notify({ kind: 'warning', message: "Please attach at least one file to analyze." });
             return;
         }
-        setIsAnalyzing(true);
+        if (unanalyzable.length === attachments.length) {
+            notify({ kind: 'warning', message: "None of the attached files can be analyzed. The AI reads PNG, JPEG and WebP images, PDFs and plain text, Markdown or CSV files." });
+            return;
+        }
+        setAnalysisPreview('');
         try {
-            const summary = await analyzeTaskAttachments(title, attachments);
-            setDescription(prev => `${prev}\n\n--- AI Analysis ---\n${summary}`);
+            const analysis = await analysisRequest.run(options => analyzeTaskAttachments(title, attachments, { ...options, onProgress: setAnalysisPreview }));
+            if (!analysis) return;
+            const { summary, subTasks, skipped } = analysis;
+            if (skipped.length > 0) {
+                notify({ kind: 'info', message: `Left out of the analysis (unsupported type): ${skipped.join(', ')}` });
+            }
+            setAnalysisEvents(prev => [...prev, createTaskEvent('ai-analysis')]);
+            if (subTasksToChecklist) {
+                setDescription(prev => `${prev}\n\n--- AI Analysis ---\n${summary}`);
+                setChecklist(prev => [...prev, ...subTasks.map(createChecklistItem)]);
+            } else {
+                const workflow = subTasks.map(item => `- ${item}`).join('\n');
+                setDescription(prev => `${prev}\n\n--- AI Analysis ---\n${summary}\n\nWorkflow/Sub-tasks:\n${workflow}`);
+            }
         } catch (error) {
             console.error("Failed to analyze attachments:", error);
-            alert(`Error analyzing attachments: ${error instanceof Error ? error.message : String(error)}`);
+            notifyError('Error analyzing attachments', error);
         } finally {
-            setIsAnalyzing(false);
+            setAnalysisPreview('');
         }
     };
 
@@ -285,50 +814,240 @@ const TaskDetailModal: React.FC<{
                         <label htmlFor="edit-description" className="font-semibold block mb-2">Description</label>
                         <textarea id="edit-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={5} className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
                     </div>
+                    {/* Checklist Section */}
+                    <div>
+                        <label className="font-semibold block mb-2">
+                            Sub-tasks
+                            {checklist.length > 0 && (
+                                <span className="ml-2 text-sm font-normal text-medium">{checklist.filter(item => item.done).length}/{checklist.length} done</span>
+                            )}
+                        </label>
+                        {checklist.length > 0 && (
+                            <ul className="space-y-2 mb-2">
+                                {checklist.map(item => (
+                                    <li key={item.id} className="flex items-center gap-2">
+                                        <input type="checkbox" checked={item.done} onChange={(e) => updateChecklistItem(item.id, { done: e.target.checked })} aria-label={`Mark "${item.text}" done`} />
+                                        <input
+                                            type="text"
+                                            value={item.text}
+                                            onChange={(e) => updateChecklistItem(item.id, { text: e.target.value })}
+                                            className={`flex-1 p-1 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm ${item.done ? 'line-through text-medium' : ''}`}
+                                        />
+                                        <button type="button" onClick={() => setChecklist(prev => prev.filter(i => i.id !== item.id))} className="text-red-500 hover:text-red-700 font-bold px-2" aria-label={`Remove "${item.text}"`}>X</button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={newChecklistText}
+                                onChange={(e) => setNewChecklistText(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddChecklistItem(); } }}
+                                placeholder="Add a sub-task"
+                                className="flex-1 p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm"
+                            />
+                            <button type="button" onClick={handleAddChecklistItem} className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-600 text-sm">Add</button>
+                        </div>
+                    </div>
+                    {/* Acceptance Criteria Section */}
+                    <div>
+                        <div className="flex justify-between items-center mb-2">
+                            <label className="font-semibold">Acceptance Criteria</label>
+                            <button
+                                type="button"
+                                onClick={criteriaRequest.isRunning ? criteriaRequest.cancel : handleDraftCriteria}
+                                disabled={!criteriaRequest.isRunning && !title.trim()}
+                                className="px-3 py-1 rounded bg-secondary text-white text-sm hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            >
+                                {criteriaRequest.isRunning ? <><InlineSpinner />Drafting... ✕ Cancel</> : '✨ AI: Draft Criteria'}
+                            </button>
+                        </div>
+                        {acceptanceCriteria.length > 0 && (
+                            <ol className="space-y-3 mb-2">
+                                {acceptanceCriteria.map((criterion, index) => (
+                                    <li key={criterion.id} className="p-2 rounded bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600">
+                                        <div className="flex justify-between items-center mb-1">
+                                            <span className="text-xs font-semibold text-medium">AC{index + 1}</span>
+                                            <button type="button" onClick={() => setAcceptanceCriteria(prev => prev.filter(c => c.id !== criterion.id))} className="text-red-500 hover:text-red-700 font-bold px-2" aria-label={`Remove criterion ${index + 1}`}>X</button>
+                                        </div>
+                                        {CRITERION_CLAUSES.map(clause => (
+                                            <div key={clause} className="flex items-center gap-2 mb-1">
+                                                <span className="w-12 text-sm font-semibold capitalize">{clause}</span>
+                                                <input
+                                                    type="text"
+                                                    value={criterion[clause]}
+                                                    onChange={(e) => updateCriterion(criterion.id, { [clause]: e.target.value })}
+                                                    aria-label={`Criterion ${index + 1} ${clause}`}
+                                                    className="flex-1 p-1 border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm"
+                                                />
+                                            </div>
+                                        ))}
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => setAcceptanceCriteria(prev => [...prev, createAcceptanceCriterion({ given: '', when: '', then: '' })])}
+                            className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-600 text-sm"
+                        >
+                            + Add Criterion
+                        </button>
+                    </div>
                     {/* Attachments Section */}
                     <div>
                         <label className="font-semibold block mb-2">Attachments</label>
                         <div className="p-4 border-2 border-dashed rounded-lg bg-gray-50 dark:bg-gray-700/50 border-gray-300 dark:border-gray-600">
                            {attachments.length > 0 && (
                                <ul className="space-y-2 mb-4">
-                                   {attachments.map((file, index) => (
-                                       <li key={index} className="flex justify-between items-center bg-gray-100 dark:bg-gray-600 p-2 rounded">
-                                           <span className="text-sm truncate">{file.name}</span>
-                                           <button type="button" onClick={() => handleRemoveAttachment(index)} className="text-red-500 hover:text-red-700 font-bold ml-4">X</button>
+                                    {attachments.map((file: Attachment) => (
+                                        <li key={file.id} className="bg-gray-100 dark:bg-gray-600 p-2 rounded">
+                                            <div className="flex justify-between items-center gap-2">
+                                                <span className="text-sm truncate flex-1" title={file.name}>{file.name}</span>
+                                                <span className="text-xs text-medium dark:text-gray-300 whitespace-nowrap">{formatFileSize(file.size)}{!isAnalyzable(file) && ' · not analyzable'}</span>
+                                                {previewKindOf(file) && (
+                                                    <button type="button" onClick={() => setPreviewId(previewId === file.id ? null : file.id)} className="text-sm text-primary hover:underline">
+                                                        {previewId === file.id ? 'Hide' : 'Preview'}
+                                                    </button>
+                                                )}
+                                                <button type="button" onClick={() => handleDownloadAttachment(file)} className="text-sm text-primary hover:underline">Download</button>
+                                                <button type="button" onClick={() => handleRemoveAttachment(file.id)} className="text-red-500 hover:text-red-700 font-bold ml-2" aria-label={`Remove ${file.name}`}>X</button>
+                                            </div>
+                                            {previewId === file.id && (
+                                                <div className="mt-2">
+                                                    <AttachmentPreview attachment={file} />
+                                                </div>
+                                            )}
                                        </li>
                                    ))}
                                </ul>
                            )}
-                           <input type="file" id="file-upload" multiple onChange={handleFileChange} className="hidden" />
+                            <input type="file" id="file-upload" multiple accept={ACCEPTED_UPLOAD_TYPES} onChange={handleFileChange} disabled={isUploading} className="hidden" />
                            <label htmlFor="file-upload" className="w-full text-center cursor-pointer bg-primary text-white px-4 py-2 rounded-lg hover:bg-primary-hover block">
-                               Upload Files
+                                {isUploading ? <><InlineSpinner />Uploading...</> : 'Upload Files'}
                            </label>
+                            <p className="text-xs text-medium mt-2">Images, PDFs and text files (TXT, Markdown, CSV, JSON) up to {formatFileSize(MAX_ATTACHMENT_BYTES)} each.</p>
                         </div>
                         {attachments.length > 0 && (
+                            <>
+                                <label className="flex items-center gap-2 mt-4 text-sm">
+                                    <input type="checkbox" checked={subTasksToChecklist} onChange={(e) => setSubTasksToChecklist(e.target.checked)} />
+                                    Add AI-suggested sub-tasks to the checklist (instead of the description)
+                                </label>
                             <button
                                 type="button"
-                                onClick={handleAnalyzeAttachments}
-                                disabled={isAnalyzing}
-                                className="w-full mt-4 px-4 py-2 bg-secondary text-white font-semibold rounded-lg shadow-md hover:bg-green-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                                    onClick={analysisRequest.isRunning ? analysisRequest.cancel : handleAnalyzeAttachments}
+                                    className="w-full mt-4 px-4 py-2 bg-secondary text-white font-semibold rounded-lg shadow-md hover:bg-green-600 transition-colors"
                             >
-                                {isAnalyzing ? 'Analyzing...' : '✨ Analyze Attachments'}
+                                    {analysisRequest.isRunning ? <><InlineSpinner />Analyzing... ✕ Cancel</> : '✨ Analyze Attachments'}
                             </button>
+                                {unanalyzable.length > 0 && (
+                                    <p className="mt-2 text-xs text-medium">
+                                        {unanalyzable.map((file: Attachment) => file.name).join(', ')} will be left out: the AI can only read PNG, JPEG and WebP images, PDFs and plain text, Markdown or CSV files.
+                                    </p>
+                                )}
+                                {analysisRequest.isRunning && analysisPreview && (
+                                    <p className="mt-2 p-2 rounded bg-gray-50 dark:bg-gray-700/50 text-sm whitespace-pre-wrap" aria-live="polite">{analysisPreview}</p>
+                                )}
+                            </>
                         )}
                     </div>
                     <div className="grid grid-cols-2 gap-4">
                         <div>
                             <label htmlFor="edit-points" className="font-semibold block mb-2">Story Points (Optional)</label>
-                            <input id="edit-points" type="number" value={points} onChange={(e) => setPoints(e.target.value === '' ? '' : parseInt(e.target.value, 10))} min="0" className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+                            <div className="flex gap-2">
+                                <input id="edit-points" type="number" value={points} onChange={(e) => setPoints(e.target.value === '' ? '' : parseInt(e.target.value, 10))} min="0" className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+                                <button
+                                    type="button"
+                                    onClick={estimateRequest.isRunning ? estimateRequest.cancel : handleSuggestEstimate}
+                                    disabled={!estimateRequest.isRunning && !title.trim()}
+                                    className="px-3 rounded bg-secondary text-white text-sm whitespace-nowrap hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                                    title={estimateRequest.isRunning ? 'Cancel' : "Suggest an estimate based on the team's completed stories"}
+                                >
+                                    {estimateRequest.isRunning ? <><InlineSpinner />✕</> : '✨ Suggest'}
+                                </button>
+                            </div>
                         </div>
                         <div>
                              <label htmlFor="edit-status" className="font-semibold block mb-2">Status</label>
-                             <select id="edit-status" value={column} onChange={(e) => setColumn(e.target.value as ColumnId)} className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 h-[42px]">
-                                {COLUMNS.map(col => (
+                            <select id="edit-status" value={column} onChange={(e) => handleColumnChange(e.target.value as ColumnId)} className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 h-[42px]">
+                                {columns.map(col => (
                                     <option key={col.id} value={col.id}>{col.title}</option>
                                 ))}
                              </select>
                         </div>
                     </div>
+                    {estimateInconsistency && !estimateSuggestion && (
+                        <p className="text-sm text-yellow-600 dark:text-yellow-400">⚖ {describeInconsistency(estimateInconsistency)}</p>
+                    )}
+                    {estimateSuggestion && (
+                        <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-300 dark:border-green-700 text-sm">
+                            <div className="flex justify-between items-center mb-1">
+                                <span className="font-semibold">Suggested estimate: {estimateSuggestion.points} points</span>
+                                <div className="space-x-2">
+                                    <button type="button" onClick={() => { setPoints(estimateSuggestion.points); setEstimateSuggestion(null); }} className="px-2 py-0.5 rounded bg-secondary text-white">Use</button>
+                                    <button type="button" onClick={() => setEstimateSuggestion(null)} className="px-2 py-0.5 rounded bg-gray-200 dark:bg-gray-600">Dismiss</button>
+                                </div>
+                            </div>
+                            <p className="text-medium dark:text-gray-300">{estimateSuggestion.rationale}</p>
+                        </div>
+                    )}
+                    {column === 'blocked' && blocker && (
+                        <BlockerFields blocker={blocker} candidates={otherTasks.filter(t => !isFinished(t) && !wouldCreateCycle(task.id, t.id, tasks))} onChange={setBlocker} />
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="edit-assignee" className="font-semibold block mb-2">Assignee</label>
+                            <select id="edit-assignee" value={assigneeId} onChange={(e) => setAssigneeId(e.target.value)} className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600">
+                                <option value="">Unassigned</option>
+                                {members.map(member => (
+                                    <option key={member.id} value={member.id}>{member.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="edit-priority" className="font-semibold block mb-2">Priority</label>
+                            <PrioritySelect id="edit-priority" value={priority} onChange={setPriority} />
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="edit-labels" className="font-semibold block mb-2">Labels</label>
+                        <input id="edit-labels" type="text" value={labelsText} onChange={(e) => setLabelsText(e.target.value)} placeholder="e.g., frontend, tech-debt" className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+                        <p className="text-xs text-medium mt-1">Separate labels with commas.</p>
+                    </div>
+                    <div>
+                        <h3 className="font-semibold mb-2">Dependencies</h3>
+                        {dependsOn.length > 0 && (
+                            <ul className="space-y-1 mb-2 text-sm">
+                                {dependsOn.map(id => {
+                                    const dependency = tasks.find(t => t.id === id);
+                                    if (!dependency) return null;
+                                    return (
+                                        <li key={id} className="flex items-center gap-2">
+                                            <span className={isFinished(dependency) ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>{isFinished(dependency) ? '✓' : '⛓'}</span>
+                                            <span className="flex-1">Blocked by "{dependency.title}" <span className="text-medium">({columns.find(c => c.id === dependency.column)?.title ?? dependency.column})</span></span>
+                                            <button type="button" onClick={() => setDependsOn(dependsOn.filter(d => d !== id))} className="text-red-500 hover:text-red-700 font-bold" aria-label={`Remove dependency on ${dependency.title}`}>×</button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                        <select
+                            value=""
+                            onChange={(e) => e.target.value && setDependsOn([...dependsOn, e.target.value])}
+                            className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm"
+                            aria-label="Add a task this one is blocked by"
+                        >
+                            <option value="">+ Blocked by another task...</option>
+                            {dependencyCandidates.map(candidate => (
+                                <option key={candidate.id} value={candidate.id}>{candidate.title}</option>
+                            ))}
+                        </select>
+                        {dependents.length > 0 && (
+                            <p className="text-sm text-medium mt-2">Blocks: {dependents.map(t => `"${t.title}"`).join(', ')}</p>
+                        )}
+                    </div>
                     <div className="mt-6 flex justify-between items-center">
                         <button
                             type="button"
@@ -344,6 +1063,15 @@ const TaskDetailModal: React.FC<{
                         </div>
                     </div>
                 </form>
+                <TaskActivity
+                    task={savedTask}
+                    columns={columns}
+                    members={members}
+                    currentMemberId={currentMemberId}
+                    onCurrentMemberChange={onCurrentMemberChange}
+                    onAddComment={onAddComment}
+                    onDeleteComment={onDeleteComment}
+                />
             </div>
         </div>
     );
@@ -351,9 +1079,11 @@ const TaskDetailModal: React.FC<{
 
 const SprintEditModal: React.FC<{
     sprint: Sprint;
+    isNew?: boolean;
     onClose: () => void;
     onSave: (updatedSprint: Sprint) => void;
-}> = ({ sprint, onClose, onSave }) => {
+}> = ({ sprint, isNew, onClose, onSave }) => {
+    const { notify } = useToast();
     const [name, setName] = useState(sprint.name);
     const [goal, setGoal] = useState(sprint.goal);
     const formatDateForInput = (date: Date) => date.toISOString().split('T')[0];
@@ -362,11 +1092,11 @@ const SprintEditModal: React.FC<{
 
     const handleSubmit = () => {
         if (!name.trim() || !goal.trim() || !startDate || !endDate) {
-            alert('Please fill in all fields.');
+            notify({ kind: 'warning', message: 'Please fill in all fields.' });
             return;
         }
         if (new Date(startDate) >= new Date(endDate)) {
-            alert('The start date must be before the end date.');
+            notify({ kind: 'warning', message: 'The start date must be before the end date.' });
             return;
         }
         onSave({
@@ -381,7 +1111,7 @@ const SprintEditModal: React.FC<{
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-lg text-gray-800 dark:text-gray-100">
-                <h2 className="text-2xl font-bold mb-6">Edit Sprint Details</h2>
+                <h2 className="text-2xl font-bold mb-6">{isNew ? 'Plan New Sprint' : 'Edit Sprint Details'}</h2>
                 <form onSubmit={(e) => { e.preventDefault(); handleSubmit(); }} className="space-y-4">
                     <div>
                         <label htmlFor="sprint-name" className="font-semibold block mb-2">Sprint Name</label>
@@ -411,15 +1141,22 @@ const SprintEditModal: React.FC<{
     );
 };
 
+const SPRINT_STATUS_STYLES: Record<SprintStatus, string> = {
+  planned: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+  active: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  closed: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
+};
+
 const GenerateStoriesModal: React.FC<{
     onClose: () => void;
     onGenerate: (featureIdea: string) => void;
 }> = ({ onClose, onGenerate }) => {
+    const { notify } = useToast();
     const [featureIdea, setFeatureIdea] = useState('');
 
     const handleSubmit = () => {
         if (!featureIdea.trim()) {
-            alert('Please enter a feature idea.');
+            notify({ kind: 'warning', message: 'Please enter a feature idea.' });
             return;
         }
         onGenerate(featureIdea);
@@ -452,17 +1189,50 @@ const GenerateStoriesModal: React.FC<{
     );
 };
 
-const App: React.FC = () => {
-  const [tasks, setTasks] = useState<Task[]>(initialTasks);
-  const [sprint, setSprint] = useState<Sprint>(initialSprint);
-  const [isLoading, setIsLoading] = useState(false);
-  const [aiFeature, setAiFeature] = useState<'stories' | 'summary' | null>(null);
-  const [aiGeneratedContent, setAiGeneratedContent] = useState<string>('');
+type BoardSnapshot = Pick<Workspace, 'tasks' | 'deletedTasks' | 'sprints' | 'board' | 'team' | 'retrospectives' | 'savedViews'>;
+
+const CURRENT_MEMBER_KEY = 'scrum-sprint-runner:current-member';
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const SprintBoard: React.FC<{
+  savedWorkspace: Workspace | null;
+  repository: WorkspaceRepository;
+  dataSource: DataSourceSettings;
+  onChangeDataSource: (settings: DataSourceSettings) => void;
+}> = ({ savedWorkspace, repository, dataSource, onChangeDataSource }) => {
+  const { notify, notifyError } = useToast();
+  const [tasks, setTasks] = useState<Task[]>(savedWorkspace?.tasks ?? initialTasks);
+  const [deletedTasks, setDeletedTasks] = useState<Task[]>(savedWorkspace?.deletedTasks ?? []);
+  const [sprints, setSprints] = useState<Sprint[]>(savedWorkspace?.sprints ?? [initialSprint]);
+  const [selectedSprintId, setSelectedSprintId] = useState<string>(savedWorkspace?.selectedSprintId ?? initialSprint.id);
+  const [retrospectives, setRetrospectives] = useState<Retrospective[]>(savedWorkspace?.retrospectives ?? []);
+  const [savedViews, setSavedViews] = useState<SavedView[]>(savedWorkspace?.savedViews ?? []);
+  const [filter, setFilter] = useUrlFilter();
   const [showRetroModal, setShowRetroModal] = useState(false);
   const [showNewTaskModal, setShowNewTaskModal] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
-  const [showSprintModal, setShowSprintModal] = useState(false);
+  const [sprintDraft, setSprintDraft] = useState<{ sprint: Sprint; isNew: boolean } | null>(null);
+  const [showCompleteSprintModal, setShowCompleteSprintModal] = useState(false);
+  const [view, setView] = useState<'board' | 'refinement' | 'reports'>('board');
+  const [board, setBoard] = useState<BoardConfig>(savedWorkspace?.board ?? DEFAULT_BOARD_CONFIG);
+  const [showColumnSettings, setShowColumnSettings] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [showCsvModal, setShowCsvModal] = useState(false);
+  const [team, setTeam] = useState<Team>(savedWorkspace?.team ?? DEFAULT_TEAM);
+  const [showTeamModal, setShowTeamModal] = useState(false);
+  const [aiSettings, setAiSettingsState] = useState<AiSettings>(getAiSettings);
+  const [showAiSettings, setShowAiSettings] = useState(false);
+  const [syncSettings, setSyncSettingsState] = useState<SyncSettings>(getSyncSettings);
+  const [syncBackup, setSyncBackup] = useState<WorkspaceBackup | null>(loadSyncBackup);
+  const [showSyncSettings, setShowSyncSettings] = useState(false);
+  const [showDataSource, setShowDataSource] = useState(false);
+  const [storyReview, setStoryReview] = useState<{ featureIdea: string; stories: GeneratedStory[] } | null>(null);
   const [showStoriesModal, setShowStoriesModal] = useState(false);
+  const storyRequest = useAiRequest();
+  const [showPlanningModal, setShowPlanningModal] = useState(false);
+  const [blockerRequest, setBlockerRequest] = useState<{ taskId: string; beforeTaskId?: string } | null>(null);
   const [theme, setTheme] = useState(() => {
     const savedTheme = localStorage.getItem('theme');
     if (savedTheme) return savedTheme;
@@ -479,123 +1249,655 @@ const App: React.FC = () => {
     localStorage.setItem('theme', theme);
   }, [theme]);
 
+  // Who is using this browser, so comments and changes can be attributed. Not part of the shared workspace.
+  const [currentMemberId, setCurrentMemberId] = useState(() => localStorage.getItem(CURRENT_MEMBER_KEY) ?? '');
+
+  useEffect(() => {
+    localStorage.setItem(CURRENT_MEMBER_KEY, currentMemberId);
+  }, [currentMemberId]);
+
+  const actor = team.members.find(m => m.id === currentMemberId)?.name;
+
+  const sprint = sprints.find(s => s.id === selectedSprintId) ?? sprints[0];
+  const orderedSprints = useMemo(() => sortSprints(sprints), [sprints]);
+
+  const hasWarnedSaveFailure = useRef(false);
+
+  const currentWorkspace = useMemo<Workspace>(
+    () => ({ tasks, deletedTasks, sprints, selectedSprintId, board, team, retrospectives, savedViews }),
+    [tasks, deletedTasks, sprints, selectedSprintId, board, team, retrospectives, savedViews]
+  );
+
+  // Attachments from older saves and from imports arrive with their contents inline; move those into the
+  // blob store so the saved workspace stays small. Tasks that changed meanwhile keep any data not yet stored.
+  const hasInlineData = useMemo(() => hasInlineAttachments([...tasks, ...deletedTasks]), [tasks, deletedTasks]);
+  const hasWarnedBlobFailure = useRef(false);
+
+  useEffect(() => {
+    if (!hasInlineData) return;
+    let cancelled = false;
+    storeInlineAttachments([...tasks, ...deletedTasks])
+      .then(storedIds => {
+        if (cancelled) return;
+        setTasks(prev => withoutInlineData(prev, storedIds));
+        setDeletedTasks(prev => withoutInlineData(prev, storedIds));
+      })
+      .catch(error => {
+        console.error("Failed to move attachments into the blob store:", error);
+        if (!hasWarnedBlobFailure.current) {
+          hasWarnedBlobFailure.current = true;
+          notifyError('Attachments are stored inline', error);
+        }
+      });
+    return () => { cancelled = true; };
+  }, [hasInlineData, tasks, deletedTasks, notifyError]);
+
+  // Contents of removed attachments are kept while undo could bring them back, and cleaned up on the next load.
+  // The board kept from before syncing still needs its files.
+  useEffect(() => {
+    const backupTasks = syncBackup ? [...syncBackup.workspace.tasks, ...syncBackup.workspace.deletedTasks] : [];
+    pruneAttachmentBlobs([...tasks, ...deletedTasks, ...backupTasks]).catch(error => console.error("Failed to clean up attachment storage:", error));
+  }, []);
+
+  const sharedBoard = useMemo<SharedBoard>(
+    () => ({ tasks, collections: { sprints, board, team, retrospectives, savedViews } }),
+    [tasks, sprints, board, team, retrospectives, savedViews]
+  );
+
+  const sync = useBoardSync(
+    { ...syncSettings, name: syncSettings.name.trim() || actor || 'Guest', memberId: currentMemberId || undefined, editingTaskId: editingTask?.id },
+    sharedBoard,
+    deletedTasks,
+    {
+      onJoin: (shared) => {
+        // The shared board replaces this one, so keep a copy unless they are already the same.
+        const replaced = !sameValue(sharedBoard, shared);
+        const backedUp = replaced && saveSyncBackup(currentWorkspace);
+        if (backedUp) {
+          setSyncBackup({ savedAt: new Date(), workspace: currentWorkspace });
+        } else if (replaced) {
+          downloadFile(`scrum-workspace-before-sync-${new Date().toISOString().split('T')[0]}.json`, serializeWorkspace(currentWorkspace), 'application/json');
+        }
+        setTasks(shared.tasks);
+        setSprints(shared.collections.sprints);
+        setBoard(shared.collections.board);
+        setTeam(shared.collections.team);
+        setRetrospectives(shared.collections.retrospectives);
+        setSavedViews(shared.collections.savedViews);
+        setSelectedSprintId(prev => shared.collections.sprints.some(s => s.id === prev)
+          ? prev
+          : (shared.collections.sprints.find(s => s.status === 'active') ?? shared.collections.sprints[0])?.id ?? prev);
+        if (!replaced) {
+          notify({ kind: 'success', message: 'Connected to the shared board.' });
+        } else if (backedUp) {
+          notify({ kind: 'success', message: 'Connected to the shared board. The board you had before was kept; restore it from 💾 Backup.' });
+        } else {
+          notify({ kind: 'warning', message: 'Connected to the shared board. The board you had before could not be kept in browser storage, so it was downloaded as a file.', durationMs: 0 });
+        }
+      },
+      onTasks: setTasks,
+      onRemoteDelete: (task) => setDeletedTasks(prev => prev.some(t => t.id === task.id) ? prev : [...prev, task]),
+      onCollection: (key, value) => {
+        const setters = { sprints: setSprints, board: setBoard, team: setTeam, retrospectives: setRetrospectives, savedViews: setSavedViews };
+        setters[key](value);
+      },
+      onConflict: ({ title, fields, by }) => notify({
+        kind: 'warning',
+        title: 'Edit conflict',
+        message: `${by} changed the ${fields.join(', ')} of "${title}" at the same time as you; their version was kept. Your other changes were saved.`,
+      }),
+      // Undo restores whole-board snapshots, which would also revert what others changed since.
+      onRemoteChange: () => clearUndoHistory(),
+    }
+  );
+
+  // Other people's open task dialogs, for the "is editing" hint on cards.
+  const editorsByTask = useMemo(() => {
+    const editors = new Map<string, string[]>();
+    sync.peers
+      .filter((peer: SyncPeer) => peer.clientId !== sync.clientId && peer.editingTaskId)
+      .forEach((peer: SyncPeer) => editors.set(peer.editingTaskId!, [...(editors.get(peer.editingTaskId!) || []), peer.name]));
+    return editors;
+  }, [sync.peers, sync.clientId]);
+
+  const applyWorkspace = useCallback((workspace: Workspace) => {
+    setTasks(workspace.tasks);
+    setDeletedTasks(workspace.deletedTasks);
+    setSprints(workspace.sprints);
+    setSelectedSprintId(workspace.selectedSprintId);
+    setBoard(workspace.board);
+    setTeam(workspace.team);
+    setRetrospectives(workspace.retrospectives);
+    setSavedViews(workspace.savedViews);
+  }, []);
+
+  const boardSnapshot = useMemo<BoardSnapshot>(
+    () => ({ tasks, deletedTasks, sprints, board, team, retrospectives, savedViews }),
+    [tasks, deletedTasks, sprints, board, team, retrospectives, savedViews]
+  );
+
+  const restoreBoardSnapshot = useCallback((snapshot: BoardSnapshot) => {
+    setTasks(snapshot.tasks);
+    setDeletedTasks(snapshot.deletedTasks);
+    setSprints(snapshot.sprints);
+    setBoard(snapshot.board);
+    setTeam(snapshot.team);
+    setRetrospectives(snapshot.retrospectives);
+    setSavedViews(snapshot.savedViews);
+    setEditingTask(null);
+  }, []);
+
+  const { checkpoint, clear: clearUndoHistory, undo, redo, undoLabel, redoLabel } = useUndoHistory(boardSnapshot, restoreBoardSnapshot);
+
+  // The board as it is now, for saves that finish after it changed again.
+  const latestWorkspace = useRef(currentWorkspace);
+  latestWorkspace.current = currentWorkspace;
+
+  useEffect(() => {
+    repository.save(currentWorkspace)
+      .then((merged: Workspace | null) => {
+        hasWarnedSaveFailure.current = false;
+        if (!merged) return;
+        // The board was changed elsewhere (e.g. through the API) since it was loaded; show those changes
+        // too, keeping any made here while the save was on its way.
+        applyWorkspace(rebaseWorkspace(currentWorkspace, latestWorkspace.current, merged));
+        clearUndoHistory();
+        notify({ kind: 'info', message: 'The board was changed elsewhere while you worked. Those changes have been merged in.' });
+      })
+      .catch((error: Error) => {
+        if (hasWarnedSaveFailure.current) return;
+        hasWarnedSaveFailure.current = true;
+        notify({ kind: 'error', title: 'Changes are not being saved', message: `${error.message} Changes will be lost on reload.`, durationMs: 0 });
+      });
+  }, [currentWorkspace, notify, repository, applyWorkspace, clearUndoHistory]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const handleExportWorkspace = async () => {
+    const date = new Date().toISOString().split('T')[0];
+    try {
+      downloadFile(`scrum-workspace-${date}.json`, serializeWorkspace(await embedAttachments(currentWorkspace)), 'application/json');
+    } catch (error) {
+      console.error("Failed to export workspace:", error);
+      notifyError('Error exporting workspace', error);
+    }
+  };
+
+  const handleImportWorkspace = (workspace: Workspace) => {
+    checkpoint('Import workspace');
+    applyWorkspace(workspace);
+    setShowTransferModal(false);
+  };
+
+  const handleExportCsv = (layout: 'csv' | 'jira') => {
+    const date = new Date().toISOString().split('T')[0];
+    const content = layout === 'jira' ? exportJiraCsv(tasks, board.columns, sprints) : exportTasksCsv(tasks, board.columns, sprints);
+    downloadFile(`scrum-board-${layout === 'jira' ? 'jira-' : ''}${date}.csv`, content, 'text/csv');
+  };
+
+  const handleImportCsv = (drafts: CsvTaskDraft[]) => {
+    // Work with a status outside the backlog joins the sprint on screen, unless that sprint is already closed.
+    const targetSprintId = sprint.status !== 'closed' ? sprint.id : undefined;
+    const now = Date.now();
+    const firstRank = nextRank(tasks);
+    const imported: Task[] = drafts.map((draft, index) => {
+      const column = targetSprintId ? draft.column : 'backlog';
+      const sprintId = column !== 'backlog' ? targetSprintId : undefined;
+      return {
+        ...draft,
+        id: `task-${now}-${index}`,
+        column,
+        sprintId,
+        attachments: [],
+        rank: firstRank + index,
+        blocker: column === 'blocked' ? createBlocker({ reason: 'Imported as blocked from CSV.' }) : undefined,
+        history: [createTaskEvent('created', { to: column, points: draft.points, sprintId: sprintId ?? null, actor })],
+      };
+    });
+    checkpoint(`Import ${imported.length} task(s) from CSV`);
+    setTasks(prev => [...prev, ...imported]);
+    setShowCsvModal(false);
+  };
+
+  const handleSaveAiSettings = (settings: AiSettings) => {
+    setAiSettings(settings);
+    setAiSettingsState(settings);
+    setShowAiSettings(false);
+  };
+
+  const handleSaveSyncSettings = (settings: SyncSettings) => {
+    setSyncSettings(settings);
+    setSyncSettingsState(settings);
+    setShowSyncSettings(false);
+  };
+
+  // A location without a board yet gets a copy of this one, so switching never starts from scratch.
+  const handleSaveDataSource = async (settings: DataSourceSettings) => {
+    try {
+      const target = createWorkspaceRepository(settings);
+      if (!(await target.load())) {
+        await copyAttachmentBlobs([...tasks, ...deletedTasks], target.attachmentScope);
+        await target.save(currentWorkspace);
+      }
+    } catch (error) {
+      console.error("Failed to switch the data source:", error);
+      notifyError('Could not switch where the board is saved', error);
+      return;
+    }
+    setDataSourceSettings(settings);
+    setShowDataSource(false);
+    onChangeDataSource(settings);
+  };
+
   const toggleTheme = () => {
     setTheme(prevTheme => (prevTheme === 'light' ? 'dark' : 'light'));
   };
 
-  const moveTask = useCallback((taskId: string, targetColumn: ColumnId) => {
+  const sprintTasks = useMemo(() => tasks.filter(t => t.sprintId === sprint.id && t.column !== 'backlog'), [tasks, sprint.id]);
+
+  const tasksByColumn = useMemo(() => {
+    return sortByRank(tasks.filter(t => t.column === 'backlog' || t.sprintId === sprint.id)).reduce((acc, task) => {
+      if (!acc[task.column]) {
+        acc[task.column] = [];
+      }
+      acc[task.column].push(task);
+      return acc;
+    }, {} as Record<ColumnId, Task[]>);
+  }, [tasks, sprint.id]);
+
+  const activeFilter = useMemo(() => sanitizeFilter(filter), [filter]);
+  const visibleTasksByColumn = useMemo(() => {
+    if (isFilterEmpty(activeFilter)) return tasksByColumn;
+    return Object.fromEntries(Object.entries<Task[]>(tasksByColumn).map(([columnId, columnTasks]) =>
+      [columnId, columnTasks.filter(task => matchesFilter(task, activeFilter))]
+    )) as Record<ColumnId, Task[]>;
+  }, [tasksByColumn, activeFilter]);
+  const taskLabels = useMemo(() => collectLabels(tasks), [tasks]);
+  const dependencyIndex = useMemo(() => buildDependencyIndex(tasks), [tasks]);
+  const blockingTask = blockerRequest ? tasks.find(t => t.id === blockerRequest.taskId) : undefined;
+  const savedEditingTask = editingTask && (tasks.find(t => t.id === editingTask.id) ?? editingTask);
+
+  // Saving under an existing name updates that view rather than adding a second one.
+  const handleSaveView = (name: string) => {
+    const existing = savedViews.find(view => view.name.toLowerCase() === name.toLowerCase());
+    checkpoint(`Save view "${name}"`);
+    setSavedViews(prev => existing
+      ? prev.map(view => view.id === existing.id ? { ...view, filter: activeFilter } : view)
+      : [...prev, { id: `view-${Date.now()}`, name, filter: activeFilter }]);
+  };
+
+  const handleDeleteView = (view: SavedView) => {
+    checkpoint(`Delete view "${view.name}"`);
+    setSavedViews(prev => prev.filter(v => v.id !== view.id));
+  };
+
+  // Returns false when the move should be refused because of the target column's WIP limit.
+  const checkWipLimit = useCallback((taskId: string, targetColumn: ColumnId) => {
+    const column = board.columns.find(c => c.id === targetColumn);
+    const task = tasks.find(t => t.id === taskId);
+    if (!column?.wipLimit || targetColumn === 'backlog' || task?.column === targetColumn) return true;
+
+    const count = tasks.filter(t => t.column === targetColumn && t.sprintId === sprint.id).length;
+    if (count < column.wipLimit) return true;
+    if (board.wipPolicy === 'enforce') {
+      notify({ kind: 'warning', message: `"${column.title}" is at its WIP limit of ${column.wipLimit}. Finish something there before pulling more work in.` });
+      return false;
+    }
+    notify({ kind: 'warning', message: `Heads up: "${column.title}" is now over its WIP limit of ${column.wipLimit}.` });
+    return true;
+  }, [board, tasks, sprint.id, notify]);
+
+  // Without `beforeTaskId` the task lands at the bottom of the target column.
+  // Dependencies are a warning rather than a hard stop: teams sometimes start work early on purpose.
+  const warnAboutOpenDependencies = useCallback((task: Task, targetColumn: ColumnId) => {
+    if (!isForwardMove(task.column, targetColumn, board.columns)) return;
+    const open = unfinishedDependencies(task, tasks);
+    if (open.length === 0) return;
+    notify({
+      kind: 'warning',
+      title: `"${task.title}" has unfinished dependencies`,
+      message: `Still waiting on ${open.map(t => `"${t.title}"`).join(', ')}.`,
+    });
+  }, [board.columns, tasks, notify]);
+
+  // Moving a task into 'blocked' asks for a blocker first; the move completes once one is given.
+  const moveTask = useCallback((taskId: string, targetColumn: ColumnId, beforeTaskId?: string, blocker?: TaskBlocker) => {
+    if (targetColumn !== 'backlog' && sprint.status === 'closed') {
+      notify({ kind: 'warning', message: `${sprint.name} is closed. Switch to an active or planned sprint to move work into it.` });
+      return;
+    }
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+    const targetSprintId = targetColumn === 'backlog' ? undefined : sprint.id;
+    const columnTasks = tasksByColumn[targetColumn] || [];
+    const order = orderAfterDrop(columnTasks, taskId, beforeTaskId);
+    const isReorder = task.column === targetColumn && task.sprintId === targetSprintId;
+    if (isReorder && order.every((id, index) => columnTasks[index].id === id)) return;
+    if (!isReorder && targetColumn === 'blocked' && !blocker) {
+      setBlockerRequest({ taskId, beforeTaskId });
+      return;
+    }
+    if (!isReorder && !checkWipLimit(taskId, targetColumn)) return;
+    if (!isReorder) warnAboutOpenDependencies(task, targetColumn);
+    checkpoint(isReorder ? `Reorder "${task.title}"` : `Move "${task.title}"`);
     setTasks(
-      produce(draft => {
+      produce((draft: Task[]) => {
         const task = draft.find(t => t.id === taskId);
         if (task) {
-          task.column = targetColumn;
+          moveTaskTo(task, targetColumn, targetSprintId, new Date(), actor);
+          syncBlocker(task, 'Not recorded.', blocker);
         }
+        applyRanks(draft, order);
       })
     );
-  }, []);
+  }, [tasks, tasksByColumn, sprint, actor, checkWipLimit, warnAboutOpenDependencies, checkpoint, notify]);
+
+  const handleReorderBacklog = (orderedIds: string[], label: string) => {
+    checkpoint(label);
+    setTasks(produce((draft: Task[]) => {
+      applyRanks(draft, orderedIds);
+    }));
+  };
+
+  const handleSetPriority = (taskId: string, priority: TaskPriority | undefined) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || task.priority === priority) return;
+    checkpoint(`Prioritize "${task.title}"`);
+    setTasks(produce((draft: Task[]) => {
+      const task = draft.find(t => t.id === taskId);
+      if (!task) return;
+      if (priority) {
+        task.priority = priority;
+      } else {
+        delete task.priority;
+      }
+    }));
+  };
 
-  const handleAddTask = useCallback((taskData: { title: string; description: string; points?: number; }) => {
+  const handleAddTask = useCallback((taskData: { title: string; description: string; points?: number; priority?: TaskPriority }) => {
     const newTask: Task = {
       id: `task-${Date.now()}`,
       column: 'backlog',
       attachments: [],
-      ...taskData
+      rank: nextRank(tasks),
+      ...taskData,
+      history: [createTaskEvent('created', { to: 'backlog', points: taskData.points, actor })],
     };
+    checkpoint(`Add "${newTask.title}"`);
     setTasks(
-      produce(draft => {
+      produce((draft: Task[]) => {
         draft.push(newTask);
       })
     );
     setShowNewTaskModal(false);
-  }, []);
+  }, [tasks, actor, checkpoint]);
 
-    const handleUpdateTask = useCallback((updatedTask: Task) => {
-        setTasks(produce(draft => {
+  // `newEvents` are things that happened while the dialog was open, such as an AI analysis.
+  const handleUpdateTask = useCallback((editedTask: Task, newEvents: TaskEvent[] = []) => {
+    const before = tasks.find(t => t.id === editedTask.id);
+    // The dialog edits the task as it was when it opened. If a teammate changed it since, both edits are
+    // merged; where both changed the same field, theirs was saved first and is kept.
+    const opened = editingTask?.id === editedTask.id ? editingTask : undefined;
+    const { task: updatedTask, conflicts } = before && opened && !sameValue(opened, before)
+      ? mergeTask(opened, editedTask, before)
+      : { task: editedTask, conflicts: [] as string[] };
+    if (!checkWipLimit(updatedTask.id, updatedTask.column)) return;
+    warnAboutOpenDependencies({ ...updatedTask, column: before?.column ?? updatedTask.column }, updatedTask.column);
+    const editEvents = before ? diffTaskEdit(before, updatedTask, actor) : [];
+    checkpoint(`Edit "${updatedTask.title}"`);
+    setTasks(produce((draft: Task[]) => {
             const taskIndex = draft.findIndex(t => t.id === updatedTask.id);
             if (taskIndex !== -1) {
-                draft[taskIndex] = updatedTask;
+        const existing = draft[taskIndex];
+        // Keep the live history and comments rather than the copy the modal was opened with.
+        const history = existing.history || [];
+        draft[taskIndex] = { ...updatedTask, column: existing.column, history, comments: existing.comments };
+        const task = draft[taskIndex];
+        newEvents.forEach(event => appendTaskEvent(task, { ...event, actor }));
+        moveTaskTo(task, updatedTask.column, updatedTask.column === 'backlog' ? undefined : existing.sprintId ?? sprint.id, new Date(), actor);
+        syncBlocker(task, 'Not recorded.');
+        if ((existing.points || 0) !== (updatedTask.points || 0)) {
+          appendTaskEvent(task, createTaskEvent('estimated', { points: updatedTask.points, actor }));
+        }
+        editEvents.forEach(event => appendTaskEvent(task, event));
             }
         }));
+    if (conflicts.length > 0) {
+      notify({
+        kind: 'warning',
+        title: 'Edit conflict',
+        message: `Someone else changed the ${conflicts.join(', ')} of "${updatedTask.title}" while you had it open; their version was kept. Your other changes were saved.`,
+      });
+    }
         setEditingTask(null);
-    }, []);
-    
-    const handleDeleteTask = useCallback((taskId: string) => {
-        setTasks(produce(draft => {
-            const taskIndex = draft.findIndex(t => t.id === taskId);
-            if (taskIndex !== -1) {
-                draft.splice(taskIndex, 1);
+  }, [tasks, editingTask, sprint.id, actor, checkWipLimit, warnAboutOpenDependencies, checkpoint, notify]);
+
+  const updateComments = (taskId: string, label: string, update: (comments: TaskComment[]) => TaskComment[]) => {
+    checkpoint(label);
+    setTasks(produce((draft: Task[]) => {
+      const task = draft.find(t => t.id === taskId);
+      if (task) {
+        task.comments = update(task.comments || []);
             }
         }));
+  };
+
+  const handleAddComment = (task: Task, text: string, parentId?: string) => {
+    updateComments(task.id, `Comment on "${task.title}"`, comments => [...comments, createComment(text, actor, parentId)]);
+  };
+
+  const handleDeleteComment = (task: Task, commentId: string) => {
+    const removed = commentWithReplies(task.comments || [], commentId);
+    updateComments(task.id, `Delete comment on "${task.title}"`, comments => comments.filter(c => !removed.has(c.id)));
+  };
+    
+  const handleDeleteTask = useCallback((taskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (task) {
+      checkpoint(`Delete "${task.title}"`);
+      // Deleted tasks are archived so the burndown can still account for removed scope.
+      setDeletedTasks(prev => [...prev, produce(task, draft => {
+        appendTaskEvent(draft, createTaskEvent('deleted', { from: task.column, actor }));
+      })]);
+      setTasks(prev => prev.filter(t => t.id !== taskId));
+    }
         setEditingTask(null);
-    }, []);
+  }, [tasks, actor, checkpoint]);
 
     const handleOpenTaskDetails = (task: Task) => {
         setEditingTask(task);
     };
 
-    const handleUpdateSprint = useCallback((updatedSprint: Sprint) => {
-        setSprint(updatedSprint);
-        setShowSprintModal(false);
-    }, []);
+  const handleSaveSprint = useCallback((updatedSprint: Sprint) => {
+    checkpoint(`Save ${updatedSprint.name}`);
+    setSprints(produce((draft: Sprint[]) => {
+      const sprintIndex = draft.findIndex(s => s.id === updatedSprint.id);
+      if (sprintIndex !== -1) {
+        draft[sprintIndex] = updatedSprint;
+      } else {
+        draft.push(updatedSprint);
+      }
+    }));
+    setSelectedSprintId(updatedSprint.id);
+    setSprintDraft(null);
+  }, [checkpoint]);
+
+  const handleSaveBoardConfig = (config: BoardConfig, migrations: Record<ColumnId, ColumnId>) => {
+    checkpoint('Configure columns');
+    if (Object.keys(migrations).length > 0) {
+      setTasks(produce((draft: Task[]) => {
+        for (const task of draft) {
+          const target = migrations[task.column];
+          if (target) {
+            moveTaskTo(task, target, target === 'backlog' ? undefined : task.sprintId, new Date(), actor);
+            syncBlocker(task, 'Moved here when its column was removed.');
+          }
+        }
+      }));
+    }
+    setBoard(config);
+    setShowColumnSettings(false);
+  };
+
+  const columnTaskCounts = useMemo(() => tasks.reduce((acc, task) => {
+    acc[task.column] = (acc[task.column] || 0) + 1;
+    return acc;
+  }, {} as Record<ColumnId, number>), [tasks]);
+
+  const handleSaveTeam = (updatedTeam: Team) => {
+    checkpoint('Edit team roster');
+    const memberIds = new Set(updatedTeam.members.map(m => m.id));
+    setTasks(produce((draft: Task[]) => {
+      for (const task of draft) {
+        if (task.assigneeId && !memberIds.has(task.assigneeId)) {
+          delete task.assigneeId;
+        }
+      }
+    }));
+    setTeam(updatedTeam);
+    setShowTeamModal(false);
+  };
+
+  const handlePlanNewSprint = () => {
+    const lastSprint = orderedSprints[orderedSprints.length - 1];
+    setSprintDraft({ sprint: createSprintAfter(lastSprint, sprints.length + 1), isNew: true });
+  };
+
+  // Planned work lands in the first column after the backlog ("To Do" on the default board).
+  const planningColumn = board.columns.find(c => c.id !== 'backlog') ?? board.columns[0];
+
+  const handleApplySprintPlan = (taskIds: string[], goal: string) => {
+    const limit = planningColumn.wipLimit;
+    if (limit !== undefined) {
+      const count = tasks.filter(t => t.column === planningColumn.id && t.sprintId === sprint.id).length + taskIds.length;
+      if (count > limit) {
+        if (board.wipPolicy === 'enforce') {
+          notify({ kind: 'warning', message: `This plan would put ${count} tasks in "${planningColumn.title}", over its WIP limit of ${limit}. Deselect some tasks or raise the limit.` });
+          return;
+        }
+        notify({ kind: 'warning', message: `Heads up: "${planningColumn.title}" is now over its WIP limit of ${limit}.` });
+      }
+    }
+    checkpoint(`Plan ${taskIds.length} task(s) into ${sprint.name}`);
+    if (goal && goal !== sprint.goal) {
+      setSprints(prev => prev.map(s => (s.id === sprint.id ? { ...s, goal } : s)));
+    }
+    setTasks(produce((draft: Task[]) => {
+      draft.filter(t => taskIds.includes(t.id)).forEach(task => moveTaskTo(task, planningColumn.id, sprint.id, new Date(), actor));
+    }));
+    setShowPlanningModal(false);
+  };
+
+  const handleStartSprint = () => {
+    const activeSprint = sprints.find(s => s.status === 'active');
+    if (activeSprint) {
+      notify({ kind: 'warning', message: `${activeSprint.name} is still active. Complete it before starting ${sprint.name}.` });
+      return;
+    }
+    checkpoint(`Start ${sprint.name}`);
+    setSprints(produce((draft: Sprint[]) => {
+      const target = draft.find(s => s.id === sprint.id);
+      if (target) target.status = 'active';
+    }));
+  };
+
+  const nextPlannedSprint = useMemo(() => findNextPlannedSprint(sprints, sprint), [sprints, sprint]);
+
+  const handleCompleteSprint = (destinations: Record<string, 'next' | 'backlog'>) => {
+    const closedAt = new Date();
+    const needsNextSprint = Object.values(destinations).includes('next');
+    const nextSprint = nextPlannedSprint ?? (needsNextSprint ? createSprintAfter(orderedSprints[orderedSprints.length - 1], sprints.length + 1) : undefined);
+    checkpoint(`Complete ${sprint.name}`);
+
+    setSprints(produce((draft: Sprint[]) => {
+      const target = draft.find(s => s.id === sprint.id);
+      if (target) {
+        target.status = 'closed';
+        target.closedAt = closedAt;
+      }
+      if (nextSprint && !draft.some(s => s.id === nextSprint.id)) {
+        draft.push(nextSprint);
+      }
+    }));
+    setTasks(produce((draft: Task[]) => {
+      for (const task of draft) {
+        const destination = destinations[task.id];
+        if (task.sprintId !== sprint.id || !destination) continue;
+        if (destination === 'next' && nextSprint) {
+          moveTaskTo(task, task.column, nextSprint.id, closedAt, actor);
+        } else {
+          moveTaskTo(task, 'backlog', undefined, closedAt, actor);
+          syncBlocker(task, 'Not recorded.');
+        }
+      }
+    }));
+    if (nextSprint) {
+      setSelectedSprintId(nextSprint.id);
+    }
+    setShowCompleteSprintModal(false);
+  };
 
   const handleGenerateStories = async (featureIdea: string) => {
     if (!featureIdea) return;
     
     setShowStoriesModal(false);
-    setIsLoading(true);
-    setAiFeature('stories');
     try {
-        const newStories = await generateUserStories(featureIdea);
-        setTasks(prev => [...prev, ...newStories.map((story, index) => ({
-            ...story,
-            id: `task-${Date.now()}-${index}`,
-            column: 'backlog' as ColumnId,
-            attachments: [],
-        }))]);
+      const newStories = await storyRequest.run(options => generateUserStories(featureIdea, options));
+      if (newStories) {
+        setStoryReview({ featureIdea, stories: newStories });
+      }
     } catch (error) {
         console.error("Failed to generate user stories:", error);
-        alert(`Error generating user stories: ${error instanceof Error ? error.message : String(error)}`);
-    } finally {
-        setIsLoading(false);
-        setAiFeature(null);
+      notifyError('Error generating user stories', error);
     }
 };
   
-  const tasksByColumn = useMemo(() => {
-    return tasks.reduce((acc, task) => {
-      if (!acc[task.column]) {
-        acc[task.column] = [];
-      }
-      acc[task.column].push(task);
-      return acc;
-    }, {} as Record<ColumnId, Task[]>);
-  }, [tasks]);
+  const handleSaveRetrospectives = (saved: Retrospective[], newTasks: Task[]) => {
+    checkpoint(newTasks.length > 0 ? `Save retrospective and add ${newTasks.length} action item(s)` : 'Save retrospective');
+    setRetrospectives(prev => [...prev.filter(r => !saved.some(s => s.id === r.id)), ...saved]);
+    if (newTasks.length > 0) {
+      setTasks(prev => [...prev, ...newTasks.map((task, index) => ({ ...task, rank: nextRank(prev) + index }))]);
+    }
+    setShowRetroModal(false);
+  };
 
-  const sprintDurationDays = useMemo(() => {
-    const diffTime = Math.abs(sprint.endDate.getTime() - sprint.startDate.getTime());
-    return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  }, [sprint.startDate, sprint.endDate]);
+  const handleAcceptStories = (stories: GeneratedStory[]) => {
+    checkpoint(`Add ${stories.length} AI-generated stories`);
+    setTasks(prev => [...prev, ...stories.map((story, index) => ({
+      ...story,
+      acceptanceCriteria: story.acceptanceCriteria.map(createAcceptanceCriterion),
+      id: `task-${Date.now()}-${index}`,
+      column: 'backlog' as ColumnId,
+      attachments: [],
+      rank: nextRank(prev) + index,
+      history: [createTaskEvent('created', { to: 'backlog', points: story.points, actor })],
+    }))]);
+    setStoryReview(null);
+  };
 
-  const burndownData = useMemo(() => {
-    const sprintTasks = tasks.filter(t => t.column !== 'backlog');
-    const totalPoints = sprintTasks.reduce((sum, task) => sum + (task.points || 0), 0);
-    const data = [{ day: 0, remaining: totalPoints, ideal: totalPoints }];
-    
-    const pointsPerDay = totalPoints > 0 && sprintDurationDays > 0 ? totalPoints / sprintDurationDays : 0;
-
-    for (let i = 1; i <= sprintDurationDays; i++) {
-        const date = new Date(sprint.startDate);
-        date.setDate(date.getDate() + i);
-        // This is a simulation - in a real app, you'd track completion dates.
-        const completedPoints = tasks.filter(t => t.column === 'done').reduce((sum, task) => sum + (task.points || 0), 0);
-        data.push({
-            day: i,
-            remaining: totalPoints - completedPoints,
-            ideal: Math.max(0, Math.round((totalPoints - (pointsPerDay * i)) * 10) / 10),
-        });
-    }
-    return data;
-  }, [tasks, sprint.startDate, sprint.endDate, sprintDurationDays]);
+  // Deleted tasks stay in the metrics so removed scope is still accounted for.
+  const allTasks = useMemo(() => [...tasks, ...deletedTasks], [tasks, deletedTasks]);
+
+  const sprintRetrospective = findRetrospective(retrospectives, sprint.id);
+  const previousRetrospective = findPreviousRetrospective(retrospectives, sprints, sprint.id);
+
+  const estimateInconsistencies = useMemo(() => findEstimateInconsistencies(tasks), [tasks]);
+
+  const burndownData = useMemo(() => buildBurndown(allTasks, sprint), [allTasks, sprint]);
 
   return (
     <DndProvider backend={HTML5Backend}>
@@ -603,6 +1905,36 @@ const App: React.FC = () => {
         <header className="bg-white dark:bg-gray-900 shadow-md p-4 flex justify-between items-center">
           <h1 className="text-3xl font-bold text-primary">Scrum Sprint Runner</h1>
           <div className="flex items-center space-x-4">
+            <div className="flex space-x-1">
+              <button
+                onClick={undo}
+                disabled={!undoLabel}
+                title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                className="p-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Undo"
+              >
+                ↶
+              </button>
+              <button
+                onClick={redo}
+                disabled={!redoLabel}
+                title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                className="p-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Redo"
+              >
+                ↷
+              </button>
+            </div>
+            <select
+              value={sprint.id}
+              onChange={(e) => setSelectedSprintId(e.target.value)}
+              className="p-2 border rounded-lg bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-100"
+              aria-label="Switch sprint"
+            >
+              {orderedSprints.map(s => (
+                <option key={s.id} value={s.id}>{s.name} ({s.status})</option>
+              ))}
+            </select>
             <button
               onClick={toggleTheme}
               className="p-2 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary bg-gray-200 dark:bg-gray-700"
@@ -618,6 +1950,56 @@ const App: React.FC = () => {
                 </svg>
               )}
             </button>
+            <div className="flex rounded-lg border border-primary overflow-hidden" role="group" aria-label="Switch view">
+              {([['board', '🗂️ Board'], ['refinement', '📋 Refinement'], ['reports', '📊 Reports']] as const).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setView(id)}
+                  aria-pressed={view === id}
+                  className={`px-3 py-2 font-semibold transition-colors ${view === id ? 'bg-primary text-white' : 'text-primary hover:bg-primary hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setShowTransferModal(true)}
+              className="px-4 py-2 border border-primary text-primary font-semibold rounded-lg hover:bg-primary hover:text-white transition-colors"
+            >
+              💾 Backup
+            </button>
+            <button
+              onClick={() => setShowSyncSettings(true)}
+              className="px-3 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-sm text-gray-800 dark:text-gray-100 flex items-center gap-2"
+              title={sync.peers.length > 0 ? `Connected: ${sync.peers.map((peer: SyncPeer) => peer.name).join(', ')}` : 'Share this board in real time'}
+            >
+              <span className={`h-2 w-2 rounded-full ${sync.status === 'connected' ? 'bg-green-500' : sync.status === 'off' ? 'bg-gray-400' : 'bg-yellow-500'}`} aria-hidden="true"></span>
+              {sync.status === 'connected' ? (
+                <span className="flex -space-x-1">
+                  {sync.peers.map((peer: SyncPeer) => (
+                    <span key={peer.clientId} className="inline-flex items-center justify-center h-6 w-6 rounded-full bg-indigo-200 text-indigo-800 dark:bg-indigo-800 dark:text-indigo-100 text-xs font-semibold ring-2 ring-white dark:ring-gray-700">
+                      {initialsFor(peer.name)}
+                    </span>
+                  ))}
+                </span>
+              ) : (
+                <>🔗 {SYNC_STATUS_LABELS[sync.status as SyncStatus]}</>
+              )}
+            </button>
+            <button
+              onClick={() => setShowDataSource(true)}
+              className="px-3 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-sm text-gray-800 dark:text-gray-100"
+              title="Choose where the board is saved"
+            >
+              🗄️ {DATA_SOURCE_LABELS[dataSource.source]}
+            </button>
+            <button
+              onClick={() => setShowAiSettings(true)}
+              className="px-3 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-sm text-gray-800 dark:text-gray-100"
+              title="Choose the AI provider"
+            >
+              🤖 {AI_PROVIDER_LABELS[aiSettings.provider]}
+            </button>
             <button onClick={() => setShowStoriesModal(true)} className="px-4 py-2 bg-secondary text-white font-semibold rounded-lg shadow-md hover:bg-green-600 transition-colors">
               ✨ AI Generate Stories
             </button>
@@ -628,15 +2010,55 @@ const App: React.FC = () => {
         </header>
         
         <main className="p-8">
+          {view === 'reports' ? (
+            <ReportsView tasks={allTasks} sprints={sprints} columns={board.columns} />
+          ) : view === 'refinement' ? (
+            <BacklogRefinementView
+              backlog={tasksByColumn['backlog'] || []}
+              members={team.members}
+              estimateInconsistencies={estimateInconsistencies}
+              onTaskClick={handleOpenTaskDetails}
+              onAddTaskClick={() => setShowNewTaskModal(true)}
+              onReorder={handleReorderBacklog}
+              onSetPriority={handleSetPriority}
+            />
+          ) : (
+            <>
           <div className="bg-white dark:bg-gray-900 p-6 rounded-lg shadow-lg mb-8">
             <div className="flex justify-between items-center">
-                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">{sprint.name}</h2>
-                <button 
-                    onClick={() => setShowSprintModal(true)}
-                    className="text-sm px-3 py-1 border border-primary text-primary rounded-md hover:bg-primary hover:text-white transition-colors"
-                >
-                    Edit
-                </button>
+                  <div className="flex items-center space-x-3">
+                    <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">{sprint.name}</h2>
+                    <span className={`text-xs font-semibold uppercase rounded-full px-2 py-1 ${SPRINT_STATUS_STYLES[sprint.status]}`}>{sprint.status}</span>
+                  </div>
+                  <div className="space-x-2">
+                    {sprint.status === 'planned' && (
+                      <button onClick={handleStartSprint} className="text-sm px-3 py-1 bg-secondary text-white rounded-md hover:bg-green-600 transition-colors">
+                        Start Sprint
+                      </button>
+                    )}
+                    {sprint.status === 'active' && (
+                      <button onClick={() => setShowCompleteSprintModal(true)} className="text-sm px-3 py-1 bg-primary text-white rounded-md hover:bg-primary-hover transition-colors">
+                        Complete Sprint
+                      </button>
+                    )}
+                    {sprint.status !== 'closed' && (
+                      <button onClick={() => setShowPlanningModal(true)} className="text-sm px-3 py-1 bg-secondary text-white rounded-md hover:bg-green-600 transition-colors">
+                        ✨ Plan with AI
+                      </button>
+                    )}
+                    <button
+                      onClick={handlePlanNewSprint}
+                      className="text-sm px-3 py-1 border border-primary text-primary rounded-md hover:bg-primary hover:text-white transition-colors"
+                    >
+                      New Sprint
+                    </button>
+                    <button 
+                      onClick={() => setSprintDraft({ sprint, isNew: false })}
+                      className="text-sm px-3 py-1 border border-primary text-primary rounded-md hover:bg-primary hover:text-white transition-colors"
+                    >
+                      Edit
+                    </button>
+                  </div>
             </div>
             <p className="text-medium mt-1">{sprint.goal}</p>
             <div className="text-sm text-medium mt-2">
@@ -644,11 +2066,13 @@ const App: React.FC = () => {
             </div>
           </div>
 
+              <CapacityPanel sprint={sprint} sprintTasks={sprintTasks} team={team} onManageTeam={() => setShowTeamModal(true)} />
+
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
              <div className="lg:col-span-2 bg-white dark:bg-gray-900 p-6 rounded-lg shadow-lg">
                 <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-gray-100">Sprint Burndown</h3>
                 <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={burndownData}>
+                    <ComposedChart data={burndownData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#4a5568"/>
                     <XAxis dataKey="day" label={{ value: 'Sprint Day', position: 'insideBottom', offset: -5 }} stroke="#a0aec0"/>
                     <YAxis label={{ value: 'Story Points', angle: -90, position: 'insideLeft' }} stroke="#a0aec0"/>
@@ -656,55 +2080,132 @@ const App: React.FC = () => {
                     <Legend />
                     <Bar dataKey="remaining" fill="#4f46e5" name="Remaining Work"/>
                     <Bar dataKey="ideal" fill="#6b7280" name="Ideal Burn"/>
-                  </BarChart>
+                      <Line type="stepAfter" dataKey="completed" stroke="#10b981" strokeWidth={2} dot={false} name="Completed (Burnup)"/>
+                      <Line type="stepAfter" dataKey="scope" stroke="#f59e0b" strokeWidth={2} strokeDasharray="5 5" dot={false} name="Scope"/>
+                    </ComposedChart>
                 </ResponsiveContainer>
              </div>
              <div className="bg-white dark:bg-gray-900 p-6 rounded-lg shadow-lg">
-                <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-gray-100">AI Retrospective Summary</h3>
-                 {isLoading && aiFeature === 'summary' ? (
-                     <div className="flex items-center justify-center h-full"><div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary"></div></div>
-                 ) : aiGeneratedContent ? (
-                     <div className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap">{aiGeneratedContent}</div>
+                  <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-gray-100">Retrospective</h3>
+                  {sprintRetrospective && (sprintRetrospective.summary || sprintRetrospective.actionItems.length > 0) ? (
+                    <>
+                      {sprintRetrospective.summary && (
+                        <div className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap mb-4">{sprintRetrospective.summary}</div>
+                      )}
+                      <ul className="space-y-2">
+                        {sprintRetrospective.actionItems.map(item => {
+                          const status = resolveActionItemStatus(item, tasks);
+                          return (
+                            <li key={item.id} className="flex items-start gap-2 text-sm">
+                              <span className={`text-xs rounded px-2 py-0.5 capitalize ${ACTION_ITEM_STATUS_STYLES[status]}`}>{status}</span>
+                              <span className="flex-1">{item.text}{item.owner && <span className="text-medium"> · {item.owner}</span>}</span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </>
                  ) : (
-                    <p className="text-medium">Run a retrospective to generate an AI summary of action items.</p>
+                    <p className="text-medium">Run a retrospective to collect feedback and turn it into action items.</p>
                  )}
              </div>
           </div>
           
-          <div className="flex gap-6">
-            {COLUMNS.map(column => (
+              <div className="flex justify-end space-x-2 mb-4">
+                <button
+                  onClick={() => setShowCsvModal(true)}
+                  className="text-sm px-3 py-1 border border-primary text-primary rounded-md hover:bg-primary hover:text-white transition-colors"
+                >
+                  📄 CSV / Jira
+                </button>
+                <button
+                  onClick={() => setShowColumnSettings(true)}
+                  className="text-sm px-3 py-1 border border-primary text-primary rounded-md hover:bg-primary hover:text-white transition-colors"
+                >
+                  ⚙️ Configure Columns
+                </button>
+              </div>
+              <BoardFilterBar
+                filter={filter}
+                labels={taskLabels}
+                members={team.members}
+                savedViews={savedViews}
+                visibleCount={Object.values<Task[]>(visibleTasksByColumn).reduce((sum, columnTasks) => sum + columnTasks.length, 0)}
+                totalCount={Object.values<Task[]>(tasksByColumn).reduce((sum, columnTasks) => sum + columnTasks.length, 0)}
+                onChange={setFilter}
+                onSaveView={handleSaveView}
+                onDeleteView={handleDeleteView}
+              />
+              <div className="flex gap-6 overflow-x-auto pb-4">
+                {board.columns.map(column => (
               <KanbanColumn
                 key={column.id}
                 column={column}
-                tasks={tasksByColumn[column.id] || []}
+                    tasks={visibleTasksByColumn[column.id] || []}
+                    hiddenCount={(tasksByColumn[column.id] || []).length - (visibleTasksByColumn[column.id] || []).length}
+                    members={team.members}
+                    estimateInconsistencies={estimateInconsistencies}
+                    dependencyIndex={dependencyIndex}
+                    editorsByTask={editorsByTask}
+                    remoteChanges={sync.remoteChanges}
                 moveTask={moveTask}
                 onAddTaskClick={column.id === 'backlog' ? () => setShowNewTaskModal(true) : undefined}
                 onTaskClick={handleOpenTaskDetails}
               />
             ))}
           </div>
+            </>
+          )}
         </main>
 
-        {isLoading && !aiFeature && (
+        {storyRequest.isRunning && (
             <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
                 <div className="flex flex-col items-center">
                     <div className="animate-spin rounded-full h-24 w-24 border-b-4 border-white mb-4"></div>
-                    <p className="text-white text-lg">AI is thinking...</p>
+              <p className="text-white text-lg mb-4">AI is generating user stories...</p>
+              <button onClick={storyRequest.cancel} className="px-4 py-2 rounded bg-white text-gray-800 font-semibold hover:bg-gray-200">
+                Cancel
+              </button>
                 </div>
             </div>
         )}
         
         {showRetroModal && (
-            <RetrospectiveModal 
+          <RetrospectiveModal
+            sprint={sprint}
+            retrospective={sprintRetrospective}
+            previousRetrospective={previousRetrospective}
+            previousSprintName={sprints.find(s => s.id === previousRetrospective?.sprintId)?.name}
+            tasks={tasks}
+            columns={board.columns}
+            actor={actor}
                 onClose={() => setShowRetroModal(false)}
-                setSummary={setAiGeneratedContent}
-                setIsLoading={(loading) => {
-                    setIsLoading(loading);
-                    setAiFeature(loading ? 'summary' : null);
+            onSave={handleSaveRetrospectives}
+          />
+        )}
+
+        {blockerRequest && blockingTask && (
+          <BlockerModal
+            task={blockingTask}
+            candidates={tasks.filter(t => t.id !== blockingTask.id && !isFinished(t) && !wouldCreateCycle(blockingTask.id, t.id, tasks))}
+            onClose={() => setBlockerRequest(null)}
+            onConfirm={(blocker) => {
+              setBlockerRequest(null);
+              moveTask(blockingTask.id, 'blocked', blockerRequest.beforeTaskId, blocker);
                 }}
             />
         )}
 
+        {showPlanningModal && (
+          <SprintPlanningModal
+            sprint={sprint}
+            backlog={tasksByColumn['backlog'] || []}
+            planning={buildPlanningCapacity(tasks, deletedTasks, sprints, team, sprint)}
+            targetColumnTitle={planningColumn.title}
+            onClose={() => setShowPlanningModal(false)}
+            onApply={handleApplySprintPlan}
+          />
+        )}
+
         {showNewTaskModal && (
             <NewTaskModal 
                 onClose={() => setShowNewTaskModal(false)}
@@ -712,20 +2213,106 @@ const App: React.FC = () => {
             />
         )}
 
-        {editingTask && (
+        {editingTask && savedEditingTask && (
             <TaskDetailModal
                 task={editingTask}
+            columns={board.columns}
+            members={team.members}
+            referenceTasks={tasks}
+            tasks={tasks}
+            savedTask={savedEditingTask}
+            currentMemberId={currentMemberId}
+            estimateInconsistency={estimateInconsistencies.get(editingTask.id)}
                 onClose={() => setEditingTask(null)}
                 onSave={handleUpdateTask}
                 onDelete={handleDeleteTask}
+            onCurrentMemberChange={setCurrentMemberId}
+            onAddComment={(text, parentId) => handleAddComment(savedEditingTask, text, parentId)}
+            onDeleteComment={(commentId) => handleDeleteComment(savedEditingTask, commentId)}
             />
         )}
 
-        {showSprintModal && (
+        {sprintDraft && (
             <SprintEditModal
+            sprint={sprintDraft.sprint}
+            isNew={sprintDraft.isNew}
+            onClose={() => setSprintDraft(null)}
+            onSave={handleSaveSprint}
+          />
+        )}
+
+        {showTransferModal && (
+          <WorkspaceTransferModal
+            workspace={currentWorkspace}
+            syncBackup={syncBackup}
+            onClose={() => setShowTransferModal(false)}
+            onExport={handleExportWorkspace}
+            onImport={handleImportWorkspace}
+          />
+        )}
+
+        {showAiSettings && (
+          <AiSettingsModal
+            settings={aiSettings}
+            onClose={() => setShowAiSettings(false)}
+            onSave={handleSaveAiSettings}
+          />
+        )}
+
+        {showSyncSettings && (
+          <SyncSettingsModal
+            settings={syncSettings}
+            defaultName={actor || 'Guest'}
+            status={sync.status}
+            peers={sync.peers}
+            onClose={() => setShowSyncSettings(false)}
+            onSave={handleSaveSyncSettings}
+          />
+        )}
+
+        {showDataSource && (
+          <DataSourceModal
+            settings={dataSource}
+            onClose={() => setShowDataSource(false)}
+            onSave={handleSaveDataSource}
+          />
+        )}
+
+        {showTeamModal && (
+          <TeamRosterModal
+            team={team}
+            sprint={sprint}
+            onClose={() => setShowTeamModal(false)}
+            onSave={handleSaveTeam}
+          />
+        )}
+
+        {showCsvModal && (
+          <CsvTransferModal
+            columns={board.columns}
+            onClose={() => setShowCsvModal(false)}
+            onExport={handleExportCsv}
+            onImport={handleImportCsv}
+          />
+        )}
+
+        {showColumnSettings && (
+          <ColumnSettingsModal
+            config={board}
+            taskCounts={columnTaskCounts}
+            onClose={() => setShowColumnSettings(false)}
+            onSave={handleSaveBoardConfig}
+          />
+        )}
+
+        {showCompleteSprintModal && (
+          <CompleteSprintModal
                 sprint={sprint}
-                onClose={() => setShowSprintModal(false)}
-                onSave={handleUpdateSprint}
+            tasks={sprintTasks}
+            columns={board.columns}
+            nextSprint={nextPlannedSprint}
+            onClose={() => setShowCompleteSprintModal(false)}
+            onComplete={handleCompleteSprint}
             />
         )}
 
@@ -735,9 +2322,86 @@ const App: React.FC = () => {
                 onGenerate={handleGenerateStories}
             />
         )}
+
+        {storyReview && (
+          <StoryReviewModal
+            featureIdea={storyReview.featureIdea}
+            stories={storyReview.stories}
+            existingTasks={tasks}
+            onClose={() => setStoryReview(null)}
+            onRegenerate={(story, otherStories, options) => regenerateUserStory(storyReview.featureIdea, story, otherStories, options)}
+            onAccept={handleAcceptStories}
+          />
+        )}
       </div>
     </DndProvider>
   );
 };
 
+// Loads the board from the chosen data source before showing it. Switching the source loads it afresh.
+const App: React.FC = () => {
+  const [dataSource, setDataSource] = useState<DataSourceSettings>(getDataSourceSettings);
+  const [attempt, setAttempt] = useState(0);
+  const repository = useMemo<WorkspaceRepository>(() => createWorkspaceRepository(dataSource), [dataSource]);
+  const [loaded, setLoaded] = useState<{ repository: WorkspaceRepository; workspace: Workspace | null } | null>(null);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoaded(null);
+    setLoadError(null);
+    repository.load()
+      .then(workspace => {
+        if (cancelled) return;
+        setAttachmentScope(repository.attachmentScope);
+        setLoaded({ repository, workspace });
+      })
+      .catch((error: Error) => {
+        console.error("Failed to load the board:", error);
+        if (!cancelled) setLoadError(error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, attempt]);
+
+  const switchToBrowserStorage = () => {
+    const settings: DataSourceSettings = { ...dataSource, source: 'local' };
+    setDataSourceSettings(settings);
+    setDataSource(settings);
+  };
+
+  if (loaded && loaded.repository === repository) {
+    return (
+      <SprintBoard
+        savedWorkspace={loaded.workspace}
+        repository={repository}
+        dataSource={dataSource}
+        onChangeDataSource={setDataSource}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-light dark:bg-dark text-dark dark:text-light font-sans flex items-center justify-center p-4">
+      {loadError ? (
+        <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-lg text-gray-800 dark:text-gray-100">
+          <h1 className="text-2xl font-bold mb-2">The board could not be loaded</h1>
+          <p className="text-sm text-medium mb-6">{loadError.message}</p>
+          <div className="flex justify-end space-x-4">
+            {dataSource.source !== 'local' && (
+              <button onClick={switchToBrowserStorage} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">
+                Use this browser's storage instead
+              </button>
+            )}
+            <button onClick={() => setAttempt(prev => prev + 1)} className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover">Retry</button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-medium">Loading the board...</p>
+      )}
+    </div>
+  );
+};
+
 export default App;
\ No newline at end of file
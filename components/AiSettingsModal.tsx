@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { AI_PROVIDER_LABELS } from '../services/ai';
+import type { AiProviderId, AiSettings } from '../services/ai';
+
+export const AiSettingsModal: React.FC<{
+  settings: AiSettings;
+  onClose: () => void;
+  onSave: (settings: AiSettings) => void;
+}> = ({ settings, onClose, onSave }) => {
+  const [draft, setDraft] = useState<AiSettings>(settings);
+  const update = (changes: Partial<AiSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+  const inputStyles = 'w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-lg text-gray-800 dark:text-gray-100">
+        <h2 className="text-2xl font-bold mb-6">AI Provider</h2>
+        <form onSubmit={(e) => { e.preventDefault(); onSave(draft); }} className="space-y-4">
+          <div>
+            <label htmlFor="ai-provider" className="font-semibold block mb-2">Provider</label>
+            <select id="ai-provider" value={draft.provider} onChange={(e) => update({ provider: e.target.value as AiProviderId })} className={inputStyles}>
+              {(Object.keys(AI_PROVIDER_LABELS) as AiProviderId[]).map(id => (
+                <option key={id} value={id}>{AI_PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+          </div>
+          {draft.provider === 'gemini' && (
+            <div>
+              <label htmlFor="gemini-model" className="font-semibold block mb-2">Model</label>
+              <input id="gemini-model" type="text" value={draft.geminiModel} onChange={(e) => update({ geminiModel: e.target.value })} required className={inputStyles}/>
+              <p className="text-sm text-medium mt-1">Uses the GEMINI_API_KEY configured in .env.local.</p>
+            </div>
+          )}
+          {draft.provider === 'openai-compatible' && (
+            <>
+              <div>
+                <label htmlFor="openai-base-url" className="font-semibold block mb-2">Base URL</label>
+                <input id="openai-base-url" type="url" value={draft.openAiBaseUrl} onChange={(e) => update({ openAiBaseUrl: e.target.value })} placeholder="http://localhost:11434/v1" required className={inputStyles}/>
+              </div>
+              <div>
+                <label htmlFor="openai-model" className="font-semibold block mb-2">Model</label>
+                <input id="openai-model" type="text" value={draft.openAiModel} onChange={(e) => update({ openAiModel: e.target.value })} required className={inputStyles}/>
+              </div>
+              <div>
+                <label htmlFor="openai-api-key" className="font-semibold block mb-2">API Key (Optional)</label>
+                <input id="openai-api-key" type="password" value={draft.openAiApiKey} onChange={(e) => update({ openAiApiKey: e.target.value })} className={inputStyles}/>
+              </div>
+            </>
+          )}
+          {draft.provider === 'mock' && (
+            <p className="text-sm text-medium">Returns deterministic placeholder content without any network access or API key. Useful for development and demos.</p>
+          )}
+          <div className="mt-6 flex justify-end space-x-4">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Cancel</button>
+            <button type="submit" className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover">Save</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
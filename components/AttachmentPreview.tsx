@@ -0,0 +1,40 @@
+import React, { useState, useEffect } from 'react';
+import { loadAttachmentBlob, previewKindOf } from '../services/attachmentService';
+import type { Attachment } from '../types';
+import { InlineSpinner } from './InlineSpinner';
+
+const PREVIEW_TEXT_LIMIT = 20000;
+
+export const AttachmentPreview: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
+  const kind = previewKindOf(attachment);
+  const [url, setUrl] = useState('');
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let objectUrl = '';
+    let cancelled = false;
+    loadAttachmentBlob(attachment)
+      .then(async blob => {
+        if (cancelled) return;
+        if (kind === 'text') {
+          const content = await blob.text();
+          if (!cancelled) setText(content.length > PREVIEW_TEXT_LIMIT ? `${content.slice(0, PREVIEW_TEXT_LIMIT)}\n…` : content);
+        } else {
+          objectUrl = URL.createObjectURL(blob);
+          setUrl(objectUrl);
+        }
+      })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment, kind]);
+
+  if (error) return <p className="text-sm text-red-500">{error}</p>;
+  if (kind === 'text') return <pre className="max-h-64 overflow-auto p-2 rounded bg-white dark:bg-gray-800 text-xs whitespace-pre-wrap">{text}</pre>;
+  if (!url) return <p className="text-sm text-medium"><InlineSpinner />Loading preview...</p>;
+  if (kind === 'image') return <img src={url} alt={attachment.name} className="max-h-64 mx-auto rounded" />;
+  return <iframe src={url} title={attachment.name} className="w-full h-96 rounded bg-white" />;
+};
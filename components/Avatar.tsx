@@ -0,0 +1,11 @@
+import React from 'react';
+import type { TeamMember } from '../types';
+
+export const Avatar: React.FC<{ member: TeamMember; size?: 'sm' | 'md' }> = ({ member, size = 'sm' }) => (
+  <span
+    className={`inline-flex items-center justify-center rounded-full bg-indigo-200 text-indigo-800 dark:bg-indigo-800 dark:text-indigo-100 font-semibold ${size === 'sm' ? 'h-6 w-6 text-xs' : 'h-8 w-8 text-sm'}`}
+    title={member.name}
+  >
+    {member.initials}
+  </span>
+);
@@ -0,0 +1,147 @@
+import React, { useState, useMemo } from 'react';
+import { describeInconsistency } from '../services/estimationService';
+import type { EstimateInconsistency } from '../services/estimationService';
+import { needsEstimate, sortBacklog, taskAgeInDays } from '../services/backlogService';
+import type { BacklogSortKey } from '../services/backlogService';
+import type { Task, TeamMember, TaskPriority } from '../types';
+import { PRIORITY_LABELS, TASK_PRIORITIES } from '../constants';
+import { Avatar } from './Avatar';
+import { PRIORITY_STYLES } from './PriorityBadge';
+
+const BACKLOG_SORT_LABELS: Record<BacklogSortKey, string> = {
+  'rank': 'Backlog order',
+  'priority': 'Priority',
+  'points': 'Points (largest first)',
+  'age': 'Age (oldest first)',
+  'needs-estimate': 'Needs estimate first',
+};
+
+export const BacklogRefinementView: React.FC<{
+  backlog: Task[]; // already in rank order
+  members: TeamMember[];
+  estimateInconsistencies: Map<string, EstimateInconsistency>;
+  onTaskClick: (task: Task) => void;
+  onAddTaskClick: () => void;
+  onReorder: (orderedIds: string[], label: string) => void;
+  onSetPriority: (taskId: string, priority: TaskPriority | undefined) => void;
+}> = ({ backlog, members, estimateInconsistencies, onTaskClick, onAddTaskClick, onReorder, onSetPriority }) => {
+  const [sortKey, setSortKey] = useState<BacklogSortKey>('rank');
+  const sorted = useMemo(() => sortBacklog(backlog, sortKey), [backlog, sortKey]);
+  const rankPositions = useMemo(() => new Map(backlog.map((task, index) => [task.id, index + 1])), [backlog]);
+
+  const totalPoints = backlog.reduce((sum, task) => sum + (task.points || 0), 0);
+  const unestimatedCount = backlog.filter(needsEstimate).length;
+
+  const moveTo = (task: Task, position: number) => {
+    const ids = backlog.map(t => t.id).filter(id => id !== task.id);
+    ids.splice(Math.max(0, Math.min(position, ids.length)), 0, task.id);
+    onReorder(ids, `Reorder "${task.title}"`);
+  };
+
+  const rankButtonStyles = 'px-1.5 rounded text-medium hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-white dark:bg-gray-900 p-6 rounded-lg shadow-lg">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Backlog Refinement</h2>
+          <p className="text-sm text-medium mt-1">
+            {backlog.length} item(s) · {totalPoints} points
+            {unestimatedCount > 0 && <span className="text-yellow-600 dark:text-yellow-400"> · {unestimatedCount} need an estimate</span>}
+            {TASK_PRIORITIES.map(priority => {
+              const count = backlog.filter(task => task.priority === priority).length;
+              return count > 0 ? <span key={priority}> · {count} {PRIORITY_LABELS[priority].toLowerCase()}</span> : null;
+            })}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="backlog-sort" className="text-sm font-semibold">Sort by</label>
+          <select id="backlog-sort" value={sortKey} onChange={(e) => setSortKey(e.target.value as BacklogSortKey)} className="p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm">
+            {(Object.keys(BACKLOG_SORT_LABELS) as BacklogSortKey[]).map(key => (
+              <option key={key} value={key}>{BACKLOG_SORT_LABELS[key]}</option>
+            ))}
+          </select>
+          {sortKey !== 'rank' && (
+            <button
+              onClick={() => { onReorder(sorted.map(task => task.id), `Reorder backlog by ${BACKLOG_SORT_LABELS[sortKey].toLowerCase()}`); setSortKey('rank'); }}
+              className="text-sm px-3 py-1 border border-primary text-primary rounded-md hover:bg-primary hover:text-white transition-colors"
+              title="Rank the backlog in the order shown"
+            >
+              Save as backlog order
+            </button>
+          )}
+          <button onClick={onAddTaskClick} className="text-sm px-3 py-1 bg-primary text-white rounded-md hover:bg-primary-hover transition-colors">+ Add Task</button>
+        </div>
+      </div>
+      {backlog.length === 0 ? (
+        <p className="text-medium">The backlog is empty.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-medium border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-2 w-24">Rank</th>
+                <th className="py-2 pr-2">Story</th>
+                <th className="py-2 pr-2 w-40">Priority</th>
+                <th className="py-2 pr-2 w-24">Points</th>
+                <th className="py-2 pr-2 w-16">Age</th>
+                <th className="py-2 w-10"><span className="sr-only">Assignee</span></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(task => {
+                const position = rankPositions.get(task.id)!;
+                const inconsistency = estimateInconsistencies.get(task.id);
+                const age = taskAgeInDays(task);
+                const assignee = members.find(m => m.id === task.assigneeId);
+                return (
+                  <tr key={task.id} className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50">
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      <span className="inline-block w-6 text-medium">{position}</span>
+                      {sortKey === 'rank' && (
+                        <>
+                          <button onClick={() => moveTo(task, 0)} disabled={position === 1} className={rankButtonStyles} aria-label={`Move "${task.title}" to the top`} title="Move to top">⤒</button>
+                          <button onClick={() => moveTo(task, position - 2)} disabled={position === 1} className={rankButtonStyles} aria-label={`Move "${task.title}" up`} title="Move up">↑</button>
+                          <button onClick={() => moveTo(task, position)} disabled={position === backlog.length} className={rankButtonStyles} aria-label={`Move "${task.title}" down`} title="Move down">↓</button>
+                        </>
+                      )}
+                    </td>
+                    <td className="py-2 pr-2">
+                      <button onClick={() => onTaskClick(task)} className="text-left font-semibold text-gray-800 dark:text-gray-100 hover:text-primary">{task.title}</button>
+                      <p className="text-medium line-clamp-1">{task.description}</p>
+                    </td>
+                    <td className="py-2 pr-2">
+                      <select
+                        value={task.priority ?? ''}
+                        onChange={(e) => onSetPriority(task.id, (e.target.value || undefined) as TaskPriority | undefined)}
+                        className={`w-full p-1 rounded border border-gray-300 dark:border-gray-600 ${task.priority ? PRIORITY_STYLES[task.priority] : 'bg-gray-50 dark:bg-gray-700'}`}
+                        aria-label={`Priority of "${task.title}"`}
+                      >
+                        <option value="">—</option>
+                        {TASK_PRIORITIES.map(priority => (
+                          <option key={priority} value={priority}>{PRIORITY_LABELS[priority]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      {needsEstimate(task) ? (
+                        <span className="text-xs font-semibold text-yellow-700 dark:text-yellow-300 bg-yellow-100 dark:bg-yellow-900/40 rounded-full px-2 py-0.5">Needs estimate</span>
+                      ) : (
+                        <>
+                          {task.points}
+                          {inconsistency && <span className="ml-1 text-xs text-yellow-700 dark:text-yellow-300" title={describeInconsistency(inconsistency)}>⚖ ~{inconsistency.typicalPoints}?</span>}
+                        </>
+                      )}
+                    </td>
+                    <td className="py-2 pr-2 text-medium">{age !== undefined ? `${age}d` : '—'}</td>
+                    <td className="py-2">{assignee && <Avatar member={assignee} />}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
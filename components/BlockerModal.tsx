@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { useToast } from '../hooks/useToast';
+import { createBlocker } from '../services/blockerService';
+import type { Task, TaskBlocker } from '../types';
+
+// Date inputs edit the day; keep the original timestamp while the day is unchanged.
+const withBlockedSinceDay = (blocker: TaskBlocker, day: string): TaskBlocker =>
+  !day || blocker.since.startsWith(day) ? blocker : { ...blocker, since: new Date(day).toISOString() };
+
+export const BlockerFields: React.FC<{
+  blocker: TaskBlocker;
+  candidates: Task[]; // tasks this one could be waiting on
+  onChange: (blocker: TaskBlocker) => void;
+}> = ({ blocker, candidates, onChange }) => {
+  const update = (changes: Partial<TaskBlocker>) => onChange({ ...blocker, ...changes });
+  const inputStyles = 'w-full p-2 border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600';
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-300 dark:border-red-700">
+      <div>
+        <label htmlFor="blocker-reason" className="font-semibold block mb-1">Why is it blocked?</label>
+        <textarea id="blocker-reason" value={blocker.reason} onChange={(e) => update({ reason: e.target.value })} rows={2} required placeholder="e.g., Waiting for the payment provider to enable the sandbox" className={inputStyles}/>
+      </div>
+      <div className="grid grid-cols-3 gap-3 text-sm">
+        <div>
+          <label htmlFor="blocker-task" className="font-semibold block mb-1">Blocked by task</label>
+          <select id="blocker-task" value={blocker.blockedByTaskId ?? ''} onChange={(e) => update({ blockedByTaskId: e.target.value || undefined })} className={inputStyles}>
+            <option value="">None</option>
+            {candidates.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{candidate.title}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="blocker-party" className="font-semibold block mb-1">External party</label>
+          <input id="blocker-party" type="text" value={blocker.externalParty ?? ''} onChange={(e) => update({ externalParty: e.target.value || undefined })} placeholder="e.g., Legal" className={inputStyles}/>
+        </div>
+        <div>
+          <label htmlFor="blocker-since" className="font-semibold block mb-1">Blocked since</label>
+          <input id="blocker-since" type="date" value={blocker.since.split('T')[0]} onChange={(e) => onChange(withBlockedSinceDay(blocker, e.target.value))} className={inputStyles}/>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const BlockerModal: React.FC<{
+  task: Task;
+  candidates: Task[];
+  onClose: () => void;
+  onConfirm: (blocker: TaskBlocker) => void;
+}> = ({ task, candidates, onClose, onConfirm }) => {
+  const { notify } = useToast();
+  const [blocker, setBlocker] = useState<TaskBlocker>(() => createBlocker({ reason: '' }));
+
+  const handleSubmit = () => {
+    if (!blocker.reason.trim()) {
+      notify({ kind: 'warning', message: 'Please say why the task is blocked.' });
+      return;
+    }
+    onConfirm({ ...blocker, reason: blocker.reason.trim(), externalParty: blocker.externalParty?.trim() || undefined });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-xl text-gray-800 dark:text-gray-100">
+        <h2 className="text-2xl font-bold mb-2">Block "{task.title}"</h2>
+        <p className="text-medium mb-4">Record what the task is waiting for so the team can chase it.</p>
+        <form onSubmit={(e) => { e.preventDefault(); handleSubmit(); }}>
+          <BlockerFields blocker={blocker} candidates={candidates} onChange={setBlocker} />
+          <div className="mt-6 flex justify-end space-x-4">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Cancel</button>
+            <button type="submit" className="px-4 py-2 rounded bg-red-600 text-white hover:bg-red-700">Mark as Blocked</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
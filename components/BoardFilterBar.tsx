@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { filtersEqual, isFilterEmpty } from '../services/filterService';
+import type { TeamMember, TaskFilter, SavedView } from '../types';
+
+export const BoardFilterBar: React.FC<{
+  filter: TaskFilter;
+  labels: string[];
+  members: TeamMember[];
+  savedViews: SavedView[];
+  visibleCount: number;
+  totalCount: number;
+  onChange: (filter: TaskFilter) => void;
+  onSaveView: (name: string) => void;
+  onDeleteView: (view: SavedView) => void;
+}> = ({ filter, labels, members, savedViews, visibleCount, totalCount, onChange, onSaveView, onDeleteView }) => {
+  const [showFilters, setShowFilters] = useState(() => !isFilterEmpty({ ...filter, text: undefined }));
+  const [viewName, setViewName] = useState<string | null>(null);
+  const isEmpty = isFilterEmpty(filter);
+  const activeView = savedViews.find(view => filtersEqual(view.filter, filter));
+
+  const update = (changes: Partial<TaskFilter>) => onChange({ ...filter, ...changes });
+  const parsePoints = (value: string) => value === '' ? undefined : Math.max(0, parseInt(value, 10) || 0);
+
+  const handleSaveView = () => {
+    if (viewName?.trim()) {
+      onSaveView(viewName.trim());
+      setViewName(null);
+    }
+  };
+
+  const inputStyles = 'p-2 border rounded-lg bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm';
+
+  return (
+    <div className="bg-white dark:bg-gray-900 p-4 rounded-lg shadow mb-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={filter.text ?? ''}
+          onChange={(e) => update({ text: e.target.value })}
+          placeholder="Search titles and descriptions..."
+          className={`${inputStyles} flex-1 min-w-[12rem]`}
+          aria-label="Search tasks"
+        />
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          aria-expanded={showFilters}
+          className="text-sm px-3 py-2 border border-primary text-primary rounded-lg hover:bg-primary hover:text-white transition-colors"
+        >
+          ⚙ Filters
+        </button>
+        <select
+          value={activeView?.id ?? ''}
+          onChange={(e) => {
+            const view = savedViews.find(v => v.id === e.target.value);
+            onChange(view ? view.filter : {});
+          }}
+          className={inputStyles}
+          aria-label="Saved views"
+        >
+          <option value="">{activeView || isEmpty ? 'All tasks' : 'Unsaved filter'}</option>
+          {savedViews.map(view => (
+            <option key={view.id} value={view.id}>{view.name}</option>
+          ))}
+        </select>
+        {activeView ? (
+          <button onClick={() => onDeleteView(activeView)} className="text-sm text-red-500 hover:text-red-700" title={`Delete the "${activeView.name}" view`}>
+            Delete view
+          </button>
+        ) : !isEmpty && viewName === null && (
+          <button onClick={() => setViewName('')} className="text-sm text-primary hover:underline">Save view</button>
+        )}
+        {viewName !== null && (
+          <form onSubmit={(e) => { e.preventDefault(); handleSaveView(); }} className="flex items-center gap-1">
+            <input autoFocus value={viewName} onChange={(e) => setViewName(e.target.value)} placeholder="View name" className={inputStyles} aria-label="View name" />
+            <button type="submit" disabled={!viewName.trim()} className="text-sm px-2 py-1 rounded bg-primary text-white disabled:bg-gray-400">Save</button>
+            <button type="button" onClick={() => setViewName(null)} className="text-sm px-2 py-1 rounded bg-gray-200 dark:bg-gray-600">Cancel</button>
+          </form>
+        )}
+        {!isEmpty && (
+          <>
+            <span className="text-sm text-medium">Showing {visibleCount} of {totalCount}</span>
+            <button onClick={() => onChange({})} className="text-sm text-primary hover:underline">Clear</button>
+          </>
+        )}
+      </div>
+      {showFilters && (
+        <div className="flex flex-wrap items-center gap-4 mt-3 text-sm">
+          <label className="flex items-center gap-1">
+            Points
+            <input type="number" min="0" value={filter.minPoints ?? ''} onChange={(e) => update({ minPoints: parsePoints(e.target.value) })} placeholder="min" className={`${inputStyles} w-20`} aria-label="Minimum points" />
+            –
+            <input type="number" min="0" value={filter.maxPoints ?? ''} onChange={(e) => update({ maxPoints: parsePoints(e.target.value) })} placeholder="max" className={`${inputStyles} w-20`} aria-label="Maximum points" />
+          </label>
+          <select value={filter.assigneeId ?? ''} onChange={(e) => update({ assigneeId: e.target.value || undefined })} className={inputStyles} aria-label="Filter by assignee">
+            <option value="">Any assignee</option>
+            {members.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+          <select value={filter.label ?? ''} onChange={(e) => update({ label: e.target.value || undefined })} className={inputStyles} aria-label="Filter by label" disabled={labels.length === 0 && !filter.label}>
+            <option value="">{labels.length === 0 ? 'No labels yet' : 'Any label'}</option>
+            {(filter.label && !labels.includes(filter.label) ? [filter.label, ...labels] : labels).map(label => (
+              <option key={label} value={label}>#{label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={!!filter.hasAttachments} onChange={(e) => update({ hasAttachments: e.target.checked || undefined })} />
+            Has attachments
+          </label>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={!!filter.unestimated} onChange={(e) => update({ unestimated: e.target.checked || undefined })} />
+            Unestimated
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import { buildSprintCapacity } from '../services/capacityService';
+import type { Task, Sprint, Team } from '../types';
+import { Avatar } from './Avatar';
+
+export const CapacityPanel: React.FC<{
+  sprint: Sprint;
+  sprintTasks: Task[];
+  team: Team;
+  onManageTeam: () => void;
+}> = ({ sprint, sprintTasks, team, onManageTeam }) => {
+  const capacity = useMemo(() => buildSprintCapacity(sprintTasks, team, sprint.id), [sprintTasks, team, sprint.id]);
+
+  return (
+    <div className="bg-white dark:bg-gray-900 p-6 rounded-lg shadow-lg mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">
+          Team Capacity
+          {team.members.length > 0 && (
+            <span className="ml-2 text-sm font-normal text-medium">{capacity.totalCommitted} / {capacity.totalCapacity} points committed</span>
+          )}
+        </h3>
+        <button onClick={onManageTeam} className="text-sm px-3 py-1 border border-primary text-primary rounded-md hover:bg-primary hover:text-white transition-colors">
+          Manage Team
+        </button>
+      </div>
+      {team.members.length === 0 ? (
+        <p className="text-medium">Add your team to compare committed points against each person's availability.</p>
+      ) : (
+        <div className="space-y-3">
+          {capacity.members.map(({ member, availabilityDays, capacityPoints, committedPoints, isOverCommitted }) => (
+            <div key={member.id} className="flex items-center gap-3">
+              <Avatar member={member} size="md" />
+              <div className="flex-1">
+                <div className="flex justify-between text-sm">
+                  <span className="font-semibold">{member.name} <span className="font-normal text-medium">({availabilityDays} days)</span></span>
+                  <span className={isOverCommitted ? 'text-red-500 font-semibold' : 'text-medium'}>
+                    {committedPoints} / {capacityPoints} pts{isOverCommitted && ' — over capacity'}
+                  </span>
+                </div>
+                <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full mt-1 overflow-hidden">
+                  <div
+                    className={`h-full ${isOverCommitted ? 'bg-red-500' : 'bg-primary'}`}
+                    style={{ width: `${capacityPoints > 0 ? Math.min(100, (committedPoints / capacityPoints) * 100) : committedPoints > 0 ? 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+          {capacity.unassignedPoints > 0 && (
+            <p className="text-sm text-yellow-600 dark:text-yellow-400">{capacity.unassignedPoints} points in this sprint are not assigned to anyone.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
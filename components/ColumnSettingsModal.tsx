@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { produce } from 'immer';
+import { useToast } from '../hooks/useToast';
+import type { ColumnId, BoardColumn, BoardConfig, WipPolicy } from '../types';
+import { REQUIRED_COLUMN_IDS } from '../constants';
+
+const slugifyColumnTitle = (title: string) =>
+  title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'column';
+
+export const ColumnSettingsModal: React.FC<{
+  config: BoardConfig;
+  taskCounts: Record<ColumnId, number>;
+  onClose: () => void;
+  onSave: (config: BoardConfig, migrations: Record<ColumnId, ColumnId>) => void;
+}> = ({ config, taskCounts, onClose, onSave }) => {
+  const { notify } = useToast();
+  const [columns, setColumns] = useState<BoardColumn[]>(config.columns);
+  const [wipPolicy, setWipPolicy] = useState<WipPolicy>(config.wipPolicy);
+  const [migrations, setMigrations] = useState<Record<ColumnId, ColumnId>>({});
+  const [newColumnTitle, setNewColumnTitle] = useState('');
+
+  const updateColumn = (index: number, changes: Partial<BoardColumn>) => {
+    setColumns(produce((draft: BoardColumn[]) => {
+      Object.assign(draft[index], changes);
+    }));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns(produce((draft: BoardColumn[]) => {
+      const [column] = draft.splice(index, 1);
+      draft.splice(index + offset, 0, column);
+    }));
+  };
+
+  const removeColumn = (index: number) => {
+    const removed = columns[index];
+    const remaining = columns.filter((_, i) => i !== index);
+    setColumns(remaining);
+    // Anything that was migrated into the removed column follows it to the new target.
+    setMigrations(prev => Object.fromEntries(
+      [...Object.entries(prev), [removed.id, 'backlog']].map(([from, to]) => [from, to === removed.id ? 'backlog' : to])
+    ));
+  };
+
+  const handleAddColumn = () => {
+    const title = newColumnTitle.trim();
+    if (!title) return;
+    const baseId = slugifyColumnTitle(title);
+    const existingIds = new Set([...columns.map(c => c.id), ...Object.keys(migrations)]);
+    let id = baseId;
+    for (let suffix = 2; existingIds.has(id); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+    // Keep 'done' as the last column so new workflow steps land before it.
+    const doneIndex = columns.findIndex(c => c.id === 'done');
+    setColumns(produce((draft: BoardColumn[]) => {
+      draft.splice(doneIndex === -1 ? draft.length : doneIndex, 0, { id, title });
+    }));
+    setNewColumnTitle('');
+  };
+
+  const handleSubmit = () => {
+    if (columns.some(c => !c.title.trim())) {
+      notify({ kind: 'warning', message: 'Every column needs a title.' });
+      return;
+    }
+    const activeMigrations = Object.fromEntries(Object.entries(migrations).filter(([from]) => !columns.some(c => c.id === from)));
+    onSave({ columns: columns.map(c => ({ ...c, title: c.title.trim() })), wipPolicy }, activeMigrations);
+  };
+
+  const removedColumns = Object.keys(migrations).filter(id => !columns.some(c => c.id === id) && taskCounts[id] > 0);
+  const originalTitle = (id: ColumnId) => config.columns.find(c => c.id === id)?.title ?? id;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-2xl text-gray-800 dark:text-gray-100 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-6">Configure Workflow Columns</h2>
+        <form onSubmit={(e) => { e.preventDefault(); handleSubmit(); }} className="space-y-4">
+          <ul className="space-y-2">
+            {columns.map((column, index) => (
+              <li key={column.id} className="flex items-center gap-2 bg-gray-100 dark:bg-gray-700 p-2 rounded">
+                <input
+                  type="text"
+                  value={column.title}
+                  onChange={(e) => updateColumn(index, { title: e.target.value })}
+                  aria-label="Column title"
+                  className="flex-1 p-2 border rounded bg-gray-50 dark:bg-gray-600 border-gray-300 dark:border-gray-500"
+                />
+                {column.id !== 'backlog' && (
+                  <input
+                    type="number"
+                    min="1"
+                    value={column.wipLimit ?? ''}
+                    onChange={(e) => updateColumn(index, { wipLimit: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })}
+                    placeholder="WIP"
+                    aria-label={`WIP limit for ${column.title}`}
+                    className="w-20 p-2 border rounded bg-gray-50 dark:bg-gray-600 border-gray-300 dark:border-gray-500"
+                  />
+                )}
+                <button type="button" onClick={() => moveColumn(index, -1)} disabled={index === 0} className="px-2 disabled:opacity-30" aria-label="Move column left">↑</button>
+                <button type="button" onClick={() => moveColumn(index, 1)} disabled={index === columns.length - 1} className="px-2 disabled:opacity-30" aria-label="Move column right">↓</button>
+                <button
+                  type="button"
+                  onClick={() => removeColumn(index)}
+                  disabled={REQUIRED_COLUMN_IDS.includes(column.id)}
+                  title={REQUIRED_COLUMN_IDS.includes(column.id) ? 'This column is required' : undefined}
+                  className="text-red-500 hover:text-red-700 font-bold px-2 disabled:opacity-30 disabled:cursor-not-allowed"
+                  aria-label={`Remove ${column.title}`}
+                >
+                  X
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newColumnTitle}
+              onChange={(e) => setNewColumnTitle(e.target.value)}
+              placeholder="e.g., 'Code Review'"
+              aria-label="New column title"
+              className="flex-1 p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+            />
+            <button type="button" onClick={handleAddColumn} className="px-4 py-2 rounded bg-secondary text-white hover:bg-green-600">Add Column</button>
+          </div>
+          {removedColumns.length > 0 && (
+            <div>
+              <h3 className="font-semibold mb-2">Move tasks from removed columns</h3>
+              {removedColumns.map(id => (
+                <div key={id} className="flex items-center justify-between mb-2 text-sm">
+                  <span>{originalTitle(id)} ({taskCounts[id]} task(s)) →</span>
+                  <select
+                    value={migrations[id]}
+                    onChange={(e) => setMigrations(prev => ({ ...prev, [id]: e.target.value }))}
+                    className="p-1 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+                  >
+                    {columns.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+          <div>
+            <label htmlFor="wip-policy" className="font-semibold block mb-2">When a WIP limit is reached</label>
+            <select id="wip-policy" value={wipPolicy} onChange={(e) => setWipPolicy(e.target.value as WipPolicy)} className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600">
+              <option value="warn">Warn, but allow the move</option>
+              <option value="enforce">Refuse the move</option>
+            </select>
+          </div>
+          <div className="mt-6 flex justify-end space-x-4">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Cancel</button>
+            <button type="submit" className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover">Save Columns</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
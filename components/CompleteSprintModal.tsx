@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import type { Task, Sprint, BoardColumn } from '../types';
+
+export const CompleteSprintModal: React.FC<{
+  sprint: Sprint;
+  tasks: Task[];
+  columns: BoardColumn[];
+  nextSprint?: Sprint;
+  onClose: () => void;
+  onComplete: (destinations: Record<string, 'next' | 'backlog'>) => void;
+}> = ({ sprint, tasks, columns, nextSprint, onClose, onComplete }) => {
+  const doneTasks = tasks.filter(t => t.column === 'done');
+  const unfinishedTasks = tasks.filter(t => t.column !== 'done');
+  const [destinations, setDestinations] = useState<Record<string, 'next' | 'backlog'>>(
+    () => Object.fromEntries(unfinishedTasks.map(t => [t.id, 'next' as const]))
+  );
+  const nextSprintLabel = nextSprint ? nextSprint.name : 'a new sprint';
+  const sumPoints = (list: Task[]) => list.reduce((sum, task) => sum + (task.points || 0), 0);
+
+  const setAll = (destination: 'next' | 'backlog') => {
+    setDestinations(Object.fromEntries(unfinishedTasks.map(t => [t.id, destination])));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-2xl text-gray-800 dark:text-gray-100 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-2">Complete {sprint.name}</h2>
+        <p className="text-medium mb-6">
+          {doneTasks.length} done task(s) worth {sumPoints(doneTasks)} points will be archived with this sprint.
+        </p>
+        {unfinishedTasks.length > 0 ? (
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="font-semibold">Unfinished work ({sumPoints(unfinishedTasks)} points)</h3>
+              <div className="space-x-2 text-sm">
+                <button type="button" onClick={() => setAll('next')} className="text-primary hover:underline">All to {nextSprintLabel}</button>
+                <button type="button" onClick={() => setAll('backlog')} className="text-primary hover:underline">All to backlog</button>
+              </div>
+            </div>
+            <ul className="space-y-2">
+              {unfinishedTasks.map(task => (
+                <li key={task.id} className="flex justify-between items-center bg-gray-100 dark:bg-gray-700 p-2 rounded">
+                  <span className="text-sm truncate">{task.title} <span className="text-medium">({columns.find(c => c.id === task.column)?.title})</span></span>
+                  <select
+                    value={destinations[task.id]}
+                    onChange={(e) => setDestinations(prev => ({ ...prev, [task.id]: e.target.value as 'next' | 'backlog' }))}
+                    className="ml-4 p-1 border rounded bg-gray-50 dark:bg-gray-600 border-gray-300 dark:border-gray-500 text-sm"
+                  >
+                    <option value="next">Roll over to {nextSprintLabel}</option>
+                    <option value="backlog">Return to backlog</option>
+                  </select>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <p>All sprint work is done. 🎉</p>
+        )}
+        <div className="mt-6 flex justify-end space-x-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Cancel</button>
+          <button type="button" onClick={() => onComplete(destinations)} className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover">Complete Sprint</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState, useMemo } from 'react';
+import type { ImportProblem } from '../services/workspaceTransferService';
+import { buildTasksFromCsv, distinctStatuses, guessFieldMapping, guessStatusMapping, parseCsv } from '../services/csvService';
+import type { CsvField, CsvFieldMapping, CsvRow, CsvTaskDraft } from '../services/csvService';
+import type { ColumnId, BoardColumn } from '../types';
+
+const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  title: 'Title',
+  description: 'Description',
+  points: 'Story Points',
+  status: 'Status',
+};
+
+export const CsvTransferModal: React.FC<{
+  columns: BoardColumn[];
+  onClose: () => void;
+  onExport: (layout: 'csv' | 'jira') => void;
+  onImport: (drafts: CsvTaskDraft[]) => void;
+}> = ({ columns, onClose, onExport, onImport }) => {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<CsvRow[]>([]);
+  const [mapping, setMapping] = useState<CsvFieldMapping>({ title: null, description: null, points: null, status: null });
+  const [statusMapping, setStatusMapping] = useState<Record<string, ColumnId>>({});
+
+  const statuses = useMemo(() => distinctStatuses(rows, mapping), [rows, mapping]);
+  const result = useMemo(() => buildTasksFromCsv(rows, mapping, statusMapping), [rows, mapping, statusMapping]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const [headerRow, ...dataRows] = parseCsv(e.target?.result as string);
+      const guessed = guessFieldMapping(headerRow?.cells ?? []);
+      setHeaders(headerRow?.cells ?? []);
+      setRows(dataRows);
+      setMapping(guessed);
+      setStatusMapping(guessStatusMapping(distinctStatuses(dataRows, guessed), columns));
+    };
+    reader.readAsText(file);
+  };
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    const next = { ...mapping, [field]: value === '' ? null : Number(value) };
+    setMapping(next);
+    if (field === 'status') {
+      setStatusMapping(guessStatusMapping(distinctStatuses(rows, next), columns));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-2xl text-gray-800 dark:text-gray-100 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-6">CSV &amp; Jira Import / Export</h2>
+        <div className="space-y-6">
+          <div>
+            <h3 className="font-semibold mb-2">Export board</h3>
+            <div className="space-x-4">
+              <button type="button" onClick={() => onExport('csv')} className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover">Download CSV</button>
+              <button type="button" onClick={() => onExport('jira')} className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover">Download Jira CSV</button>
+            </div>
+          </div>
+          <div>
+            <h3 className="font-semibold mb-2">Import backlog</h3>
+            <input type="file" id="csv-import" accept="text/csv,.csv" onChange={handleFileChange} className="hidden" />
+            <label htmlFor="csv-import" className="inline-block cursor-pointer px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500">
+              {fileName || 'Choose CSV file...'}
+            </label>
+            {headers.length > 0 && (
+              <div className="mt-4 space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  {(Object.keys(CSV_FIELD_LABELS) as CsvField[]).map(field => (
+                    <div key={field}>
+                      <label htmlFor={`csv-map-${field}`} className="font-semibold block mb-1 text-sm">{CSV_FIELD_LABELS[field]}</label>
+                      <select
+                        id={`csv-map-${field}`}
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                        className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+                      >
+                        <option value="">(not imported)</option>
+                        {headers.map((header, index) => <option key={index} value={index}>{header}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                {statuses.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold mb-2 text-sm">Map statuses to columns</h4>
+                    {statuses.map(status => (
+                      <div key={status} className="flex items-center justify-between mb-2 text-sm">
+                        <span>{status || '(empty)'} →</span>
+                        <select
+                          value={statusMapping[status] ?? 'backlog'}
+                          onChange={(e) => setStatusMapping(prev => ({ ...prev, [status]: e.target.value }))}
+                          className="p-1 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+                        >
+                          {columns.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="text-sm">{result.drafts.length} task(s) ready to import.</p>
+                {result.problems.length > 0 && (
+                  <ul className="text-sm space-y-1 max-h-32 overflow-y-auto">
+                    {result.problems.map((problem: ImportProblem, index) => (
+                      <li key={index} className={problem.severity === 'error' ? 'text-red-500' : 'text-yellow-600 dark:text-yellow-400'}>
+                        <span className="font-semibold">{problem.item}:</span> {problem.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="mt-6 flex justify-end space-x-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Close</button>
+          <button
+            type="button"
+            onClick={() => onImport(result.drafts)}
+            disabled={mapping.title === null || result.drafts.length === 0}
+            className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Import Tasks
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
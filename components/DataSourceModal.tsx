@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { DATA_SOURCE_LABELS } from '../services/data';
+import type { DataSourceId, DataSourceSettings } from '../services/data';
+
+export const DataSourceModal: React.FC<{
+  settings: DataSourceSettings;
+  onClose: () => void;
+  onSave: (settings: DataSourceSettings) => Promise<void>;
+}> = ({ settings, onClose, onSave }) => {
+  const [draft, setDraft] = useState<DataSourceSettings>(settings);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const update = (changes: Partial<DataSourceSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+  const inputStyles = 'w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSwitching(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-lg text-gray-800 dark:text-gray-100">
+        <h2 className="text-2xl font-bold mb-2">Where the Board Is Saved</h2>
+        <p className="text-sm text-medium mb-6">
+          Keep the board in this browser, or on a board API server (start one with <code>npm run api-server</code>) so scripts and other tools can read and change it too.
+          Attachment files always stay in this browser: the server only stores their names, so scripts and other browsers can't open them.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            {(Object.keys(DATA_SOURCE_LABELS) as DataSourceId[]).map(id => (
+              <label key={id} className="flex items-center gap-2 font-semibold">
+                <input type="radio" name="data-source" checked={draft.source === id} onChange={() => update({ source: id })} />
+                {DATA_SOURCE_LABELS[id]}
+              </label>
+            ))}
+          </div>
+          {draft.source === 'api' && (
+            <div>
+              <label htmlFor="api-url" className="font-semibold block mb-2">API URL</label>
+              <input id="api-url" type="text" value={draft.apiUrl} onChange={(e) => update({ apiUrl: e.target.value })} pattern="https?://.+" required className={inputStyles}/>
+              <label htmlFor="api-token" className="font-semibold block mt-4 mb-2">Access Token (optional)</label>
+              <input id="api-token" type="password" value={draft.apiToken} onChange={(e) => update({ apiToken: e.target.value.trim() })} autoComplete="off" className={inputStyles}/>
+              <p className="text-xs text-medium mt-1">Needed when the server was started with <code>API_TOKEN</code>.</p>
+            </div>
+          )}
+          {(draft.source !== settings.source || draft.apiUrl !== settings.apiUrl) && (
+            <p className="text-sm text-yellow-700 dark:text-yellow-300">
+              If the new location already has a board, that board is opened instead of this one. Otherwise this board is copied there.
+            </p>
+          )}
+          <div className="mt-6 flex justify-end space-x-4">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Cancel</button>
+            <button type="submit" disabled={isSwitching} className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover disabled:opacity-50">
+              {isSwitching ? 'Switching...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,5 @@
+import React from 'react';
+
+export const InlineSpinner: React.FC = () => (
+  <span className="inline-block align-middle animate-spin rounded-full h-3 w-3 border-b-2 border-current mr-1" aria-hidden="true"></span>
+);
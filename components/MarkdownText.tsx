@@ -0,0 +1,29 @@
+import React from 'react';
+import { parseMarkdown } from '../services/markdownService';
+import type { MarkdownInline } from '../services/markdownService';
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'text': return <React.Fragment key={index}>{node.text}</React.Fragment>;
+    case 'bold': return <strong key={index}>{renderInline(node.children)}</strong>;
+    case 'italic': return <em key={index}>{renderInline(node.children)}</em>;
+    case 'code': return <code key={index} className="px-1 rounded bg-gray-100 dark:bg-gray-700 text-xs">{node.text}</code>;
+    case 'link': return <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-primary underline">{renderInline(node.children)}</a>;
+  }
+});
+
+export const MarkdownText: React.FC<{ text: string }> = ({ text }) => (
+  <div className="space-y-1 break-words">
+    {parseMarkdown(text).map((block, index) => block.type === 'list' ? (
+      <ul key={index} className="list-disc pl-5">
+        {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+      </ul>
+    ) : (
+      <p key={index}>
+        {block.lines.map((line, lineIndex) => (
+          <React.Fragment key={lineIndex}>{lineIndex > 0 && <br />}{renderInline(line)}</React.Fragment>
+        ))}
+      </p>
+    ))}
+  </div>
+);
@@ -0,0 +1,27 @@
+import React from 'react';
+import type { TaskPriority } from '../types';
+import { PRIORITY_LABELS, TASK_PRIORITIES } from '../constants';
+
+export const PRIORITY_STYLES: Record<TaskPriority, string> = {
+  must: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  should: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300',
+  could: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  wont: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+export const PriorityBadge: React.FC<{ priority: TaskPriority }> = ({ priority }) => (
+  <span className={`text-xs font-semibold rounded-full px-2 py-0.5 whitespace-nowrap ${PRIORITY_STYLES[priority]}`}>{PRIORITY_LABELS[priority]}</span>
+);
+
+export const PrioritySelect: React.FC<{
+  id: string;
+  value: TaskPriority | '';
+  onChange: (priority: TaskPriority | '') => void;
+}> = ({ id, value, onChange }) => (
+  <select id={id} value={value} onChange={(e) => onChange(e.target.value as TaskPriority | '')} className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 h-[42px]">
+    <option value="">Not prioritized</option>
+    {TASK_PRIORITIES.map(option => (
+      <option key={option} value={option}>{PRIORITY_LABELS[option]}</option>
+    ))}
+  </select>
+);
@@ -0,0 +1,149 @@
+import React, { useMemo } from 'react';
+import { ComposedChart, BarChart, AreaChart, Bar, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { buildCumulativeFlow, buildSprintReports } from '../services/analyticsService';
+import type { Task, Sprint, BoardColumn } from '../types';
+
+const FLOW_COLORS = ['#9ca3af', '#6366f1', '#f59e0b', '#ef4444', '#10b981', '#0ea5e9', '#a855f7', '#ec4899'];
+
+export const ReportsView: React.FC<{
+  tasks: Task[];
+  sprints: Sprint[];
+  columns: BoardColumn[];
+}> = ({ tasks, sprints, columns }) => {
+  const reports = useMemo(() => buildSprintReports(tasks, sprints), [tasks, sprints]);
+  const flowData = useMemo(() => buildCumulativeFlow(tasks, sprints, columns), [tasks, sprints, columns]);
+  const closedReports = reports.filter(r => r.status === 'closed');
+  const latestVelocity = closedReports.length > 0 ? closedReports[closedReports.length - 1].rollingVelocity : 0;
+  const averageCarryOver = closedReports.length > 0
+    ? closedReports.reduce((sum, r) => sum + r.carryOverRate, 0) / closedReports.length
+    : 0;
+  const totalBlockedDays = reports.reduce((sum, r) => sum + r.blockedDays, 0);
+  const carryOverData = reports.map(r => ({ ...r, carryOverPercent: Math.round(r.carryOverRate * 100) }));
+
+  const cardStyles = 'bg-white dark:bg-gray-900 p-6 rounded-lg shadow-lg';
+  const headingStyles = 'text-xl font-bold mb-4 text-gray-800 dark:text-gray-100';
+
+  if (reports.length === 0) {
+    return (
+      <div className={cardStyles}>
+        <p className="text-medium">Start a sprint to begin collecting velocity and flow metrics.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+        <div className={cardStyles}>
+          <p className="text-sm text-medium">Rolling average velocity</p>
+          <p className="text-3xl font-bold text-primary">{latestVelocity} <span className="text-base font-normal text-medium">points / sprint</span></p>
+        </div>
+        <div className={cardStyles}>
+          <p className="text-sm text-medium">Average carry-over (closed sprints)</p>
+          <p className="text-3xl font-bold text-primary">{Math.round(averageCarryOver * 100)}%</p>
+        </div>
+        <div className={cardStyles}>
+          <p className="text-sm text-medium">Total time blocked</p>
+          <p className="text-3xl font-bold text-primary">{Math.round(totalBlockedDays * 10) / 10} <span className="text-base font-normal text-medium">task-days</span></p>
+        </div>
+      </div>
+
+      <div className={cardStyles}>
+        <h3 className={headingStyles}>Velocity: Committed vs. Completed</h3>
+        <ResponsiveContainer width="100%" height={300}>
+          <ComposedChart data={reports}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#4a5568"/>
+            <XAxis dataKey="name" stroke="#a0aec0"/>
+            <YAxis label={{ value: 'Story Points', angle: -90, position: 'insideLeft' }} stroke="#a0aec0"/>
+            <Tooltip contentStyle={{ backgroundColor: '#1a202c', border: 'none' }}/>
+            <Legend />
+            <Bar dataKey="committed" fill="#6b7280" name="Committed"/>
+            <Bar dataKey="completed" fill="#4f46e5" name="Completed"/>
+            <Line type="monotone" dataKey="rollingVelocity" stroke="#10b981" strokeWidth={2} name="Rolling Avg Velocity"/>
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className={cardStyles}>
+          <h3 className={headingStyles}>Carry-over Rate</h3>
+          <ResponsiveContainer width="100%" height={250}>
+            <BarChart data={carryOverData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#4a5568"/>
+              <XAxis dataKey="name" stroke="#a0aec0"/>
+              <YAxis unit="%" stroke="#a0aec0"/>
+              <Tooltip contentStyle={{ backgroundColor: '#1a202c', border: 'none' }}/>
+              <Bar dataKey="carryOverPercent" fill="#f59e0b" name="Unfinished scope (%)"/>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className={cardStyles}>
+          <h3 className={headingStyles}>Blocked Time</h3>
+          <ResponsiveContainer width="100%" height={250}>
+            <BarChart data={reports}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#4a5568"/>
+              <XAxis dataKey="name" stroke="#a0aec0"/>
+              <YAxis stroke="#a0aec0"/>
+              <Tooltip contentStyle={{ backgroundColor: '#1a202c', border: 'none' }}/>
+              <Bar dataKey="blockedDays" fill="#ef4444" name="Task-days blocked"/>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className={cardStyles}>
+        <h3 className={headingStyles}>Cumulative Flow</h3>
+        <ResponsiveContainer width="100%" height={300}>
+          <AreaChart data={flowData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#4a5568"/>
+            <XAxis dataKey="date" stroke="#a0aec0"/>
+            <YAxis label={{ value: 'Tasks', angle: -90, position: 'insideLeft' }} stroke="#a0aec0"/>
+            <Tooltip contentStyle={{ backgroundColor: '#1a202c', border: 'none' }}/>
+            <Legend />
+            {[...columns].reverse().map((column, index) => (
+              <Area
+                key={column.id}
+                type="stepAfter"
+                dataKey={column.id}
+                name={column.title}
+                stackId="flow"
+                stroke={FLOW_COLORS[(columns.length - 1 - index) % FLOW_COLORS.length]}
+                fill={FLOW_COLORS[(columns.length - 1 - index) % FLOW_COLORS.length]}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className={cardStyles}>
+        <h3 className={headingStyles}>Sprint Summary</h3>
+        <table className="w-full text-sm text-left">
+          <thead className="text-medium border-b border-gray-200 dark:border-gray-700">
+            <tr>
+              <th className="py-2">Sprint</th>
+              <th>Committed</th>
+              <th>Final scope</th>
+              <th>Completed</th>
+              <th>Rolling velocity</th>
+              <th>Carry-over</th>
+              <th>Blocked (task-days)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reports.map(r => (
+              <tr key={r.sprintId} className="border-b border-gray-100 dark:border-gray-800">
+                <td className="py-2 font-semibold">{r.name}{r.status === 'active' && <span className="text-medium font-normal"> (in progress)</span>}</td>
+                <td>{r.committed}</td>
+                <td>{r.scope}</td>
+                <td>{r.completed}</td>
+                <td>{r.rollingVelocity}</td>
+                <td>{r.carryOverPoints} pts ({Math.round(r.carryOverRate * 100)}%)</td>
+                <td>{r.blockedDays}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
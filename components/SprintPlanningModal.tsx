@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { proposeSprintPlan } from '../services/aiService';
+import type { SprintPlanProposal } from '../services/aiService';
+import { useAiRequest } from '../hooks/useAiRequest';
+import { useToast } from '../hooks/useToast';
+import { planTotals } from '../services/planningService';
+import type { PlanningCapacity } from '../services/planningService';
+import type { Task, Sprint } from '../types';
+import { InlineSpinner } from './InlineSpinner';
+
+export const SprintPlanningModal: React.FC<{
+  sprint: Sprint;
+  backlog: Task[];
+  planning: PlanningCapacity;
+  targetColumnTitle: string;
+  onClose: () => void;
+  onApply: (taskIds: string[], goal: string) => void;
+}> = ({ sprint, backlog, planning, targetColumnTitle, onClose, onApply }) => {
+  const { notify, notifyError } = useToast();
+  const [goal, setGoal] = useState(sprint.goal);
+  const [proposal, setProposal] = useState<SprintPlanProposal | null>(null);
+  const [includedIds, setIncludedIds] = useState<Set<string>>(new Set());
+  const planRequest = useAiRequest();
+
+  const selected = backlog.filter(task => includedIds.has(task.id));
+  const totals = planTotals(selected, planning);
+
+  const handlePropose = async () => {
+    if (!goal.trim()) {
+      notify({ kind: 'warning', message: 'Set a sprint goal first so the plan has something to aim at.' });
+      return;
+    }
+    try {
+      const result = await planRequest.run(options => proposeSprintPlan(goal.trim(), backlog, planning, options));
+      if (!result) return;
+      setProposal(result);
+      setIncludedIds(new Set(result.selections.map(selection => selection.taskId)));
+    } catch (error) {
+      console.error("Failed to propose a sprint plan:", error);
+      notifyError('Error proposing a sprint plan', error);
+    }
+  };
+
+  const toggleIncluded = (taskId: string) => {
+    setIncludedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId); else next.add(taskId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-3xl text-gray-800 dark:text-gray-100 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-2">Plan {sprint.name}</h2>
+        <p className="text-sm text-medium mb-4">
+          {planning.capacity !== undefined
+            ? `Capacity ${planning.capacity} points (${planning.teamCapacity !== undefined ? 'team availability' : 'rolling velocity'}), ${planning.committedPoints} already committed.`
+            : 'No capacity or velocity history yet; add your team or close a sprint to get capacity checks.'}
+          {planning.velocity !== undefined && planning.teamCapacity !== undefined && ` Rolling velocity: ${planning.velocity} points.`}
+        </p>
+        <label htmlFor="plan-goal" className="font-semibold block mb-2">Sprint Goal</label>
+        <div className="flex gap-2 mb-4">
+          <input id="plan-goal" type="text" value={goal} onChange={(e) => setGoal(e.target.value)} className="flex-1 p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+          <button
+            type="button"
+            onClick={planRequest.isRunning ? planRequest.cancel : handlePropose}
+            disabled={!planRequest.isRunning && backlog.length === 0}
+            className="px-4 py-2 rounded bg-secondary text-white font-semibold hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed whitespace-nowrap"
+          >
+            {planRequest.isRunning ? <><InlineSpinner />Planning... ✕ Cancel</> : proposal ? '↻ Propose Again' : '✨ Propose Plan'}
+          </button>
+        </div>
+        {backlog.length === 0 && <p className="text-medium">The backlog is empty.</p>}
+        {proposal && (
+          <>
+            {proposal.summary && <p className="text-sm mb-4 p-3 rounded bg-gray-50 dark:bg-gray-700/50">{proposal.summary}</p>}
+            {proposal.selections.length === 0 ? (
+              <p className="text-medium">No backlog tasks were proposed for this goal.</p>
+            ) : (
+              <ul className="space-y-2 mb-4">
+                {proposal.selections.map(({ taskId, rationale }) => {
+                  const task = backlog.find(t => t.id === taskId)!;
+                  return (
+                    <li key={taskId} className={`flex items-start gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 ${includedIds.has(taskId) ? '' : 'opacity-60'}`}>
+                      <input type="checkbox" checked={includedIds.has(taskId)} onChange={() => toggleIncluded(taskId)} className="mt-1" aria-label={`Include "${task.title}"`} />
+                      <div className="flex-1">
+                        <div className="flex justify-between">
+                          <span className="font-semibold">{task.title}</span>
+                          <span className="text-xs font-semibold text-medium whitespace-nowrap ml-2">{task.points ? `${task.points} pts` : 'unestimated'}</span>
+                        </div>
+                        <p className="text-sm text-medium dark:text-gray-300">{rationale}</p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            <div className={`text-sm font-semibold ${totals.isOverCapacity ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+              {totals.plannedPoints} points planned, {totals.totalPoints}{planning.capacity !== undefined && ` / ${planning.capacity}`} in the sprint
+              {totals.isOverCapacity && ` ⚠ over capacity by ${Math.round((totals.totalPoints - planning.capacity!) * 10) / 10} points`}
+            </div>
+            {totals.unestimatedCount > 0 && (
+              <p className="text-sm text-yellow-600 dark:text-yellow-400">{totals.unestimatedCount} selected task(s) are unestimated and not counted.</p>
+            )}
+          </>
+        )}
+        <div className="mt-6 flex justify-end space-x-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Cancel</button>
+          <button
+            type="button"
+            onClick={() => onApply(selected.map(task => task.id), goal.trim())}
+            disabled={selected.length === 0 || planRequest.isRunning}
+            className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Move {selected.length} Task{selected.length === 1 ? '' : 's'} to {targetColumnTitle}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
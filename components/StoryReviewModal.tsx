@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import type { AiCallOptions, GeneratedStory } from '../services/aiService';
+import { findSimilarTasks } from '../services/similarityService';
+import { useAiRequest } from '../hooks/useAiRequest';
+import { useToast } from '../hooks/useToast';
+import type { Task } from '../types';
+import { InlineSpinner } from './InlineSpinner';
+
+const DUPLICATE_THRESHOLD = 0.45;
+
+interface StoryReviewItem extends GeneratedStory {
+  key: string;
+  accepted: boolean;
+}
+
+export const StoryReviewModal: React.FC<{
+  featureIdea: string;
+  stories: GeneratedStory[];
+  existingTasks: Task[];
+  onClose: () => void;
+  onRegenerate: (story: GeneratedStory, otherStories: GeneratedStory[], options: AiCallOptions) => Promise<GeneratedStory>;
+  onAccept: (stories: GeneratedStory[]) => void;
+}> = ({ featureIdea, stories, existingTasks, onClose, onRegenerate, onAccept }) => {
+  const { notify, notifyError } = useToast();
+  const [items, setItems] = useState<StoryReviewItem[]>(() => stories.map((story, index) => ({
+    ...story,
+    key: `story-${index}`,
+    // Likely duplicates start out rejected so they don't slip into the backlog unnoticed.
+    accepted: findSimilarTasks(story.title, story.description, existingTasks, DUPLICATE_THRESHOLD).length === 0,
+  })));
+
+  const regenerateRequest = useAiRequest();
+  const [regeneratingKey, setRegeneratingKey] = useState<string | null>(null);
+
+  const updateItem = (key: string, changes: Partial<StoryReviewItem>) => {
+    setItems(prev => prev.map(item => (item.key === key ? { ...item, ...changes } : item)));
+  };
+
+  const handleRegenerate = async (item: StoryReviewItem) => {
+    setRegeneratingKey(item.key);
+    try {
+      const others = items.filter(other => other.key !== item.key);
+      const story = await regenerateRequest.run(options => onRegenerate(item, others, options));
+      if (story) {
+        updateItem(item.key, { ...story, accepted: true });
+      }
+    } catch (error) {
+      console.error("Failed to regenerate story:", error);
+      notifyError('Error regenerating story', error);
+    } finally {
+      setRegeneratingKey(null);
+    }
+  };
+
+  const acceptedItems = items.filter(item => item.accepted);
+
+  const handleSubmit = () => {
+    if (acceptedItems.some(item => !item.title.trim())) {
+      notify({ kind: 'warning', message: 'Every accepted story needs a title.' });
+      return;
+    }
+    onAccept(acceptedItems.map(({ title, description, points, acceptanceCriteria }) => ({ title: title.trim(), description, points, acceptanceCriteria })));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-3xl text-gray-800 dark:text-gray-100 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-2">Review Generated Stories</h2>
+        <p className="text-medium mb-6">For "{featureIdea}". Edit, accept or reject each story before it is added to the backlog.</p>
+        <ul className="space-y-4">
+          {items.map(item => {
+            const duplicates = findSimilarTasks(item.title, item.description, existingTasks, DUPLICATE_THRESHOLD);
+            return (
+              <li key={item.key} className={`p-4 rounded-lg border-l-4 bg-gray-50 dark:bg-gray-700/50 ${item.accepted ? 'border-secondary' : 'border-gray-400 opacity-60'}`}>
+                <div className="flex gap-2 mb-2">
+                  <input
+                    type="text"
+                    value={item.title}
+                    onChange={(e) => updateItem(item.key, { title: e.target.value })}
+                    aria-label="Story title"
+                    className="flex-1 p-2 border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 font-semibold"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    value={item.points}
+                    onChange={(e) => updateItem(item.key, { points: Number(e.target.value) || 0 })}
+                    aria-label="Story points"
+                    className="w-20 p-2 border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+                  />
+                </div>
+                <textarea
+                  value={item.description}
+                  onChange={(e) => updateItem(item.key, { description: e.target.value })}
+                  rows={3}
+                  aria-label="Story description"
+                  className="w-full p-2 border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm"
+                />
+                {item.acceptanceCriteria.length > 0 && (
+                  <ul className="text-xs text-medium dark:text-gray-400 mt-1 space-y-1 list-disc list-inside">
+                    {item.acceptanceCriteria.map((criterion, index) => (
+                      <li key={index}><strong>Given</strong> {criterion.given}, <strong>when</strong> {criterion.when}, <strong>then</strong> {criterion.then}</li>
+                    ))}
+                  </ul>
+                )}
+                {duplicates.length > 0 && (
+                  <p className="text-sm text-yellow-600 dark:text-yellow-400 mt-1">
+                    ⚠ Looks similar to "{duplicates[0].task.title}" ({Math.round(duplicates[0].score * 100)}% match)
+                    {duplicates.length > 1 && ` and ${duplicates.length - 1} other task(s)`}
+                  </p>
+                )}
+                <div className="flex justify-end space-x-2 mt-2">
+                  <button
+                    type="button"
+                    onClick={regeneratingKey === item.key ? regenerateRequest.cancel : () => handleRegenerate(item)}
+                    disabled={regeneratingKey !== null && regeneratingKey !== item.key}
+                    className="px-3 py-1 text-sm rounded bg-gray-200 dark:bg-gray-600 disabled:opacity-50"
+                  >
+                    {regeneratingKey === item.key ? <><InlineSpinner />Regenerating... ✕ Cancel</> : '↻ Regenerate'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updateItem(item.key, { accepted: !item.accepted })}
+                    className={`px-3 py-1 text-sm rounded text-white ${item.accepted ? 'bg-red-500 hover:bg-red-600' : 'bg-secondary hover:bg-green-600'}`}
+                  >
+                    {item.accepted ? 'Reject' : 'Accept'}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="mt-6 flex justify-end space-x-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Discard All</button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={acceptedItems.length === 0}
+            className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Add {acceptedItems.length} Stor{acceptedItems.length === 1 ? 'y' : 'ies'} to Backlog
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import type { SyncPeer, SyncSettings, SyncStatus } from '../services/sync';
+
+export const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  'off': 'Not shared',
+  'connecting': 'Connecting...',
+  'connected': 'Live',
+  'reconnecting': 'Reconnecting...',
+};
+
+export const SyncSettingsModal: React.FC<{
+  settings: SyncSettings;
+  defaultName: string;
+  status: SyncStatus;
+  peers: SyncPeer[];
+  onClose: () => void;
+  onSave: (settings: SyncSettings) => void;
+}> = ({ settings, defaultName, status, peers, onClose, onSave }) => {
+  const [draft, setDraft] = useState<SyncSettings>(settings);
+  const update = (changes: Partial<SyncSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+  const inputStyles = 'w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-lg text-gray-800 dark:text-gray-100">
+        <h2 className="text-2xl font-bold mb-2">Share Board</h2>
+        <p className="text-sm text-medium mb-6">
+          Work on one board together through a sync server (start one with <code>npm run sync-server</code>).
+          Tasks, sprints, columns, the team, retrospectives and saved views are shared; attachment files stay in each browser.
+        </p>
+        <form onSubmit={(e) => { e.preventDefault(); onSave(draft); }} className="space-y-4">
+          <label className="flex items-center gap-2 font-semibold">
+            <input type="checkbox" checked={draft.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+            Sync this board
+          </label>
+          <div>
+            <label htmlFor="sync-url" className="font-semibold block mb-2">Server URL</label>
+            <input id="sync-url" type="text" value={draft.url} onChange={(e) => update({ url: e.target.value })} pattern="wss?://.+" required className={inputStyles}/>
+          </div>
+          <div>
+            <label htmlFor="sync-name" className="font-semibold block mb-2">Your Name</label>
+            <input id="sync-name" type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder={defaultName} className={inputStyles}/>
+          </div>
+          {draft.enabled && !settings.enabled && (
+            <p className="text-sm text-yellow-700 dark:text-yellow-300">
+              If the server already has a board, it replaces the board in this browser. The board you have now is kept, and can be restored from 💾 Backup.
+            </p>
+          )}
+          {settings.enabled && (
+            <div className="text-sm">
+              <p className="font-semibold">{SYNC_STATUS_LABELS[status]}</p>
+              {peers.length > 0 && <p className="text-medium">Connected: {peers.map(peer => peer.name).join(', ')}</p>}
+            </div>
+          )}
+          <div className="mt-6 flex justify-end space-x-4">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Cancel</button>
+            <button type="submit" className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover">Save</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
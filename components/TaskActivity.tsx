@@ -0,0 +1,157 @@
+import React, { useState, useMemo } from 'react';
+import { describeTaskEvent, threadComments } from '../services/activityService';
+import type { Task, BoardColumn, TeamMember, TaskComment } from '../types';
+import { MarkdownText } from './MarkdownText';
+
+const CommentComposer: React.FC<{
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  footer?: React.ReactNode;
+  onSubmit: (text: string) => void;
+  onCancel?: () => void;
+}> = ({ placeholder, submitLabel, autoFocus, footer, onSubmit, onCancel }) => {
+  const [text, setText] = useState('');
+
+  const handleSubmit = () => {
+    if (!text.trim()) return;
+    onSubmit(text.trim());
+    setText('');
+  };
+
+  return (
+    <div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); handleSubmit(); } }}
+        rows={2}
+        autoFocus={autoFocus}
+        placeholder={placeholder}
+        className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm"
+      />
+      <div className="flex justify-between items-center gap-2 mt-1">
+        <div>{footer}</div>
+        <div className="flex gap-2">
+          {onCancel && <button type="button" onClick={onCancel} className="text-sm px-3 py-1 rounded bg-gray-200 dark:bg-gray-600">Cancel</button>}
+          <button type="button" onClick={handleSubmit} disabled={!text.trim()} className="text-sm px-3 py-1 rounded bg-primary text-white hover:bg-primary-hover disabled:bg-gray-400 disabled:cursor-not-allowed">{submitLabel}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CommentThread: React.FC<{
+  comment: TaskComment;
+  threads: Map<string | undefined, TaskComment[]>;
+  onReply: (text: string, parentId: string) => void;
+  onDelete: (commentId: string) => void;
+}> = ({ comment, threads, onReply, onDelete }) => {
+  const [isReplying, setIsReplying] = useState(false);
+  const replies = threads.get(comment.id) || [];
+
+  return (
+    <li>
+      <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 text-sm">
+        <div className="flex justify-between items-baseline gap-2 mb-1">
+          <span className="font-semibold">{comment.author ?? 'Someone'}</span>
+          <time dateTime={comment.createdAt} className="text-xs text-medium">{new Date(comment.createdAt).toLocaleString()}</time>
+        </div>
+        <MarkdownText text={comment.text} />
+        <div className="flex gap-3 mt-1 text-xs">
+          <button type="button" onClick={() => setIsReplying(!isReplying)} className="text-primary hover:underline">Reply</button>
+          <button
+            type="button"
+            onClick={() => { if (replies.length === 0 || window.confirm('Delete this comment and its replies?')) onDelete(comment.id); }}
+            className="text-red-500 hover:text-red-700"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+      {isReplying && (
+        <div className="ml-6 mt-2">
+          <CommentComposer placeholder="Write a reply..." submitLabel="Reply" autoFocus onSubmit={(text) => { onReply(text, comment.id); setIsReplying(false); }} onCancel={() => setIsReplying(false)} />
+        </div>
+      )}
+      {replies.length > 0 && (
+        <ul className="ml-6 mt-2 space-y-2 border-l-2 border-gray-200 dark:border-gray-700 pl-3">
+          {replies.map(reply => (
+            <CommentThread key={reply.id} comment={reply} threads={threads} onReply={onReply} onDelete={onDelete} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+// Comments and the activity log act on the saved task straight away, independent of the edit form.
+export const TaskActivity: React.FC<{
+  task: Task;
+  columns: BoardColumn[];
+  members: TeamMember[];
+  currentMemberId: string;
+  onCurrentMemberChange: (memberId: string) => void;
+  onAddComment: (text: string, parentId?: string) => void;
+  onDeleteComment: (commentId: string) => void;
+}> = ({ task, columns, members, currentMemberId, onCurrentMemberChange, onAddComment, onDeleteComment }) => {
+  const [tab, setTab] = useState<'comments' | 'activity'>('comments');
+  const comments = task.comments || [];
+  const threads = useMemo(() => threadComments(comments), [comments]);
+  const columnTitle = (columnId: string) => columns.find(c => c.id === columnId)?.title ?? columnId;
+  const events = [...(task.history || [])].reverse();
+
+  const tabStyles = (active: boolean) => `px-3 py-1 rounded-t font-semibold ${active ? 'border-b-2 border-primary text-primary' : 'text-medium hover:text-gray-800 dark:hover:text-white'}`;
+
+  return (
+    <div className="mt-8 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <div className="flex gap-2 mb-4" role="tablist">
+        <button type="button" role="tab" aria-selected={tab === 'comments'} onClick={() => setTab('comments')} className={tabStyles(tab === 'comments')}>💬 Comments ({comments.length})</button>
+        <button type="button" role="tab" aria-selected={tab === 'activity'} onClick={() => setTab('activity')} className={tabStyles(tab === 'activity')}>🕓 Activity ({events.length})</button>
+      </div>
+      {tab === 'comments' ? (
+        <div className="space-y-4">
+          {comments.length === 0 ? (
+            <p className="text-sm text-medium">No comments yet. Record decisions and questions here so they stay with the task.</p>
+          ) : (
+            <ul className="space-y-3">
+              {(threads.get(undefined) || []).map(comment => (
+                <CommentThread key={comment.id} comment={comment} threads={threads} onReply={onAddComment} onDelete={onDeleteComment} />
+              ))}
+            </ul>
+          )}
+          <CommentComposer
+            placeholder="Add a comment... (supports **bold**, *italic*, `code`, [links](https://...) and - lists)"
+            submitLabel="Comment"
+            onSubmit={(text) => onAddComment(text)}
+            footer={members.length > 0 && (
+              <label className="flex items-center gap-2 text-xs text-medium">
+                Posting as
+                <select value={currentMemberId} onChange={(e) => onCurrentMemberChange(e.target.value)} className="p-1 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600">
+                  <option value="">Anonymous</option>
+                  {members.map(member => (
+                    <option key={member.id} value={member.id}>{member.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          />
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-medium">No activity recorded for this task.</p>
+      ) : (
+        <ol className="space-y-2 border-l-2 border-gray-200 dark:border-gray-700 pl-4 text-sm">
+          {events.map((event, index) => (
+            <li key={index} className="relative">
+              <span className="absolute -left-[1.4rem] top-1.5 h-2 w-2 rounded-full bg-primary" aria-hidden="true"></span>
+              <span>{describeTaskEvent(event, columnTitle)}</span>
+              <span className="block text-xs text-medium">
+                {event.actor && `${event.actor} · `}<time dateTime={event.at}>{new Date(event.at).toLocaleString()}</time>
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { produce } from 'immer';
+import { useToast } from '../hooks/useToast';
+import { initialsFor } from '../services/capacityService';
+import type { Sprint, Team, TeamMember } from '../types';
+import { DEFAULT_TEAM } from '../constants';
+
+export const TeamRosterModal: React.FC<{
+  team: Team;
+  sprint: Sprint;
+  onClose: () => void;
+  onSave: (team: Team) => void;
+}> = ({ team, sprint, onClose, onSave }) => {
+  const { notify } = useToast();
+  const [members, setMembers] = useState<TeamMember[]>(team.members);
+  const [pointsPerDay, setPointsPerDay] = useState<number | ''>(team.pointsPerDay);
+  const [newMemberName, setNewMemberName] = useState('');
+
+  const updateMember = (index: number, recipe: (member: TeamMember) => void) => {
+    setMembers(produce((draft: TeamMember[]) => {
+      recipe(draft[index]);
+    }));
+  };
+
+  const handleAddMember = () => {
+    const name = newMemberName.trim();
+    if (!name) return;
+    setMembers(prev => [...prev, { id: `member-${Date.now()}`, name, initials: initialsFor(name), defaultAvailabilityDays: 10 }]);
+    setNewMemberName('');
+  };
+
+  const handleSubmit = () => {
+    if (members.some(m => !m.name.trim() || !m.initials.trim())) {
+      notify({ kind: 'warning', message: 'Every team member needs a name and initials.' });
+      return;
+    }
+    onSave({ members, pointsPerDay: pointsPerDay === '' ? DEFAULT_TEAM.pointsPerDay : Number(pointsPerDay) });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-3xl text-gray-800 dark:text-gray-100 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-6">Team Roster</h2>
+        <form onSubmit={(e) => { e.preventDefault(); handleSubmit(); }} className="space-y-4">
+          {members.length > 0 && (
+            <table className="w-full text-sm text-left">
+              <thead className="text-medium">
+                <tr>
+                  <th className="py-1">Name</th>
+                  <th>Initials</th>
+                  <th>Default days / sprint</th>
+                  <th>Days in {sprint.name}</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {members.map((member, index) => (
+                  <tr key={member.id}>
+                    <td className="py-1 pr-2">
+                      <input type="text" value={member.name} onChange={(e) => updateMember(index, m => { m.name = e.target.value; })} aria-label="Name" className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+                    </td>
+                    <td className="pr-2">
+                      <input type="text" value={member.initials} maxLength={3} onChange={(e) => updateMember(index, m => { m.initials = e.target.value.toUpperCase(); })} aria-label="Initials" className="w-16 p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+                    </td>
+                    <td className="pr-2">
+                      <input type="number" min="0" value={member.defaultAvailabilityDays} onChange={(e) => updateMember(index, m => { m.defaultAvailabilityDays = Number(e.target.value) || 0; })} aria-label="Default availability days" className="w-20 p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+                    </td>
+                    <td className="pr-2">
+                      <input
+                        type="number"
+                        min="0"
+                        value={member.availability?.[sprint.id] ?? ''}
+                        placeholder={String(member.defaultAvailabilityDays)}
+                        onChange={(e) => updateMember(index, m => {
+                          m.availability = m.availability || {};
+                          if (e.target.value === '') {
+                            delete m.availability[sprint.id];
+                          } else {
+                            m.availability[sprint.id] = Number(e.target.value) || 0;
+                          }
+                        })}
+                        aria-label={`Availability days in ${sprint.name}`}
+                        className="w-20 p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+                      />
+                    </td>
+                    <td>
+                      <button type="button" onClick={() => setMembers(prev => prev.filter((_, i) => i !== index))} className="text-red-500 hover:text-red-700 font-bold px-2" aria-label={`Remove ${member.name}`}>X</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newMemberName}
+              onChange={(e) => setNewMemberName(e.target.value)}
+              placeholder="New team member name"
+              aria-label="New team member name"
+              className="flex-1 p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+            />
+            <button type="button" onClick={handleAddMember} className="px-4 py-2 rounded bg-secondary text-white hover:bg-green-600">Add Member</button>
+          </div>
+          <div>
+            <label htmlFor="points-per-day" className="font-semibold block mb-2">Story points per person-day</label>
+            <input id="points-per-day" type="number" min="0" step="0.1" value={pointsPerDay} onChange={(e) => setPointsPerDay(e.target.value === '' ? '' : Number(e.target.value))} className="w-32 p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"/>
+          </div>
+          <div className="mt-6 flex justify-end space-x-4">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Cancel</button>
+            <button type="submit" className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover">Save Team</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useState, useMemo } from 'react';
+import type { WorkspaceBackup } from '../services/storageService';
+import { findTaskConflicts, mergeWorkspaces, parseWorkspaceImport } from '../services/workspaceTransferService';
+import type { ConflictStrategy, ImportMode, ParsedWorkspaceImport } from '../services/workspaceTransferService';
+import type { Workspace } from '../types';
+
+export const WorkspaceTransferModal: React.FC<{
+  workspace: Workspace;
+  syncBackup: WorkspaceBackup | null;
+  onClose: () => void;
+  onExport: () => void;
+  onImport: (workspace: Workspace) => void;
+}> = ({ workspace, syncBackup, onClose, onExport, onImport }) => {
+  const [parsed, setParsed] = useState<ParsedWorkspaceImport | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [strategy, setStrategy] = useState<ConflictStrategy>('keep-existing');
+
+  const conflicts = useMemo(() => parsed?.workspace ? findTaskConflicts(workspace, parsed.workspace) : [], [parsed, workspace]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    const reader = new FileReader();
+    reader.onload = (e) => setParsed(parseWorkspaceImport(e.target?.result as string));
+    reader.readAsText(file);
+  };
+
+  const handleImport = () => {
+    if (!parsed?.workspace) return;
+    if (mode === 'replace') {
+      if (!window.confirm('Replace the entire current board with the imported workspace? Your current tasks and sprints will be discarded.')) {
+        return;
+      }
+      onImport(parsed.workspace);
+    } else {
+      onImport(mergeWorkspaces(workspace, parsed.workspace, strategy));
+    }
+  };
+
+  const handleRestoreSyncBackup = () => {
+    if (!syncBackup) return;
+    if (window.confirm('Replace the current board with the one from before you joined the shared board? If sync is on, everyone sharing the board gets it too; turn sync off first to keep it to this browser.')) {
+      onImport(syncBackup.workspace);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-2xl text-gray-800 dark:text-gray-100 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-6">Backup &amp; Restore Workspace</h2>
+        <div className="space-y-6">
+          <div>
+            <h3 className="font-semibold mb-2">Export</h3>
+            <p className="text-sm text-medium mb-2">Downloads all tasks (with attachments), sprints, board columns and the retrospective summary as a single JSON file.</p>
+            <button type="button" onClick={onExport} className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover">Download Export</button>
+          </div>
+          <div>
+            <h3 className="font-semibold mb-2">Import</h3>
+            <input type="file" id="workspace-import" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+            <label htmlFor="workspace-import" className="inline-block cursor-pointer px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500">
+              {fileName || 'Choose JSON file...'}
+            </label>
+            {parsed && (
+              <div className="mt-4 space-y-4">
+                {parsed.workspace && (
+                  <p className="text-sm">
+                    Found {parsed.workspace.tasks.length} task(s) and {parsed.workspace.sprints.length} sprint(s).
+                  </p>
+                )}
+                {parsed.problems.length > 0 && (
+                  <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+                    {parsed.problems.map((problem, index) => (
+                      <li key={index} className={problem.severity === 'error' ? 'text-red-500' : 'text-yellow-600 dark:text-yellow-400'}>
+                        <span className="font-semibold">{problem.item}:</span> {problem.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {parsed.workspace && (
+                  <>
+                    <div className="flex space-x-6">
+                      <label className="flex items-center space-x-2">
+                        <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                        <span>Merge into current board</span>
+                      </label>
+                      <label className="flex items-center space-x-2">
+                        <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                        <span>Replace current board</span>
+                      </label>
+                    </div>
+                    {mode === 'merge' && conflicts.length > 0 && (
+                      <div>
+                        <p className="text-sm font-semibold mb-1">{conflicts.length} task id(s) already exist on this board:</p>
+                        <ul className="text-sm text-medium mb-2 max-h-24 overflow-y-auto">
+                          {conflicts.map(task => <li key={task.id}>{task.id}: {task.title}</li>)}
+                        </ul>
+                        <select value={strategy} onChange={(e) => setStrategy(e.target.value as ConflictStrategy)} className="w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600">
+                          <option value="keep-existing">Keep the existing tasks</option>
+                          <option value="overwrite">Overwrite with the imported tasks</option>
+                          <option value="keep-both">Keep both (imported copies get new ids)</option>
+                        </select>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+          {syncBackup && (
+            <div>
+              <h3 className="font-semibold mb-2">Board From Before Sharing</h3>
+              <p className="text-sm text-medium mb-2">
+                Joining a shared board on {syncBackup.savedAt.toLocaleString()} replaced the board in this browser
+                ({syncBackup.workspace.tasks.length} task(s), {syncBackup.workspace.sprints.length} sprint(s)). It was kept here.
+              </p>
+              <button type="button" onClick={handleRestoreSyncBackup} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500">Restore This Board</button>
+            </div>
+          )}
+        </div>
+        <div className="mt-6 flex justify-end space-x-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100">Close</button>
+          <button type="button" onClick={handleImport} disabled={!parsed?.workspace} className="px-4 py-2 rounded bg-primary text-white hover:bg-primary-hover disabled:bg-gray-400 disabled:cursor-not-allowed">Import</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,68 @@
 
-import type { ColumnId } from './types';
+import type { BoardConfig, BoardColumn, ColumnId, RetroFormat, RetroFormatId, TaskPriority, Team } from './types';
 
 export const ItemTypes = {
   TASK: 'task',
 };
 
-export const COLUMNS: { id: ColumnId; title: string }[] = [
+export const DEFAULT_COLUMNS: BoardColumn[] = [
   { id: 'backlog', title: 'Product Backlog' },
   { id: 'todo', title: 'To Do' },
   { id: 'in-progress', title: 'In Progress' },
   { id: 'blocked', title: 'Blocked' },
   { id: 'done', title: 'Done' },
-];
\ No newline at end of file
+];
+// Columns the app relies on for backlog and completion semantics; they can be renamed but not removed.
+export const REQUIRED_COLUMN_IDS: ColumnId[] = ['backlog', 'done'];
+
+export const DEFAULT_BOARD_CONFIG: BoardConfig = {
+  columns: DEFAULT_COLUMNS,
+  wipPolicy: 'warn',
+};
+
+export const TASK_PRIORITIES: TaskPriority[] = ['must', 'should', 'could', 'wont'];
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  must: 'Must have',
+  should: 'Should have',
+  could: 'Could have',
+  wont: "Won't have",
+};
+
+export const DEFAULT_TEAM: Team = {
+  members: [],
+  pointsPerDay: 1,
+};
+
+export const RETRO_FORMATS: Record<RetroFormatId, RetroFormat> = {
+  'went-well-improve-actions': {
+    id: 'went-well-improve-actions',
+    name: 'Went Well / Improve / Actions',
+    columns: [
+      { id: 'went-well', title: 'What went well?' },
+      { id: 'improve', title: 'What could be improved?' },
+      { id: 'actions', title: 'Ideas for actions' },
+    ],
+  },
+  'start-stop-continue': {
+    id: 'start-stop-continue',
+    name: 'Start / Stop / Continue',
+    columns: [
+      { id: 'start', title: 'Start doing' },
+      { id: 'stop', title: 'Stop doing' },
+      { id: 'continue', title: 'Continue doing' },
+    ],
+  },
+  'four-ls': {
+    id: 'four-ls',
+    name: '4Ls',
+    columns: [
+      { id: 'liked', title: 'Liked' },
+      { id: 'learned', title: 'Learned' },
+      { id: 'lacked', title: 'Lacked' },
+      { id: 'longed-for', title: 'Longed for' },
+    ],
+  },
+};
+
+export const DEFAULT_RETRO_FORMAT: RetroFormatId = 'went-well-improve-actions';
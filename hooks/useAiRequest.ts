@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAbortError } from '../services/ai';
+import type { AiCallOptions } from '../services/aiService';
+import { useToast } from './useToast';
+
+// Runs one cancellable AI call at a time. Starting a new call or unmounting the
+// component aborts the previous one; `run` resolves to undefined when cancelled.
+// Retries of a failing call are reported as a toast so a slow request isn't silent.
+export const useAiRequest = () => {
+    const { notify } = useToast();
+    const controllerRef = useRef<AbortController | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const run = useCallback(async <T,>(request: (options: Required<AiCallOptions>) => Promise<T>): Promise<T | undefined> => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsRunning(true);
+        try {
+            return await request({
+                signal: controller.signal,
+                onRetry: (error, retry) => notify({ kind: 'warning', title: 'Retrying AI request', message: `Attempt ${retry} failed: ${error.message} Trying again…` }),
+            });
+        } catch (error) {
+            if (isAbortError(error) || controller.signal.aborted) return undefined;
+            throw error;
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setIsRunning(false);
+            }
+        }
+    }, [notify]);
+
+    const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+    return { run, cancel, isRunning };
+};
@@ -0,0 +1,222 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Task } from '../types';
+import { SHARED_COLLECTION_KEYS, mergeTask, reconcileTasks, reviveCollection, sameValue } from '../services/sync';
+import type { ClientMessage, ServerMessage, SharedBoard, SharedCollectionKey, SharedCollections, SyncPeer, SyncStatus } from '../services/sync';
+
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000];
+const REMOTE_CHANGE_HIGHLIGHT_MS = 4000;
+
+export interface BoardSyncHandlers {
+    // The first snapshot after joining replaces the local board with the shared one.
+    onJoin: (board: SharedBoard) => void;
+    onTasks: (update: (tasks: Task[]) => Task[]) => void;
+    onRemoteDelete: (task: Task) => void;
+    onCollection: <K extends SharedCollectionKey>(key: K, value: SharedCollections[K]) => void;
+    onConflict: (message: Extract<ServerMessage, { type: 'conflict' }>) => void;
+    // Called whenever someone else's change is applied to the local board.
+    onRemoteChange: () => void;
+}
+
+interface SyncOptions {
+    enabled: boolean;
+    url: string;
+    name: string;
+    memberId?: string;
+    editingTaskId?: string;
+}
+
+const replaceTask = (tasks: Task[], task: Task) => tasks.map(t => (t.id === task.id ? task : t));
+
+// Shares the board with everyone connected to the same sync server. Local changes are found by comparing
+// the board with the server's last known version of each task and collection, so any state update
+// (a drag, an edit, an undo) is sent without the call sites knowing about sync.
+export const useBoardSync = (options: SyncOptions, board: SharedBoard, deletedTasks: Task[], handlers: BoardSyncHandlers) => {
+    const [status, setStatus] = useState<SyncStatus>('off');
+    const [peers, setPeers] = useState<SyncPeer[]>([]);
+    const [remoteChanges, setRemoteChanges] = useState<Map<string, string>>(new Map());
+
+    const socketRef = useRef<WebSocket | null>(null);
+    const clientIdRef = useRef(`client-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`);
+    // The server's versions, and what was last sent for each task/collection so it isn't sent twice.
+    const knownTasksRef = useRef(new Map<string, { task: Task; revision: number }>());
+    const knownCollectionsRef = useRef<Partial<SharedCollections>>({});
+    const sentRef = useRef(new Map<string, unknown>());
+    const hasJoinedRef = useRef(false);
+    const latestRef = useRef({ options, board, deletedTasks, handlers });
+    latestRef.current = { options, board, deletedTasks, handlers };
+
+    const send = (message: ClientMessage) => {
+        if (socketRef.current?.readyState === WebSocket.OPEN) socketRef.current.send(JSON.stringify(message));
+    };
+
+    const highlight = (taskId: string, by: string) => {
+        setRemoteChanges(prev => new Map(prev).set(taskId, by));
+        setTimeout(() => setRemoteChanges(prev => {
+            if (prev.get(taskId) !== by) return prev;
+            const next = new Map(prev);
+            next.delete(taskId);
+            return next;
+        }), REMOTE_CHANGE_HIGHLIGHT_MS);
+    };
+
+    const handleMessage = (message: ServerMessage) => {
+        const { handlers, board } = latestRef.current;
+        const isOwn = 'clientId' in message && message.clientId === clientIdRef.current;
+        switch (message.type) {
+            case 'snapshot': {
+                const previous = new Map([...knownTasksRef.current].map(([id, known]) => [id, known.task]));
+                knownTasksRef.current = new Map(message.board.tasks.map(task => [task.id, { task, revision: message.revisions[task.id] ?? 0 }]));
+                sentRef.current.clear();
+                const collections = Object.fromEntries(SHARED_COLLECTION_KEYS.map(key => [key, reviveCollection(key, message.board.collections[key])])) as SharedCollections;
+                if (!hasJoinedRef.current) {
+                    hasJoinedRef.current = true;
+                    knownCollectionsRef.current = collections;
+                    handlers.onJoin({ tasks: message.board.tasks, collections });
+                    handlers.onRemoteChange();
+                } else {
+                    // Reconnected: keep what changed here while offline, take everything else from the server.
+                    handlers.onTasks(tasks => reconcileTasks(tasks, previous, message.board.tasks));
+                    SHARED_COLLECTION_KEYS.forEach(key => {
+                        if (sameValue(board.collections[key], knownCollectionsRef.current[key])) {
+                            handlers.onCollection(key, collections[key]);
+                        }
+                    });
+                    knownCollectionsRef.current = collections;
+                    handlers.onRemoteChange();
+                }
+                setPeers(message.peers);
+                setStatus('connected');
+                break;
+            }
+            case 'task': {
+                const known = knownTasksRef.current.get(message.task.id);
+                if (known && known.revision >= message.revision) return;
+                knownTasksRef.current.set(message.task.id, { task: message.task, revision: message.revision });
+                // An acknowledgement of our own edit is compared with what was sent; anything else with
+                // the previous server version. Local changes since then are kept.
+                const sent = isOwn ? sentRef.current.get(`task:${message.task.id}`) as Task | undefined : undefined;
+                const base = sent ?? known?.task;
+                handlers.onTasks(tasks => {
+                    const local = tasks.find(t => t.id === message.task.id);
+                    if (!local) return isOwn ? tasks : [...tasks, message.task];
+                    if (!base || sameValue(local, base)) return replaceTask(tasks, message.task);
+                    return replaceTask(tasks, mergeTask(base, local, message.task).task);
+                });
+                if (!isOwn) highlight(message.task.id, message.by);
+                // The server merges concurrent edits, so even our own acknowledgement can carry other people's changes.
+                if (!isOwn || (sent && !sameValue(sent, message.task))) handlers.onRemoteChange();
+                break;
+            }
+            case 'task-deleted':
+                knownTasksRef.current.delete(message.task.id);
+                sentRef.current.delete(`delete:${message.task.id}`);
+                if (!isOwn) {
+                    handlers.onTasks(tasks => tasks.filter(t => t.id !== message.task.id));
+                    handlers.onRemoteDelete(message.task);
+                    handlers.onRemoteChange();
+                }
+                break;
+            case 'collection': {
+                const value = reviveCollection(message.key, message.value);
+                knownCollectionsRef.current = { ...knownCollectionsRef.current, [message.key]: value };
+                if (!isOwn) {
+                    handlers.onCollection(message.key, value);
+                    handlers.onRemoteChange();
+                }
+                break;
+            }
+            case 'conflict':
+                handlers.onConflict(message);
+                break;
+            case 'presence':
+                setPeers(message.peers);
+                break;
+        }
+    };
+
+    const { enabled, url } = options;
+
+    useEffect(() => {
+        if (!enabled) {
+            setStatus('off');
+            setPeers([]);
+            return;
+        }
+        let closed = false;
+        let attempt = 0;
+        let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const connect = () => {
+            setStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+            const socket = new WebSocket(url);
+            socketRef.current = socket;
+            socket.onopen = () => {
+                attempt = 0;
+                const { options, board } = latestRef.current;
+                send({ type: 'hello', clientId: clientIdRef.current, name: options.name, memberId: options.memberId, board });
+                send({ type: 'presence', name: options.name, memberId: options.memberId, editingTaskId: options.editingTaskId });
+            };
+            socket.onmessage = (event) => {
+                try {
+                    handleMessage(JSON.parse(event.data) as ServerMessage);
+                } catch (error) {
+                    console.error('Ignoring malformed sync message:', error);
+                }
+            };
+            socket.onclose = () => {
+                if (closed) return;
+                socketRef.current = null;
+                setStatus('reconnecting');
+                retryTimer = setTimeout(connect, RECONNECT_DELAYS_MS[Math.min(attempt++, RECONNECT_DELAYS_MS.length - 1)]);
+            };
+        };
+        connect();
+
+        return () => {
+            closed = true;
+            clearTimeout(retryTimer);
+            socketRef.current?.close();
+            socketRef.current = null;
+            // Turning sync off or switching servers means joining afresh next time.
+            hasJoinedRef.current = false;
+            knownTasksRef.current.clear();
+            knownCollectionsRef.current = {};
+            sentRef.current.clear();
+        };
+    }, [enabled, url]);
+
+    // Send whatever differs from the server's version.
+    useEffect(() => {
+        if (status !== 'connected') return;
+        const known = knownTasksRef.current;
+        const sent = sentRef.current;
+        for (const task of board.tasks) {
+            const key = `task:${task.id}`;
+            const version = known.get(task.id);
+            if (sent.get(key) === task || (version && sameValue(version.task, task))) continue;
+            sent.set(key, task);
+            send({ type: 'task', task, base: version?.task, baseRevision: version?.revision });
+        }
+        const localIds = new Set(board.tasks.map(task => task.id));
+        for (const [id, version] of known) {
+            const key = `delete:${id}`;
+            if (localIds.has(id) || sent.has(key)) continue;
+            sent.set(key, true);
+            send({ type: 'task-delete', task: deletedTasks.find(task => task.id === id) ?? version.task });
+        }
+        for (const key of SHARED_COLLECTION_KEYS) {
+            const value = board.collections[key];
+            if (sent.get(key) === value || sameValue(knownCollectionsRef.current[key], value)) continue;
+            sent.set(key, value);
+            send({ type: 'collection', key, value });
+        }
+    }, [status, board, deletedTasks]);
+
+    const { name, memberId, editingTaskId } = options;
+
+    useEffect(() => {
+        if (status === 'connected') send({ type: 'presence', name, memberId, editingTaskId });
+    }, [status, name, memberId, editingTaskId]);
+
+    return { status, peers, clientId: clientIdRef.current, remoteChanges };
+};
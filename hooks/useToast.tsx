@@ -0,0 +1,106 @@
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import { AiError, isAbortError } from '../services/ai';
+
+export type ToastKind = 'info' | 'success' | 'warning' | 'error';
+
+export interface ToastOptions {
+    kind?: ToastKind;
+    title?: string;
+    message: string;
+    durationMs?: number; // 0 keeps the toast until it is dismissed
+}
+
+interface Toast {
+    id: number;
+    kind: ToastKind;
+    title?: string;
+    message: string;
+    hint?: string;
+}
+
+interface ToastContextValue {
+    notify: (options: ToastOptions) => void;
+    notifyError: (title: string, error: unknown) => void;
+}
+
+const MAX_TOASTS = 5;
+
+const DEFAULT_DURATION_MS: Record<ToastKind, number> = {
+    info: 4000,
+    success: 4000,
+    warning: 6000,
+    error: 10000,
+};
+
+const TOAST_STYLES: Record<ToastKind, string> = {
+    info: 'border-primary',
+    success: 'border-green-500',
+    warning: 'border-yellow-500',
+    error: 'border-red-500',
+};
+
+const TOAST_ICONS: Record<ToastKind, string> = {
+    info: 'ℹ️',
+    success: '✅',
+    warning: '⚠️',
+    error: '⛔',
+};
+
+const ToastContext = createContext<ToastContextValue | null>(null);
+
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [toasts, setToasts] = useState<Toast[]>([]);
+    const nextId = useRef(1);
+
+    const dismiss = useCallback((id: number) => {
+        setToasts(prev => prev.filter(toast => toast.id !== id));
+    }, []);
+
+    const show = useCallback((toast: Omit<Toast, 'id'>, durationMs = DEFAULT_DURATION_MS[toast.kind]) => {
+        const id = nextId.current++;
+        setToasts(prev => [...prev.slice(-(MAX_TOASTS - 1)), { ...toast, id }]);
+        if (durationMs > 0) {
+            setTimeout(() => dismiss(id), durationMs);
+        }
+    }, [dismiss]);
+
+    const notify = useCallback(({ kind = 'info', title, message, durationMs }: ToastOptions) => {
+        show({ kind, title, message }, durationMs);
+    }, [show]);
+
+    // Cancelled AI calls are the user's own doing, so they don't get a toast.
+    const notifyError = useCallback((title: string, error: unknown) => {
+        if (isAbortError(error)) return;
+        const message = error instanceof Error ? error.message : String(error);
+        show({ kind: 'error', title, message, hint: error instanceof AiError ? error.hint : undefined });
+    }, [show]);
+
+    const value = useMemo(() => ({ notify, notifyError }), [notify, notifyError]);
+
+    return (
+        <ToastContext.Provider value={value}>
+            {children}
+            <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-96 max-w-[calc(100vw-2rem)]" role="status" aria-live="polite">
+                {toasts.map(toast => (
+                    <div key={toast.id} className={`flex gap-3 p-4 rounded-lg shadow-xl border-l-4 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-100 ${TOAST_STYLES[toast.kind]}`}>
+                        <span aria-hidden="true">{TOAST_ICONS[toast.kind]}</span>
+                        <div className="flex-1 min-w-0 text-sm">
+                            {toast.title && <p className="font-semibold">{toast.title}</p>}
+                            <p className="break-words line-clamp-4">{toast.message}</p>
+                            {toast.hint && <p className="mt-1 text-medium dark:text-gray-400">{toast.hint}</p>}
+                        </div>
+                        <button onClick={() => dismiss(toast.id)} className="self-start text-medium hover:text-gray-800 dark:hover:text-white font-bold" aria-label="Dismiss notification">×</button>
+                    </div>
+                ))}
+            </div>
+        </ToastContext.Provider>
+    );
+};
+
+export const useToast = () => {
+    const context = useContext(ToastContext);
+    if (!context) {
+        throw new Error("useToast must be used inside a ToastProvider.");
+    }
+    return context;
+};
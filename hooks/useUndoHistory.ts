@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface UndoEntry<T> {
+    label: string;
+    snapshot: T;
+}
+
+const MAX_UNDO_ENTRIES = 100;
+
+// Keeps undo/redo stacks of whole-state snapshots. Immer's structural sharing keeps
+// these cheap: unchanged tasks and sprints are shared between snapshots.
+export const useUndoHistory = <T,>(current: T, restore: (snapshot: T) => void) => {
+    const currentRef = useRef(current);
+    const [past, setPast] = useState<UndoEntry<T>[]>([]);
+    const [future, setFuture] = useState<UndoEntry<T>[]>([]);
+
+    useEffect(() => {
+        currentRef.current = current;
+    }, [current]);
+
+    // Call right before a mutation so it can be reverted with `undo`.
+    const checkpoint = useCallback((label: string) => {
+        setPast(prev => [...prev.slice(-(MAX_UNDO_ENTRIES - 1)), { label, snapshot: currentRef.current }]);
+        setFuture([]);
+    }, []);
+
+    const undo = useCallback(() => {
+        const entry = past[past.length - 1];
+        if (!entry) return;
+        setPast(past.slice(0, -1));
+        setFuture([...future, { label: entry.label, snapshot: currentRef.current }]);
+        restore(entry.snapshot);
+    }, [past, future, restore]);
+
+    const redo = useCallback(() => {
+        const entry = future[future.length - 1];
+        if (!entry) return;
+        setFuture(future.slice(0, -1));
+        setPast([...past, { label: entry.label, snapshot: currentRef.current }]);
+        restore(entry.snapshot);
+    }, [past, future, restore]);
+
+    // Drops both stacks, e.g. once other people have changed the state and restoring an older
+    // snapshot would revert their work too.
+    const clear = useCallback(() => {
+        setPast([]);
+        setFuture([]);
+    }, []);
+
+    return {
+        checkpoint,
+        clear,
+        undo,
+        redo,
+        undoLabel: past[past.length - 1]?.label,
+        redoLabel: future[future.length - 1]?.label,
+    };
+};
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { TaskFilter } from '../types';
+import { filterFromSearchParams, filterToSearchParams } from '../services/filterService';
+
+const readFilter = () => filterFromSearchParams(new URLSearchParams(window.location.search));
+
+// Mirrors the board filter into the query string so a filtered board can be bookmarked or shared.
+// The state keeps what the user typed; only the URL is normalized.
+export const useUrlFilter = () => {
+    const [filter, setFilterState] = useState<TaskFilter>(readFilter);
+
+    useEffect(() => {
+        const handlePopState = () => setFilterState(readFilter());
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    const setFilter = useCallback((next: TaskFilter) => {
+        setFilterState(next);
+        const url = new URL(window.location.href);
+        filterToSearchParams(next, url.searchParams);
+        window.history.replaceState(window.history.state, '', url);
+    }, []);
+
+    return [filter, setFilter] as const;
+};
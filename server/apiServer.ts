@@ -0,0 +1,22 @@
+// A small REST API over the board, stored in a JSON file: `npm run api-server`. See server/boardApi.ts.
+import { createServer } from 'node:http';
+import path from 'node:path';
+import { DEFAULT_API_PORT } from '../services/data/types';
+import { createBoardApi } from './boardApi';
+
+const port = Number(process.env.API_PORT) || DEFAULT_API_PORT;
+// Only local connections are accepted unless API_HOST opts into another interface (e.g. 0.0.0.0).
+const host = process.env.API_HOST || '127.0.0.1';
+const dataFile = path.resolve(process.env.DATA_FILE || 'data/workspace.json');
+// The Vite dev server's origins; set API_ALLOWED_ORIGINS (comma-separated) when the app is served elsewhere.
+const allowedOrigins = (process.env.API_ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+    .split(',').map(origin => origin.trim()).filter(Boolean);
+const token = process.env.API_TOKEN || undefined;
+
+if (!token && !['127.0.0.1', 'localhost', '::1'].includes(host)) {
+    console.warn(`Listening on ${host} without API_TOKEN: anyone who can reach this machine can read and change the board.`);
+}
+
+const server = createServer(await createBoardApi({ dataFile, allowedOrigins, token }));
+
+server.listen(port, host, () => console.log(`Board API listening on http://${host}:${port}/api (data file: ${dataFile})`));
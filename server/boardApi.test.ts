@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createServer } from 'node:http';
+import type { AddressInfo, Server } from 'node:net';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { createBoardApi } from './boardApi';
+import type { BoardApiOptions } from './boardApi';
+import { WORKSPACE_SCHEMA_VERSION } from '../services/storageService';
+import { DEFAULT_BOARD_CONFIG } from '../constants';
+
+const APP_ORIGIN = 'http://localhost:3000';
+
+const board = () => ({
+    tasks: [{ id: 'task-1', column: 'todo', title: 'Write docs', description: '', points: 3, sprintId: 'sprint-1' }],
+    deletedTasks: [],
+    sprints: [{ id: 'sprint-1', name: 'Sprint 1', startDate: '2024-07-01T00:00:00.000Z', endDate: '2024-07-15T00:00:00.000Z', goal: '', status: 'active' }],
+    selectedSprintId: 'sprint-1',
+    board: DEFAULT_BOARD_CONFIG,
+    team: { members: [], pointsPerDay: 1 },
+    retrospectives: [],
+    savedViews: [],
+});
+
+let directory: string;
+let server: Server | undefined;
+
+const start = async (options: Partial<BoardApiOptions> = {}) => {
+    server = createServer(await createBoardApi({ dataFile: path.join(directory, 'workspace.json'), allowedOrigins: [APP_ORIGIN], ...options }));
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    return (pathname: string, { body, ...init }: Omit<RequestInit, 'body'> & { body?: unknown } = {}) => fetch(`${base}${pathname}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...init.headers },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+};
+
+beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), 'board-api-'));
+});
+
+afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    server = undefined;
+    await rm(directory, { recursive: true, force: true });
+});
+
+describe('board API', () => {
+    it('stores a board and serves it back with its revision', async () => {
+        const api = await start();
+        expect((await api('/workspace')).status).toBe(404);
+
+        const put = await api('/workspace', { method: 'PUT', body: { version: WORKSPACE_SCHEMA_VERSION, workspace: board() } });
+        expect(put.status).toBe(200);
+        expect(put.headers.get('ETag')).toBe('"1"');
+
+        const get = await api('/workspace');
+        expect((await get.json()).workspace.tasks[0].title).toBe('Write docs');
+        const file = JSON.parse(await readFile(path.join(directory, 'workspace.json'), 'utf8'));
+        expect(file).toMatchObject({ version: WORKSPACE_SCHEMA_VERSION, revision: 1 });
+    });
+
+    it('refuses to overwrite a board changed since the client loaded it', async () => {
+        const api = await start();
+        await api('/workspace', { method: 'PUT', body: { workspace: board() } });
+        await api('/workspace', { method: 'PUT', headers: { 'If-Match': '"1"' }, body: { workspace: board() } });
+
+        const stale = await api('/workspace', { method: 'PUT', headers: { 'If-Match': '"1"' }, body: { workspace: board() } });
+        expect(stale.status).toBe(409);
+    });
+
+    it('rejects tasks in a column the board does not have', async () => {
+        const api = await start();
+        await api('/workspace', { method: 'PUT', body: { workspace: board() } });
+
+        const response = await api('/tasks', { method: 'POST', body: { title: 'Release', column: 'shipped', sprintId: 'sprint-1' } });
+        expect(response.status).toBe(400);
+        expect((await response.json()).problems.length).toBeGreaterThan(0);
+    });
+
+    it('creates tasks and filters them by query parameters', async () => {
+        const api = await start();
+        await api('/workspace', { method: 'PUT', body: { workspace: board() } });
+
+        const created = await api('/tasks', { method: 'POST', body: { title: 'Write release notes', column: 'backlog', points: 2 } });
+        expect(created.status).toBe(201);
+        expect(await created.json()).toMatchObject({ title: 'Write release notes', points: 2 });
+
+        const backlog = await (await api('/tasks?column=backlog')).json();
+        expect(backlog.map((task: { title: string }) => task.title)).toEqual(['Write release notes']);
+    });
+
+    it('records moves made through PATCH in the task history', async () => {
+        const api = await start();
+        await api('/workspace', { method: 'PUT', body: { workspace: board() } });
+
+        const response = await api('/tasks/task-1', { method: 'PATCH', body: { column: 'done' } });
+        const task = await response.json();
+        expect(task.column).toBe('done');
+        expect(task.history.at(-1)).toMatchObject({ from: 'todo', to: 'done' });
+    });
+
+    it('archives deleted tasks', async () => {
+        const api = await start();
+        await api('/workspace', { method: 'PUT', body: { workspace: board() } });
+
+        expect((await api('/tasks/task-1', { method: 'DELETE' })).status).toBe(204);
+        const { workspace } = await (await api('/workspace')).json();
+        expect(workspace.tasks).toEqual([]);
+        expect(workspace.deletedTasks.map((task: { id: string }) => task.id)).toEqual(['task-1']);
+    });
+
+    it('only answers browsers on the allowed origins', async () => {
+        const api = await start();
+
+        const allowed = await api('/workspace', { method: 'OPTIONS', headers: { 'Origin': APP_ORIGIN } });
+        expect(allowed.status).toBe(204);
+        expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe(APP_ORIGIN);
+
+        const other = await api('/workspace', { headers: { 'Origin': 'https://example.com' } });
+        expect(other.status).toBe(403);
+        expect(other.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    });
+
+    it('requires the access token when one is configured', async () => {
+        const api = await start({ token: 'secret' });
+
+        expect((await api('/workspace')).status).toBe(401);
+        expect((await api('/workspace', { headers: { 'Authorization': 'Bearer wrong' } })).status).toBe(401);
+        expect((await api('/workspace', { headers: { 'Authorization': 'Bearer secret' } })).status).toBe(404);
+    });
+});
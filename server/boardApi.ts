@@ -0,0 +1,329 @@
+// The REST API over the board, stored in a JSON file. The app can use it as its data source, and
+// scripts or other tools can read and change tasks, sprints and retrospectives through it. Records go
+// through the same checks as imported workspaces. server/apiServer.ts serves it.
+import { timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import { produce } from 'immer';
+import type { Retrospective, Sprint, Task, Workspace } from '../types';
+import { WORKSPACE_SCHEMA_VERSION } from '../services/storageService';
+import { validateRetrospectiveRecord, validateSprintRecord, validateTaskRecord, validateWorkspace } from '../services/workspaceTransferService';
+import type { ImportProblem, ValidatedRecord } from '../services/workspaceTransferService';
+import { appendTaskEvent, createTaskEvent, moveTaskTo, withCreatedEvent } from '../services/taskHistoryService';
+import { nextRank } from '../services/backlogService';
+import { readWorkspaceFile, writeWorkspaceFile } from './workspaceFile';
+import type { WorkspaceFile } from './workspaceFile';
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+type RequestBody = Record<string, unknown>;
+
+class ApiError extends Error {
+    readonly status: number;
+    readonly problems?: ImportProblem[];
+
+    constructor(status: number, message: string, problems?: ImportProblem[]) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.problems = problems;
+    }
+}
+
+// Returns the record as it will be stored, with any repairs the checks made listed as warnings.
+const checked = <T,>({ value, problems }: ValidatedRecord<T>): { value: T; problems: ImportProblem[] } => {
+    if (!value) {
+        throw new ApiError(400, problems.find(problem => problem.severity === 'error')?.message ?? 'Invalid record.', problems);
+    }
+    return { value, problems };
+};
+
+// `null` clears a field, so a PATCH can take a task out of its sprint with `{ "sprintId": null }`.
+const withoutNulls = (raw: RequestBody): RequestBody =>
+    Object.fromEntries(Object.entries(raw).filter(([, value]) => value !== null));
+
+interface Collection<T extends { id: string }> {
+    idPrefix: string;
+    list: (workspace: Workspace) => T[];
+    replace: (workspace: Workspace, records: T[]) => Workspace;
+    validate: (raw: unknown, workspace: Workspace) => ValidatedRecord<T>;
+    // Turns a checked record into what is stored, given the version it replaces (if any).
+    prepare?: (record: T, previous: T | undefined, workspace: Workspace) => T;
+    remove?: (record: T, workspace: Workspace) => Workspace;
+}
+
+const tasks: Collection<Task> = {
+    idPrefix: 'task',
+    list: workspace => workspace.tasks,
+    replace: (workspace, records) => ({ ...workspace, tasks: records }),
+    validate: (raw, workspace) => validateTaskRecord(raw, workspace.board.columns, workspace.sprints),
+    prepare: (task, previous, workspace) => {
+        if (!previous) {
+            return { ...withCreatedEvent(task, new Date()), rank: task.rank ?? nextRank(workspace.tasks) };
+        }
+        // A move without its own history entry is recorded like a move on the board.
+        const moved = previous.column !== task.column || (previous.sprintId ?? null) !== (task.sprintId ?? null);
+        if (moved && (task.history?.length ?? 0) === (previous.history?.length ?? 0)) {
+            return produce({ ...task, column: previous.column, sprintId: previous.sprintId }, (draft: Task) => {
+                moveTaskTo(draft, task.column, task.sprintId);
+            });
+        }
+        return task;
+    },
+    // Deleted tasks are archived, as on the board, so the burndown still accounts for removed scope.
+    remove: (task, workspace) => ({
+        ...workspace,
+        tasks: workspace.tasks.filter(t => t.id !== task.id),
+        deletedTasks: [...workspace.deletedTasks, produce(task, (draft: Task) => {
+            appendTaskEvent(draft, createTaskEvent('deleted', { from: task.column }));
+        })],
+    }),
+};
+
+const sprints: Collection<Sprint> = {
+    idPrefix: 'sprint',
+    list: workspace => workspace.sprints,
+    replace: (workspace, records) => ({ ...workspace, sprints: records }),
+    validate: raw => validateSprintRecord(raw),
+    remove: (sprint, workspace) => {
+        if (workspace.sprints.length === 1) {
+            throw new ApiError(409, 'The board needs at least one sprint.');
+        }
+        if (workspace.tasks.some(task => task.sprintId === sprint.id)) {
+            throw new ApiError(409, `Tasks are still assigned to ${sprint.name}; move them to another sprint first.`);
+        }
+        const remaining = workspace.sprints.filter(s => s.id !== sprint.id);
+        return {
+            ...workspace,
+            sprints: remaining,
+            selectedSprintId: workspace.selectedSprintId === sprint.id ? remaining[0].id : workspace.selectedSprintId,
+            retrospectives: workspace.retrospectives.filter(retro => retro.sprintId !== sprint.id),
+        };
+    },
+};
+
+const retrospectives: Collection<Retrospective> = {
+    idPrefix: 'retro',
+    list: workspace => workspace.retrospectives,
+    replace: (workspace, records) => ({ ...workspace, retrospectives: records }),
+    validate: (raw, workspace) => validateRetrospectiveRecord(raw, workspace.sprints),
+    prepare: (retro, _previous, workspace) => {
+        if (workspace.retrospectives.some(r => r.sprintId === retro.sprintId && r.id !== retro.id)) {
+            throw new ApiError(409, 'That sprint already has a retrospective.');
+        }
+        return { ...retro, updatedAt: new Date().toISOString() };
+    },
+};
+
+type ApiRecord = { id: string };
+
+const COLLECTIONS = new Map<string, Collection<ApiRecord>>([
+    ['tasks', tasks],
+    ['sprints', sprints],
+    ['retrospectives', retrospectives],
+]);
+
+const readBody = (req: IncomingMessage): Promise<RequestBody> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new ApiError(413, 'The request body is too large.'));
+            req.destroy();
+        } else {
+            chunks.push(chunk);
+        }
+    });
+    req.on('end', () => {
+        try {
+            const body: unknown = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : undefined;
+            if (!body || typeof body !== 'object' || Array.isArray(body)) {
+                reject(new ApiError(400, 'The request body must be a JSON object.'));
+            } else {
+                resolve(body as RequestBody);
+            }
+        } catch {
+            reject(new ApiError(400, 'The request body is not valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+// Query parameters filter on top-level fields, e.g. GET /api/tasks?column=todo&assigneeId=member-1.
+const matchesQuery = (record: object, query: URLSearchParams) =>
+    [...query].every(([key, value]) => String((record as Record<string, unknown>)[key]) === value);
+
+// Requests from a browser carry an Origin header; only the app's own origins may use the API, so other
+// web pages open in the same browser can't read or change the board.
+const isAllowedOrigin = (origin: string | undefined, allowedOrigins: string[]) =>
+    origin === undefined || allowedOrigins.includes(origin);
+
+const hasToken = (authorization: string | undefined, token: string) => {
+    const expected = Buffer.from(`Bearer ${token}`);
+    const given = Buffer.from(authorization ?? '');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+export interface BoardApiOptions {
+    dataFile: string;
+    allowedOrigins: string[]; // browser origins the app is served from
+    token?: string; // when set, every request has to send it as `Authorization: Bearer <token>`
+}
+
+export const createBoardApi = async ({ dataFile, allowedOrigins, token }: BoardApiOptions): Promise<RequestListener> => {
+    let stored: WorkspaceFile | null = await readWorkspaceFile(dataFile);
+    let queue: Promise<unknown> = Promise.resolve();
+
+    // Requests are handled one at a time, so none of them changes a board another is still saving.
+    const exclusively = <T,>(run: () => Promise<T>): Promise<T> => {
+        const result = queue.then(run);
+        queue = result.catch(() => undefined);
+        return result;
+    };
+
+    const currentWorkspace = (): Workspace => {
+        if (!stored) {
+            throw new ApiError(404, 'No board has been saved yet. Open the app with this API as its data source, or PUT /api/workspace.');
+        }
+        return stored.workspace as Workspace;
+    };
+
+    // The board is only served in its new state once it is safely in the file.
+    const persist = async (workspace: Workspace) => {
+        stored = await writeWorkspaceFile(dataFile, workspace, (stored?.revision ?? 0) + 1);
+    };
+
+    // Every response carries the board's revision; a PUT of the whole board can send it back in If-Match so
+    // it doesn't overwrite changes it hasn't seen.
+    const etag = () => (stored ? `"${stored.revision}"` : undefined);
+
+    const handleWorkspace = async (method: string, body: RequestBody, ifMatch: string | undefined): Promise<[number, unknown]> => {
+        switch (method) {
+            case 'GET':
+                currentWorkspace();
+                return [200, stored];
+            case 'PUT': {
+                if (ifMatch !== undefined && ifMatch !== '*' && ifMatch !== etag()) {
+                    throw new ApiError(409, 'The board was changed since you loaded it. Load it again and reapply your changes.');
+                }
+                const { workspace, problems } = validateWorkspace(typeof body.version === 'number' ? body.version : WORKSPACE_SCHEMA_VERSION, body.workspace);
+                if (!workspace) {
+                    throw new ApiError(400, problems.find(problem => problem.severity === 'error')?.message ?? 'Invalid workspace.', problems);
+                }
+                await persist(workspace);
+                return [200, { ...stored, problems }];
+            }
+            default:
+                throw new ApiError(405, `${method} is not supported on /api/workspace.`);
+        }
+    };
+
+    const handleCollection = async <T extends ApiRecord,>(collection: Collection<T>, method: string, body: RequestBody, query: URLSearchParams): Promise<[number, unknown]> => {
+        const workspace = currentWorkspace();
+        const records = collection.list(workspace);
+        switch (method) {
+            case 'GET':
+                return [200, records.filter(record => matchesQuery(record, query))];
+            case 'POST': {
+                const id = typeof body.id === 'string' && body.id ? body.id : `${collection.idPrefix}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+                if (records.some(record => record.id === id)) {
+                    throw new ApiError(409, `"${id}" already exists.`);
+                }
+                const { value, problems } = checked(collection.validate(withoutNulls({ ...body, id }), workspace));
+                const record = collection.prepare ? collection.prepare(value, undefined, workspace) : value;
+                await persist(collection.replace(workspace, [...records, record]));
+                return [201, { ...record, problems }];
+            }
+            default:
+                throw new ApiError(405, `${method} is not supported on a collection.`);
+        }
+    };
+
+    const handleRecord = async <T extends ApiRecord,>(collection: Collection<T>, id: string, method: string, body: RequestBody): Promise<[number, unknown]> => {
+        const workspace = currentWorkspace();
+        const records = collection.list(workspace);
+        const previous = records.find(record => record.id === id);
+        if (!previous) {
+            throw new ApiError(404, `"${id}" does not exist.`);
+        }
+        switch (method) {
+            case 'GET':
+                return [200, previous];
+            case 'PUT':
+            case 'PATCH': {
+                // PUT replaces the record; PATCH only changes the fields it sends.
+                const raw = method === 'PATCH' ? { ...previous, ...body, id } : { ...body, id };
+                const { value, problems } = checked(collection.validate(withoutNulls(raw), workspace));
+                const record = collection.prepare ? collection.prepare(value, previous, workspace) : value;
+                await persist(collection.replace(workspace, records.map(r => (r.id === id ? record : r))));
+                return [200, { ...record, problems }];
+            }
+            case 'DELETE':
+                await persist(collection.remove
+                    ? collection.remove(previous, workspace)
+                    : collection.replace(workspace, records.filter(r => r.id !== id)));
+                return [204, undefined];
+            default:
+                throw new ApiError(405, `${method} is not supported on a record.`);
+        }
+    };
+
+    const route = async (req: IncomingMessage): Promise<[number, unknown]> => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const method = req.method ?? 'GET';
+        const [prefix, resource, id, ...rest] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+        const collection = COLLECTIONS.get(resource);
+        const isWorkspace = resource === 'workspace' && !id;
+        if (prefix !== 'api' || (!collection && !isWorkspace) || rest.length > 0) {
+            throw new ApiError(404, `There is no ${url.pathname} endpoint.`);
+        }
+        const body = ['POST', 'PUT', 'PATCH'].includes(method) ? await readBody(req) : {};
+        return exclusively(() => {
+            if (!collection) return handleWorkspace(method, body, req.headers['if-match']);
+            return id ? handleRecord(collection, id, method, body) : handleCollection(collection, method, body, url.searchParams);
+        });
+    };
+
+    const send = (req: IncomingMessage, res: ServerResponse, status: number, body?: unknown) => {
+        const origin = req.headers.origin;
+        res.writeHead(status, {
+            // The app usually runs on another port than the API.
+            ...(origin && isAllowedOrigin(origin, allowedOrigins) ? {
+                'Access-Control-Allow-Origin': origin,
+                'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+                'Access-Control-Allow-Headers': 'Authorization, Content-Type, If-Match',
+                'Access-Control-Expose-Headers': 'ETag',
+            } : {}),
+            'Vary': 'Origin',
+            ...(etag() ? { 'ETag': etag() } : {}),
+            ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        });
+        res.end(body !== undefined ? JSON.stringify(body) : undefined);
+    };
+
+    return async (req, res) => {
+        if (!isAllowedOrigin(req.headers.origin, allowedOrigins)) {
+            send(req, res, 403, { error: `Requests from ${req.headers.origin} are not allowed. Add it to API_ALLOWED_ORIGINS to use the API from there.` });
+            return;
+        }
+        if (req.method === 'OPTIONS') {
+            send(req, res, 204);
+            return;
+        }
+        if (token && !hasToken(req.headers.authorization, token)) {
+            send(req, res, 401, { error: 'This board API requires an access token.' });
+            return;
+        }
+        try {
+            const [status, body] = await route(req);
+            send(req, res, status, body);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                send(req, res, error.status, { error: error.message, problems: error.problems });
+            } else {
+                console.error(`${req.method} ${req.url} failed:`, error);
+                send(req, res, 500, { error: 'The board could not be saved or read.' });
+            }
+        }
+    };
+};
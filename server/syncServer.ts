@@ -0,0 +1,109 @@
+// A small reference server for the optional real-time sync mode: `npm run sync-server`.
+// It keeps one shared board in memory. The first client to connect seeds it with its own board, and
+// every later change is relayed to all connected clients. Concurrent edits to the same task are
+// merged field by field; see services/sync/merge.ts.
+import { WebSocketServer, WebSocket } from 'ws';
+import type { Task } from '../types';
+import { DEFAULT_SYNC_PORT, SHARED_COLLECTION_KEYS } from '../services/sync/protocol';
+import type { ClientMessage, ServerMessage, SharedCollections, SyncPeer } from '../services/sync/protocol';
+import { mergeTask } from '../services/sync/merge';
+
+const port = Number(process.env.SYNC_PORT) || DEFAULT_SYNC_PORT;
+// Anyone who can reach the server can read and change the board, so it only accepts local
+// connections unless SYNC_HOST opts into another interface (e.g. 0.0.0.0 to share it on a LAN).
+const host = process.env.SYNC_HOST || '127.0.0.1';
+
+interface StoredTask {
+    task: Task;
+    revision: number;
+    by: string; // who wrote this revision
+}
+
+const tasks = new Map<string, StoredTask>();
+let collections: SharedCollections | null = null;
+const peers = new Map<WebSocket, SyncPeer>();
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (message: ServerMessage) => {
+    for (const socket of peers.keys()) send(socket, message);
+};
+
+const broadcastPresence = () => broadcast({ type: 'presence', peers: [...peers.values()] });
+
+const snapshot = (): ServerMessage => ({
+    type: 'snapshot',
+    board: { tasks: [...tasks.values()].map(stored => stored.task), collections: collections! },
+    revisions: Object.fromEntries([...tasks].map(([id, stored]) => [id, stored.revision])),
+    peers: [...peers.values()],
+});
+
+const handleMessage = (socket: WebSocket, message: ClientMessage) => {
+    if (message.type === 'hello') {
+        if (!collections) {
+            collections = message.board.collections;
+            message.board.tasks.forEach(task => tasks.set(task.id, { task, revision: 1, by: message.name }));
+            console.log(`Board seeded by ${message.name} with ${tasks.size} task(s).`);
+        }
+        peers.set(socket, { clientId: message.clientId, name: message.name, memberId: message.memberId });
+        send(socket, snapshot());
+        broadcastPresence();
+        return;
+    }
+
+    const peer = peers.get(socket);
+    if (!peer) return; // ignore anything before the hello
+
+    switch (message.type) {
+        case 'task': {
+            const current = tasks.get(message.task.id);
+            let task = message.task;
+            // The edit started from an older version than the server's: someone else got there first.
+            if (current && current.revision !== message.baseRevision) {
+                const merge = mergeTask(message.base, message.task, current.task);
+                task = merge.task;
+                if (merge.conflicts.length > 0) {
+                    send(socket, { type: 'conflict', taskId: task.id, title: task.title, fields: merge.conflicts, by: current.by });
+                }
+            }
+            const revision = (current?.revision ?? 0) + 1;
+            tasks.set(task.id, { task, revision, by: peer.name });
+            broadcast({ type: 'task', task, revision, clientId: peer.clientId, by: peer.name });
+            break;
+        }
+        case 'task-delete':
+            if (tasks.delete(message.task.id)) {
+                broadcast({ type: 'task-deleted', task: message.task, clientId: peer.clientId, by: peer.name });
+            }
+            break;
+        case 'collection':
+            if (collections && SHARED_COLLECTION_KEYS.includes(message.key)) {
+                collections = { ...collections, [message.key]: message.value };
+                broadcast({ type: 'collection', key: message.key, value: message.value, clientId: peer.clientId, by: peer.name });
+            }
+            break;
+        case 'presence':
+            peers.set(socket, { ...peer, name: message.name, memberId: message.memberId, editingTaskId: message.editingTaskId });
+            broadcastPresence();
+            break;
+    }
+};
+
+const server = new WebSocketServer({ host, port });
+
+server.on('connection', (socket) => {
+    socket.on('message', (data) => {
+        try {
+            handleMessage(socket, JSON.parse(data.toString()) as ClientMessage);
+        } catch (error) {
+            console.error('Ignoring malformed message:', error);
+        }
+    });
+    socket.on('close', () => {
+        if (peers.delete(socket)) broadcastPresence();
+    });
+});
+
+server.on('listening', () => console.log(`Board sync server listening on ws://${host}:${port}`));
@@ -0,0 +1,39 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Workspace } from '../types';
+import { migrateWorkspace, WORKSPACE_SCHEMA_VERSION } from '../services/storageService';
+import type { StoredWorkspace } from '../services/storageService';
+
+// The file uses the same envelope as the copy the browser keeps in local storage, so older files are
+// upgraded with the same migrations. The revision counts saves, so clients can tell whether the board
+// changed since they loaded it.
+export interface WorkspaceFile extends StoredWorkspace {
+    revision: number;
+}
+
+export const readWorkspaceFile = async (file: string): Promise<WorkspaceFile | null> => {
+    let text: string;
+    try {
+        text = await readFile(file, 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+    const stored = JSON.parse(text) as Partial<WorkspaceFile> & StoredWorkspace;
+    return {
+        version: WORKSPACE_SCHEMA_VERSION,
+        savedAt: stored.savedAt,
+        revision: typeof stored.revision === 'number' ? stored.revision : 0,
+        workspace: migrateWorkspace(stored.version, stored.workspace),
+    };
+};
+
+// Written to a temporary file first, so a crash mid-write never leaves a truncated board behind.
+export const writeWorkspaceFile = async (file: string, workspace: Workspace, revision: number): Promise<WorkspaceFile> => {
+    const stored: WorkspaceFile = { version: WORKSPACE_SCHEMA_VERSION, savedAt: new Date().toISOString(), revision, workspace };
+    await mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.tmp`;
+    await writeFile(temporary, JSON.stringify(stored, null, 2));
+    await rename(temporary, file);
+    return stored;
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { commentWithReplies, createComment, describeTaskEvent, diffTaskEdit, threadComments } from './activityService';
+import type { Task, TaskComment } from '../types';
+
+const AT = new Date('2024-07-01T00:00:00.000Z');
+
+const task = (fields: Partial<Task> = {}): Task =>
+    ({ id: 'task-1', column: 'todo', title: 'Login', description: '', attachments: [], ...fields });
+
+const attachment = (name: string) => ({ id: `attachment-${name}`, name, type: 'text/plain', size: 0 });
+
+const comment = (id: string, createdAt: string, parentId?: string): TaskComment => ({ id, text: id, createdAt, parentId });
+
+describe('diffTaskEdit', () => {
+    it('records the edited fields in one event', () => {
+        const before = task({ labels: ['ui'] });
+        const after = task({ title: 'Sign in', labels: ['ui', 'auth'], priority: 'must' });
+        expect(diffTaskEdit(before, after, 'Ada', AT)).toEqual([
+            { type: 'edited', at: AT.toISOString(), fields: ['title', 'priority', 'labels'], actor: 'Ada' },
+        ]);
+    });
+
+    it('records attachments that were added or removed', () => {
+        const before = task({ attachments: [attachment('old.txt'), attachment('kept.txt')] });
+        const after = task({ attachments: [attachment('kept.txt'), attachment('new.txt')] });
+        expect(diffTaskEdit(before, after, undefined, AT).map(event => [event.type, event.attachment])).toEqual([
+            ['attachment-added', 'new.txt'],
+            ['attachment-removed', 'old.txt'],
+        ]);
+    });
+
+    it('treats missing and empty lists as the same', () => {
+        expect(diffTaskEdit(task(), task({ labels: [], checklist: [] }), undefined, AT)).toEqual([]);
+    });
+});
+
+describe('describeTaskEvent', () => {
+    const columnTitle = (id: string) => ({ todo: 'To Do', done: 'Done', backlog: 'Backlog' }[id] ?? id);
+
+    it('describes each kind of event', () => {
+        expect(describeTaskEvent({ type: 'created', at: '', to: 'todo', points: 3 }, columnTitle)).toBe('Created in To Do with 3 points');
+        expect(describeTaskEvent({ type: 'moved', at: '', from: 'todo', to: 'done' }, columnTitle)).toBe('Moved from To Do to Done');
+        expect(describeTaskEvent({ type: 'estimated', at: '' }, columnTitle)).toBe('Estimate cleared');
+        expect(describeTaskEvent({ type: 'edited', at: '', fields: ['title', 'labels'] }, columnTitle)).toBe('Edited the title, labels');
+        expect(describeTaskEvent({ type: 'attachment-removed', at: '', attachment: 'a.txt' }, columnTitle)).toBe('Removed attachment "a.txt"');
+    });
+});
+
+describe('comments', () => {
+    it('are created with an id and a timestamp', () => {
+        expect(createComment('Hi', 'Ada', 'comment-1')).toEqual({
+            id: expect.stringMatching(/^comment-/),
+            text: 'Hi',
+            author: 'Ada',
+            createdAt: expect.any(String),
+            parentId: 'comment-1',
+        });
+    });
+
+    it('are threaded under their parent, oldest first', () => {
+        const threads = threadComments([
+            comment('reply-2', '2024-07-03', 'top'),
+            comment('top', '2024-07-01'),
+            comment('reply-1', '2024-07-02', 'top'),
+            comment('orphan', '2024-07-04', 'deleted'),
+        ]);
+        expect(threads.get(undefined)?.map(c => c.id)).toEqual(['top', 'orphan']);
+        expect(threads.get('top')?.map(c => c.id)).toEqual(['reply-1', 'reply-2']);
+    });
+
+    it('are deleted together with all of their replies', () => {
+        const comments = [comment('a', '1'), comment('b', '2', 'a'), comment('c', '3', 'b'), comment('d', '4')];
+        expect([...commentWithReplies(comments, 'a')]).toEqual(['a', 'b', 'c']);
+    });
+});
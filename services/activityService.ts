@@ -0,0 +1,97 @@
+import type { Task, TaskComment, TaskEvent } from '../types';
+import { createTaskEvent } from './taskHistoryService';
+
+// Fields whose edits are recorded as 'edited' events. Column, sprint and points have their own events.
+const TRACKED_FIELDS: Record<string, { label: string; value: (task: Task) => unknown }> = {
+    title: { label: 'title', value: task => task.title },
+    description: { label: 'description', value: task => task.description },
+    assigneeId: { label: 'assignee', value: task => task.assigneeId },
+    priority: { label: 'priority', value: task => task.priority },
+    labels: { label: 'labels', value: task => task.labels || [] },
+    checklist: { label: 'checklist', value: task => task.checklist || [] },
+    acceptanceCriteria: { label: 'acceptance criteria', value: task => task.acceptanceCriteria || [] },
+    dependsOn: { label: 'dependencies', value: task => task.dependsOn || [] },
+    blocker: { label: 'blocker', value: task => task.blocker },
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// The events an edit from the task dialog adds to the log, besides moves and estimates.
+export const diffTaskEdit = (before: Task, after: Task, actor?: string, at: Date = new Date()): TaskEvent[] => {
+    const events: TaskEvent[] = [];
+    const fields = Object.entries(TRACKED_FIELDS)
+        .filter(([, field]) => !sameValue(field.value(before), field.value(after)))
+        .map(([, field]) => field.label);
+    if (fields.length > 0) {
+        events.push(createTaskEvent('edited', { fields, actor }, at));
+    }
+
+    const beforeAttachments = before.attachments || [];
+    const afterAttachments = after.attachments || [];
+    afterAttachments.filter(a => !beforeAttachments.some(b => b.id === a.id))
+        .forEach(a => events.push(createTaskEvent('attachment-added', { attachment: a.name, actor }, at)));
+    beforeAttachments.filter(b => !afterAttachments.some(a => a.id === b.id))
+        .forEach(b => events.push(createTaskEvent('attachment-removed', { attachment: b.name, actor }, at)));
+    return events;
+};
+
+export const describeTaskEvent = (event: TaskEvent, columnTitle: (columnId: string) => string): string => {
+    switch (event.type) {
+        case 'created':
+            return `Created in ${columnTitle(event.to ?? 'backlog')}${event.points ? ` with ${event.points} points` : ''}`;
+        case 'moved':
+            return `Moved from ${columnTitle(event.from ?? '')} to ${columnTitle(event.to ?? '')}`;
+        case 'sprint-changed':
+            return event.sprintId ? 'Carried over to another sprint' : 'Removed from the sprint';
+        case 'estimated':
+            return event.points ? `Estimated at ${event.points} points` : 'Estimate cleared';
+        case 'deleted':
+            return 'Deleted';
+        case 'edited':
+            return `Edited the ${(event.fields || []).join(', ')}`;
+        case 'attachment-added':
+            return `Attached "${event.attachment}"`;
+        case 'attachment-removed':
+            return `Removed attachment "${event.attachment}"`;
+        case 'ai-analysis':
+            return 'Added an AI analysis of the attachments';
+    }
+};
+
+export const createComment = (text: string, author?: string, parentId?: string): TaskComment => ({
+    id: `comment-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    text,
+    author,
+    createdAt: new Date().toISOString(),
+    parentId,
+});
+
+// Replies grouped under the comment they answer, oldest first; top-level comments are under `undefined`.
+// Replies whose parent was removed are shown at the top level rather than lost.
+export const threadComments = (comments: TaskComment[]): Map<string | undefined, TaskComment[]> => {
+    const ids = new Set(comments.map(comment => comment.id));
+    const threads = new Map<string | undefined, TaskComment[]>();
+    [...comments]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .forEach(comment => {
+            const parentId = comment.parentId && ids.has(comment.parentId) ? comment.parentId : undefined;
+            threads.set(parentId, [...(threads.get(parentId) || []), comment]);
+        });
+    return threads;
+};
+
+// A comment and all of its replies, for deleting a whole thread.
+export const commentWithReplies = (comments: TaskComment[], commentId: string): Set<string> => {
+    const removed = new Set([commentId]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        for (const comment of comments) {
+            if (comment.parentId && removed.has(comment.parentId) && !removed.has(comment.id)) {
+                removed.add(comment.id);
+                grew = true;
+            }
+        }
+    }
+    return removed;
+};
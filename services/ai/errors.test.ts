@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { AiError, isAbortError, toAiError } from './errors';
+
+describe('toAiError', () => {
+    it('categorises failures by status code', () => {
+        const withStatus = (status: number) => Object.assign(new Error('Request failed'), { status });
+
+        expect(toAiError(withStatus(401)).category).toBe('missing-key');
+        expect(toAiError(withStatus(429)).category).toBe('quota');
+        expect(toAiError(withStatus(503)).category).toBe('network');
+        expect(toAiError(withStatus(400)).category).toBe('unknown');
+    });
+
+    it('falls back to the message when there is no status', () => {
+        expect(toAiError(new Error('API key not valid')).category).toBe('missing-key');
+        expect(toAiError(new Error('RESOURCE_EXHAUSTED: quota exceeded')).category).toBe('quota');
+        expect(toAiError(new Error('Response was blocked due to SAFETY')).category).toBe('safety');
+        expect(toAiError(new TypeError('Failed to fetch')).category).toBe('network');
+        expect(toAiError('something odd').category).toBe('unknown');
+    });
+
+    it('keeps existing AiErrors and the original cause', () => {
+        const error = new AiError('safety', 'Declined');
+        expect(toAiError(error)).toBe(error);
+
+        const cause = new Error('fetch failed');
+        expect(toAiError(cause).cause).toBe(cause);
+    });
+});
+
+describe('AiError', () => {
+    it('retries only transient categories', () => {
+        expect(new AiError('network', 'x').retryable).toBe(true);
+        expect(new AiError('invalid-output', 'x').retryable).toBe(true);
+        expect(new AiError('missing-key', 'x').retryable).toBe(false);
+        expect(new AiError('safety', 'x').retryable).toBe(false);
+    });
+});
+
+describe('isAbortError', () => {
+    it('recognises abort errors that are not Error instances', () => {
+        expect(isAbortError({ name: 'AbortError' })).toBe(true);
+        expect(isAbortError(new DOMException('cancelled', 'AbortError'))).toBe(true);
+        expect(isAbortError(new Error('cancelled'))).toBe(false);
+    });
+});
@@ -0,0 +1,58 @@
+export type AiErrorCategory = 'missing-key' | 'quota' | 'safety' | 'invalid-output' | 'network' | 'unknown';
+
+// Quota, network and malformed-output failures usually go away on their own, so they are retried.
+const RETRYABLE: AiErrorCategory[] = ['quota', 'network', 'invalid-output'];
+
+const CATEGORY_HINTS: Record<AiErrorCategory, string> = {
+    'missing-key': 'Check the API key, or switch to another AI provider with the 🤖 button.',
+    'quota': 'The AI provider is rate limiting requests. Wait a minute and try again.',
+    'safety': "The AI provider declined to answer this request. Try rewording it.",
+    'invalid-output': "The AI's answer didn't have the expected shape, even after retrying.",
+    'network': 'The AI provider could not be reached. Check your connection or the server URL.',
+    'unknown': '',
+};
+
+export class AiError extends Error {
+    readonly category: AiErrorCategory;
+
+    constructor(category: AiErrorCategory, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'AiError';
+        this.category = category;
+    }
+
+    get retryable() {
+        return RETRYABLE.includes(this.category);
+    }
+
+    get hint() {
+        return CATEGORY_HINTS[this.category];
+    }
+}
+
+// Aborted fetches and SDK calls reject with an "AbortError" that isn't always an Error instance.
+export const isAbortError = (error: unknown) =>
+    typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+export const categoryForStatus = (status: number): AiErrorCategory => {
+    if (status === 401 || status === 403) return 'missing-key';
+    if (status === 429) return 'quota';
+    if (status === 408 || status >= 500) return 'network';
+    return 'unknown';
+};
+
+// Providers throw their own error types; map them onto our categories by status code or message.
+export const toAiError = (error: unknown): AiError => {
+    if (error instanceof AiError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+
+    let category: AiErrorCategory = status !== undefined ? categoryForStatus(status) : 'unknown';
+    if (category === 'unknown') {
+        if (/api[_ ]?key|unauthori[sz]ed|permission denied/i.test(message)) category = 'missing-key';
+        else if (/quota|rate limit|resource[_ ]exhausted|too many requests/i.test(message)) category = 'quota';
+        else if (/safety|blocked|content[_ ]filter/i.test(message)) category = 'safety';
+        else if (/failed to fetch|network|fetch failed|unavailable|overloaded|timed? ?out/i.test(message)) category = 'network';
+    }
+    return new AiError(category, message, { cause: error });
+};
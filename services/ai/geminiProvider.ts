@@ -0,0 +1,59 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import type { GenerateContentResponse, Schema } from "@google/genai";
+import type { AiProvider, AiRequest, AiSchema } from './types';
+import { AiError } from './errors';
+
+const toGeminiSchema = (schema: AiSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    required: schema.required,
+    items: schema.items ? toGeminiSchema(schema.items) : undefined,
+    properties: schema.properties
+        ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+        : undefined,
+});
+
+const checkNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+        throw new AiError('safety', `Gemini blocked the response (${blockReason ?? finishReason}).`);
+    }
+};
+
+export const createGeminiProvider = (model: string): AiProvider => {
+    const API_KEY = process.env.API_KEY;
+    if (!API_KEY) {
+        throw new AiError('missing-key', "API_KEY environment variable not set. Please configure it to use the Gemini provider, or switch to another AI provider.");
+    }
+    const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+    const toParameters = ({ prompt, files = [], schema, signal }: AiRequest) => {
+        const fileParts = files.map(file => ({ inlineData: { data: file.data, mimeType: file.mimeType } }));
+        return {
+            model,
+            contents: fileParts.length > 0 ? { parts: [{ text: prompt }, ...fileParts] } : prompt,
+            config: {
+                abortSignal: signal,
+                ...(schema ? { responseMimeType: "application/json", responseSchema: toGeminiSchema(schema) } : {}),
+            },
+        };
+    };
+
+    return {
+        id: 'gemini',
+        async generate(request: AiRequest) {
+            const response = await ai.models.generateContent(toParameters(request));
+            checkNotBlocked(response);
+            return response.text ?? '';
+        },
+        async *stream(request: AiRequest) {
+            const response = await ai.models.generateContentStream(toParameters(request));
+            for await (const chunk of response) {
+                checkNotBlocked(chunk);
+                if (chunk.text) yield chunk.text;
+            }
+        },
+    };
+};
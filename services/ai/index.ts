@@ -0,0 +1,66 @@
+import type { AiProvider, AiSettings } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockProvider } from './mockProvider';
+
+export type { AiFile, AiProvider, AiProviderId, AiRequest, AiSchema, AiSettings } from './types';
+export { readPartialString } from './partialJson';
+export { AiError, isAbortError, toAiError } from './errors';
+export type { AiErrorCategory } from './errors';
+export { parseJsonResponse } from './validation';
+export { withRetry } from './retry';
+
+const SETTINGS_KEY = 'scrum-sprint-runner:ai-settings';
+
+export const AI_PROVIDER_LABELS: Record<AiSettings['provider'], string> = {
+    'gemini': 'Google Gemini',
+    'openai-compatible': 'OpenAI-compatible server',
+    'mock': 'Offline mock',
+};
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+    // Without a Gemini key the AI features still work, against the offline mock.
+    provider: process.env.API_KEY ? 'gemini' : 'mock',
+    geminiModel: 'gemini-2.5-flash',
+    openAiBaseUrl: 'http://localhost:11434/v1',
+    openAiModel: 'llama3.1',
+    openAiApiKey: '',
+};
+
+let settings: AiSettings | undefined;
+let provider: AiProvider | undefined;
+
+export const getAiSettings = (): AiSettings => {
+    if (!settings) {
+        try {
+            settings = { ...DEFAULT_AI_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+        } catch {
+            settings = DEFAULT_AI_SETTINGS;
+        }
+    }
+    return settings as AiSettings;
+};
+
+export const setAiSettings = (next: AiSettings) => {
+    settings = next;
+    provider = undefined;
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+};
+
+export const getAiProvider = (): AiProvider => {
+    if (!provider) {
+        const current = getAiSettings();
+        switch (current.provider) {
+            case 'gemini':
+                provider = createGeminiProvider(current.geminiModel);
+                break;
+            case 'openai-compatible':
+                provider = createOpenAiCompatibleProvider({ baseUrl: current.openAiBaseUrl, model: current.openAiModel, apiKey: current.openAiApiKey });
+                break;
+            case 'mock':
+                provider = createMockProvider();
+                break;
+        }
+    }
+    return provider;
+};
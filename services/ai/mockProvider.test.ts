@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from './mockProvider';
+import type { AiSchema } from './types';
+
+const storySchema: AiSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            title: { type: 'string' },
+            storyPoints: { type: 'integer' },
+            priority: { type: 'string', enum: ['must', 'should'] },
+        },
+    },
+};
+
+describe('createMockProvider', () => {
+    const provider = createMockProvider();
+
+    it('answers the same prompt with the same content', async () => {
+        const prompt = 'Write stories for "Single sign-on".';
+        expect(await provider.generate({ prompt, schema: storySchema })).toBe(await provider.generate({ prompt, schema: storySchema }));
+    });
+
+    it('answers with JSON in the shape of the schema', async () => {
+        const stories = JSON.parse(await provider.generate({ prompt: 'Write stories for "Single sign-on".', schema: storySchema }));
+        expect(stories.length).toBeGreaterThanOrEqual(3);
+        for (const story of stories) {
+            expect(story.title).toMatch(/^Mock title \d for Single sign-on$/);
+            expect([1, 2, 3, 5, 8]).toContain(story.storyPoints);
+            expect(['must', 'should']).toContain(story.priority);
+        }
+    });
+
+    it('answers in text without a schema, mentioning the files it got', async () => {
+        const answer = await provider.generate({ prompt: 'Summarize "Login".', files: [{ name: 'spec.pdf', mimeType: 'application/pdf', data: '' }] });
+        expect(answer).toMatch(/^This is a mock response about Login from the offline AI provider\. It looked at spec\.pdf\./);
+    });
+
+    it('streams the same answer in pieces', async () => {
+        vi.useFakeTimers();
+        try {
+            const request = { prompt: 'Summarize "Login".' };
+            const pieces: string[] = [];
+            const done = (async () => {
+                for await (const piece of provider.stream(request)) pieces.push(piece);
+            })();
+            await vi.runAllTimersAsync();
+            await done;
+            expect(pieces.length).toBeGreaterThan(1);
+            expect(pieces.join('')).toBe(await provider.generate(request));
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('stops when the request is cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(provider.generate({ prompt: 'Hi', signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
@@ -0,0 +1,81 @@
+import type { AiProvider, AiRequest, AiSchema } from './types';
+
+const FIBONACCI_POINTS = [1, 2, 3, 5, 8, 13];
+
+// FNV-1a, so the same prompt always produces the same response.
+const hashString = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) >>> 0;
+    let t = seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const humanize = (key: string) => key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[-_]/g, ' ').toLowerCase();
+
+// The first quoted phrase in a prompt is usually its subject (a feature idea, a task title).
+const promptSubject = (prompt: string) => prompt.match(/"([^"]{3,80})"/)?.[1] ?? 'the request';
+
+const mockValue = (schema: AiSchema, key: string, subject: string, random: () => number, index: number): unknown => {
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties || {}).map(([name, value]) => [name, mockValue(value, name, subject, random, index)]));
+        case 'array': {
+            const length = 3 + Math.floor(random() * 2);
+            return Array.from({ length }, (_, i) => mockValue(schema.items || { type: 'string' }, key, subject, random, i + 1));
+        }
+        case 'integer':
+        case 'number':
+            return /point|estimate/i.test(key)
+                ? FIBONACCI_POINTS[Math.floor(random() * 5)]
+                : Math.floor(random() * 10);
+        case 'boolean':
+            return random() > 0.5;
+        case 'string':
+            if (schema.enum && schema.enum.length > 0) {
+                return schema.enum[Math.floor(random() * schema.enum.length)];
+            }
+            return `Mock ${humanize(key || 'item')} ${index} for ${subject}`;
+    }
+};
+
+const STREAM_CHUNK_DELAY_MS = 40;
+
+const abortError = () => new DOMException('The AI request was cancelled.', 'AbortError');
+
+const mockResponse = ({ prompt, files = [], schema }: AiRequest) => {
+    const random = createRandom(hashString(prompt + files.map(f => f.name).join('|')));
+    const subject = promptSubject(prompt);
+    if (schema) {
+        return JSON.stringify(mockValue(schema, '', subject, random, 1));
+    }
+    const fileNote = files.length > 0 ? ` It looked at ${files.map(f => f.name).join(', ')}.` : '';
+    return `This is a mock response about ${subject} from the offline AI provider.${fileNote}\n\n- Mock recommendation 1\n- Mock recommendation 2\n- Mock recommendation 3`;
+};
+
+// An offline provider that returns deterministic, schema-shaped placeholder content.
+export const createMockProvider = (): AiProvider => ({
+    id: 'mock',
+    async generate(request: AiRequest) {
+        if (request.signal?.aborted) throw abortError();
+        return mockResponse(request);
+    },
+    // Drips the response out a few characters at a time so streaming UIs can be tried offline.
+    async *stream(request: AiRequest) {
+        const text = mockResponse(request);
+        for (let i = 0; i < text.length; i += 12) {
+            await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+            if (request.signal?.aborted) throw abortError();
+            yield text.slice(i, i + 12);
+        }
+    },
+});
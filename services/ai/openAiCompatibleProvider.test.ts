@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+const respondWith = (body: unknown, init: ResponseInit = {}) => {
+    const payload = typeof body === 'string' || body instanceof ReadableStream ? body : JSON.stringify(body);
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(payload, init));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+};
+
+const sentBody = (fetchMock: ReturnType<typeof respondWith>) => JSON.parse(fetchMock.mock.calls[0][1].body as string);
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('createOpenAiCompatibleProvider', () => {
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'llama3.1', apiKey: 'secret' });
+
+    it('needs a base URL and a model', () => {
+        expect(() => createOpenAiCompatibleProvider({ baseUrl: '', model: 'llama3.1' })).toThrow(/base URL and a model/);
+    });
+
+    it('posts the prompt to the chat completions endpoint and returns the answer', async () => {
+        const fetchMock = respondWith({ choices: [{ message: { content: 'Hello' } }] });
+        expect(await provider.generate({ prompt: 'Say hello' })).toBe('Hello');
+        expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+        expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer secret' });
+        expect(sentBody(fetchMock)).toEqual({ model: 'llama3.1', stream: false, messages: [{ role: 'user', content: 'Say hello' }] });
+    });
+
+    it('asks for strict JSON when a schema is given', async () => {
+        const fetchMock = respondWith({ choices: [{ message: { content: '{}' } }] });
+        await provider.generate({ prompt: 'Estimate', schema: { type: 'object', properties: { points: { type: 'integer', description: 'Story points' } } } });
+        expect(sentBody(fetchMock).response_format).toEqual({
+            type: 'json_schema',
+            json_schema: {
+                name: 'response',
+                strict: true,
+                schema: {
+                    type: 'object',
+                    properties: { points: { type: 'integer', description: 'Story points' } },
+                    required: ['points'],
+                    additionalProperties: false,
+                },
+            },
+        });
+    });
+
+    it('sends images as image parts and text files inline', async () => {
+        const fetchMock = respondWith({ choices: [{ message: { content: '' } }] });
+        await provider.generate({
+            prompt: 'Look',
+            files: [
+                { name: 'shot.png', mimeType: 'image/png', data: 'iVBO' },
+                { name: 'notes.txt', mimeType: 'text/plain', data: btoa('Remember the milk') },
+            ],
+        });
+        expect(sentBody(fetchMock).messages[0].content).toEqual([
+            { type: 'text', text: 'Look' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBO' } },
+            { type: 'text', text: '--- notes.txt ---\nRemember the milk' },
+        ]);
+    });
+
+    it('reports error responses by category', async () => {
+        respondWith('model not found', { status: 404, statusText: 'Not Found' });
+        await expect(provider.generate({ prompt: 'Say hello' })).rejects.toThrow('AI server responded with 404 Not Found: model not found');
+        respondWith('slow down', { status: 429, statusText: 'Too Many Requests' });
+        await expect(provider.generate({ prompt: 'Say hello' })).rejects.toMatchObject({ category: 'quota', retryable: true });
+    });
+
+    it('reports answers that are not JSON as malformed output', async () => {
+        respondWith('<html>Bad gateway</html>');
+        await expect(provider.generate({ prompt: 'Say hello' })).rejects.toMatchObject({ category: 'invalid-output' });
+    });
+
+    it('reports a filtered answer as a safety refusal', async () => {
+        respondWith({ choices: [{ finish_reason: 'content_filter', message: { content: '' } }] });
+        await expect(provider.generate({ prompt: 'Say hello' })).rejects.toMatchObject({ category: 'safety' });
+    });
+
+    describe('stream', () => {
+        const streamOf = (...chunks: string[]) => new ReadableStream({
+            start(controller) {
+                chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+                controller.close();
+            },
+        });
+
+        const collect = async (iterable: AsyncIterable<string>) => {
+            const pieces: string[] = [];
+            for await (const piece of iterable) pieces.push(piece);
+            return pieces;
+        };
+
+        it('yields the content of each server-sent event, also across chunk boundaries', async () => {
+            const fetchMock = respondWith(streamOf(
+                'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"del',
+                'ta":{"content":"lo"}}]}\n\n: keep-alive\n\ndata: [DONE]\n\n',
+            ));
+            expect(await collect(provider.stream({ prompt: 'Say hello' }))).toEqual(['Hel', 'lo']);
+            expect(sentBody(fetchMock).stream).toBe(true);
+        });
+
+        it('reports an event that is not JSON', async () => {
+            respondWith(streamOf('data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: <html>Bad gateway</html>\n\n'));
+            await expect(collect(provider.stream({ prompt: 'Say hello' }))).rejects.toMatchObject({
+                category: 'invalid-output',
+                message: 'AI server sent a response that is not JSON: <html>Bad gateway</html>',
+            });
+        });
+    });
+});
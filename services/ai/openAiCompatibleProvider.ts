@@ -0,0 +1,115 @@
+import type { AiFile, AiProvider, AiRequest, AiSchema } from './types';
+import { AiError, categoryForStatus } from './errors';
+
+interface OpenAiOptions {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+}
+
+// Strict JSON schema mode requires every object to list all its properties and forbid extras.
+const toJsonSchema = (schema: AiSchema): Record<string, unknown> => ({
+    type: schema.type,
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.enum ? { enum: schema.enum } : {}),
+    ...(schema.items ? { items: toJsonSchema(schema.items) } : {}),
+    ...(schema.properties
+        ? {
+            properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])),
+            required: Object.keys(schema.properties),
+            additionalProperties: false,
+        }
+        : {}),
+});
+
+const decodeText = (file: AiFile) => new TextDecoder().decode(Uint8Array.from(atob(file.data), c => c.charCodeAt(0)));
+
+const toContentParts = (prompt: string, files: AiFile[]) => {
+    const parts: Record<string, unknown>[] = [{ type: 'text', text: prompt }];
+    for (const file of files) {
+        if (file.mimeType.startsWith('image/')) {
+            parts.push({ type: 'image_url', image_url: { url: `data:${file.mimeType};base64,${file.data}` } });
+        } else if (file.mimeType.startsWith('text/') || file.mimeType === 'application/json') {
+            parts.push({ type: 'text', text: `--- ${file.name} ---\n${decodeText(file)}` });
+        } else {
+            // Chat completion APIs have no generic file input; say so rather than silently dropping it.
+            parts.push({ type: 'text', text: `(The file "${file.name}" of type ${file.mimeType} could not be shared with you.)` });
+        }
+    }
+    return parts;
+};
+
+// A body that isn't JSON (a proxy's error page, a garbled stream event) is malformed output, which gets retried.
+const parseJsonBody = (text: string) => {
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new AiError('invalid-output', `AI server sent a response that is not JSON: ${text.slice(0, 200)}`, { cause: error });
+    }
+};
+
+export const createOpenAiCompatibleProvider = ({ baseUrl, model, apiKey }: OpenAiOptions): AiProvider => {
+    if (!baseUrl || !model) {
+        throw new Error("The OpenAI-compatible provider needs a base URL and a model name.");
+    }
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const post = async ({ prompt, files = [], schema, signal }: AiRequest, stream: boolean) => {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                stream,
+                messages: [{ role: 'user', content: files.length > 0 ? toContentParts(prompt, files) : prompt }],
+                ...(schema
+                    ? { response_format: { type: 'json_schema', json_schema: { name: 'response', strict: true, schema: toJsonSchema(schema) } } }
+                    : {}),
+            }),
+            signal,
+        });
+        if (!response.ok) {
+            throw new AiError(categoryForStatus(response.status), `AI server responded with ${response.status} ${response.statusText}: ${await response.text()}`);
+        }
+        return response;
+    };
+
+    return {
+        id: 'openai-compatible',
+        async generate(request: AiRequest) {
+            const data = parseJsonBody(await (await post(request, false)).text());
+            const choice = data?.choices?.[0];
+            if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+                throw new AiError('safety', choice?.message?.refusal || 'The AI server filtered the response.');
+            }
+            return choice?.message?.content ?? '';
+        },
+        // Streamed completions arrive as server-sent events: `data: {...}` lines, ending with `data: [DONE]`.
+        async *stream(request: AiRequest) {
+            const response = await post(request, true);
+            if (!response.body) throw new AiError('network', "AI server did not return a response stream.");
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffered = '';
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffered += decoder.decode(value, { stream: true });
+                const lines = buffered.split('\n');
+                buffered = lines.pop() ?? '';
+                for (const line of lines) {
+                    const data = line.trim().replace(/^data:\s*/, '');
+                    if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+                    const choice = parseJsonBody(data)?.choices?.[0];
+                    if (choice?.finish_reason === 'content_filter') {
+                        throw new AiError('safety', 'The AI server filtered the response.');
+                    }
+                    if (choice?.delta?.content) yield choice.delta.content as string;
+                }
+            }
+        },
+    };
+};
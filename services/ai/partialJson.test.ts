@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { readPartialString } from './partialJson';
+
+describe('readPartialString', () => {
+    it('reads a string that is still streaming in', () => {
+        expect(readPartialString('{"summary": "The team shipp', 'summary')).toBe('The team shipp');
+    });
+
+    it('stops at the closing quote and decodes escapes', () => {
+        expect(readPartialString('{"summary":"Said \\"hi\\"\\nthen \\u00e9","actionItems":[]}', 'summary')).toBe('Said "hi"\nthen é');
+    });
+
+    it('leaves out an escape that has not fully arrived', () => {
+        expect(readPartialString('{"summary": "Caf\\u00', 'summary')).toBe('Caf');
+        expect(readPartialString('{"summary": "Line\\', 'summary')).toBe('Line');
+    });
+
+    it('is empty until the field starts', () => {
+        expect(readPartialString('{"summ', 'summary')).toBe('');
+    });
+});
@@ -0,0 +1,29 @@
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+// Reads a string property out of JSON that may still be streaming in, e.g. `{"summary": "The team shipp`,
+// so structured responses can be shown while they arrive.
+export const readPartialString = (json: string, field: string): string => {
+    const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+    if (!match) return '';
+    let result = '';
+    for (let i = match.index + match[0].length; i < json.length; i++) {
+        const char = json[i];
+        if (char === '"') break;
+        if (char !== '\\') {
+            result += char;
+            continue;
+        }
+        const next = json[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+            const hex = json.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            result += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+        } else {
+            result += ESCAPES[next] ?? next;
+            i += 1;
+        }
+    }
+    return result;
+};
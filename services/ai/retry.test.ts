@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AiError } from './errors';
+import { withRetry } from './retry';
+
+describe('withRetry', () => {
+    it('retries retryable failures and reports each retry', async () => {
+        const attempt = vi.fn()
+            .mockRejectedValueOnce(new AiError('quota', 'Too many requests'))
+            .mockRejectedValueOnce(new AiError('network', 'fetch failed'))
+            .mockResolvedValue('ok');
+        const onRetry = vi.fn();
+
+        await expect(withRetry(attempt, { baseDelayMs: 0, onRetry })).resolves.toBe('ok');
+        expect(attempt).toHaveBeenCalledTimes(3);
+        expect(onRetry.mock.calls.map(([error, retry]) => [error.category, retry])).toEqual([['quota', 1], ['network', 2]]);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+        const attempt = vi.fn().mockRejectedValue(new AiError('network', 'fetch failed'));
+
+        await expect(withRetry(attempt, { baseDelayMs: 0, retries: 1 })).rejects.toMatchObject({ category: 'network' });
+        expect(attempt).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry failures that will not go away on their own', async () => {
+        const attempt = vi.fn().mockRejectedValue(new Error('Invalid API key'));
+        const onRetry = vi.fn();
+
+        await expect(withRetry(attempt, { baseDelayMs: 0, onRetry })).rejects.toMatchObject({ name: 'AiError', category: 'missing-key' });
+        expect(attempt).toHaveBeenCalledTimes(1);
+        expect(onRetry).not.toHaveBeenCalled();
+    });
+
+    it('passes cancellation through without retrying', async () => {
+        const abort = new DOMException('The AI request was cancelled.', 'AbortError');
+        const attempt = vi.fn().mockRejectedValue(abort);
+
+        await expect(withRetry(attempt, { baseDelayMs: 0 })).rejects.toBe(abort);
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting between retries when the signal aborts', async () => {
+        const controller = new AbortController();
+        const attempt = vi.fn().mockRejectedValue(new AiError('quota', 'Too many requests'));
+        const result = withRetry(attempt, { signal: controller.signal, baseDelayMs: 60_000, onRetry: () => controller.abort() });
+
+        await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,43 @@
+import { AiError, isAbortError, toAiError } from './errors';
+
+export interface RetryOptions {
+    signal?: AbortSignal;
+    retries?: number;
+    baseDelayMs?: number;
+    // Called before each retry, so the caller can tell the user why the answer is taking longer.
+    onRetry?: (error: AiError, retry: number) => void;
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 800;
+
+const abortError = () => new DOMException('The AI request was cancelled.', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs `attempt`, retrying transient failures with exponential backoff and jitter.
+// Cancellation is passed through untouched; every other failure comes out as an AiError.
+export const withRetry = async <T,>(attempt: () => Promise<T>, { signal, retries = DEFAULT_RETRIES, baseDelayMs = DEFAULT_BASE_DELAY_MS, onRetry }: RetryOptions = {}): Promise<T> => {
+    for (let tries = 0; ; tries++) {
+        try {
+            return await attempt();
+        } catch (error) {
+            if (signal?.aborted || isAbortError(error)) throw error;
+            const aiError: AiError = toAiError(error);
+            if (!aiError.retryable || tries >= retries) throw aiError;
+            onRetry?.(aiError, tries + 1);
+            await wait(baseDelayMs * 2 ** tries * (0.75 + Math.random() * 0.5), signal);
+        }
+    }
+};
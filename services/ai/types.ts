@@ -0,0 +1,41 @@
+export type AiSchemaType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+
+// A provider-neutral subset of JSON Schema that every backend can translate.
+export interface AiSchema {
+    type: AiSchemaType;
+    description?: string;
+    properties?: Record<string, AiSchema>;
+    items?: AiSchema;
+    required?: string[];
+    enum?: string[];
+}
+
+export interface AiFile {
+    name: string;
+    mimeType: string;
+    data: string; // base64 without the data URI prefix
+}
+
+export interface AiRequest {
+    prompt: string;
+    files?: AiFile[];
+    schema?: AiSchema; // when set, the provider must answer with JSON matching it
+    signal?: AbortSignal;
+}
+
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface AiProvider {
+    readonly id: AiProviderId;
+    generate(request: AiRequest): Promise<string>;
+    // Yields the response text in pieces as the model produces it.
+    stream(request: AiRequest): AsyncIterable<string>;
+}
+
+export interface AiSettings {
+    provider: AiProviderId;
+    geminiModel: string;
+    openAiBaseUrl: string;
+    openAiModel: string;
+    openAiApiKey: string;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { AiSchema } from './types';
+import { parseJsonResponse, schemaProblems } from './validation';
+
+const storySchema: AiSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        points: { type: 'integer' },
+        priority: { type: 'string', enum: ['low', 'high'] },
+    },
+    required: ['title', 'points'],
+};
+
+describe('schemaProblems', () => {
+    it('lists every mismatch with its path', () => {
+        expect(schemaProblems([{ title: 3, priority: 'urgent' }], { type: 'array', items: storySchema })).toEqual([
+            'response[0].title should be a string',
+            'response[0].points is missing',
+            'response[0].priority should be one of "low", "high"',
+        ]);
+    });
+
+    it('returns nothing for a matching value', () => {
+        expect(schemaProblems({ title: 'Login', points: 3 }, storySchema)).toEqual([]);
+    });
+});
+
+describe('parseJsonResponse', () => {
+    it('parses JSON wrapped in a markdown code fence', () => {
+        expect(parseJsonResponse('```json\n{"title":"Login","points":3}\n```', storySchema)).toEqual({ title: 'Login', points: 3 });
+    });
+
+    it('rejects malformed JSON as invalid output', () => {
+        expect(() => parseJsonResponse('{"title":', storySchema)).toThrow(expect.objectContaining({ category: 'invalid-output' }));
+    });
+
+    it('rejects answers that do not match the schema', () => {
+        expect(() => parseJsonResponse('{"title":"Login","points":"three"}', storySchema))
+            .toThrow(expect.objectContaining({ category: 'invalid-output', message: expect.stringContaining('response.points should be an integer') }));
+    });
+});
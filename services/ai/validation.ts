@@ -0,0 +1,56 @@
+import type { AiSchema } from './types';
+import { AiError } from './errors';
+
+const MAX_REPORTED_PROBLEMS = 5;
+
+const typeMatches = (value: unknown, schema: AiSchema) => {
+    switch (schema.type) {
+        case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'array': return Array.isArray(value);
+        case 'integer': return Number.isInteger(value);
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'string': return typeof value === 'string';
+        case 'boolean': return typeof value === 'boolean';
+    }
+};
+
+// Lists every way `value` fails to match `schema`; an empty list means it matches.
+export const schemaProblems = (value: unknown, schema: AiSchema, path = 'response'): string[] => {
+    if (!typeMatches(value, schema)) {
+        return [`${path} should be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}`];
+    }
+    if (schema.enum && !schema.enum.includes(value as string)) {
+        return [`${path} should be one of ${schema.enum.map(option => `"${option}"`).join(', ')}`];
+    }
+    if (schema.type === 'array' && schema.items) {
+        return (value as unknown[]).flatMap((item, index) => schemaProblems(item, schema.items!, `${path}[${index}]`));
+    }
+    if (schema.type === 'object' && schema.properties) {
+        const record = value as Record<string, unknown>;
+        return Object.entries(schema.properties).flatMap(([key, property]) => {
+            if (record[key] === undefined) {
+                return schema.required?.includes(key) ? [`${path}.${key} is missing`] : [];
+            }
+            return schemaProblems(record[key], property, `${path}.${key}`);
+        });
+    }
+    return [];
+};
+
+// Parses a model's JSON answer and checks it against the schema it was asked to follow.
+export const parseJsonResponse = <T,>(text: string, schema: AiSchema): T => {
+    let value: unknown;
+    try {
+        // Some models wrap JSON in a markdown code fence despite being asked not to.
+        value = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    } catch (error) {
+        throw new AiError('invalid-output', 'The AI returned malformed JSON.', { cause: error });
+    }
+    const problems = schemaProblems(value, schema);
+    if (problems.length > 0) {
+        const listed = problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ');
+        const more = problems.length > MAX_REPORTED_PROBLEMS ? ` (and ${problems.length - MAX_REPORTED_PROBLEMS} more)` : '';
+        throw new AiError('invalid-output', `The AI response did not match the expected format: ${listed}${more}.`);
+    }
+    return value as T;
+};
@@ -0,0 +1,370 @@
+import { getAiProvider, isAbortError, parseJsonResponse, readPartialString, withRetry } from './ai';
+import type { AiError, AiFile, AiRequest, AiSchema } from './ai';
+import type { AcceptanceCriterion, ActionItemStatus, Attachment, RetroFormat, RetroItem, Task } from '../types';
+import { FIBONACCI_SCALE, nearestFibonacci } from './estimationService';
+import type { PlanningCapacity } from './planningService';
+import { PRIORITY_LABELS } from '../constants';
+import { isAnalyzable, readAttachmentBase64 } from './attachmentService';
+
+export interface AiCallOptions {
+    signal?: AbortSignal;
+    // Called before a failed attempt is retried, with the reason it failed.
+    onRetry?: (error: AiError, retry: number) => void;
+}
+
+export interface StreamingOptions extends AiCallOptions {
+    // Called with the summary text received so far while the response streams in.
+    onProgress?: (partialSummary: string) => void;
+}
+
+// Streams when the caller wants progress, so the summary field can be shown before the JSON is complete.
+const requestText = async (request: AiRequest, onProgress?: (partialSummary: string) => void): Promise<string> => {
+    if (!onProgress) return getAiProvider().generate(request);
+    let text = '';
+    for await (const chunk of getAiProvider().stream(request)) {
+        text += chunk;
+        onProgress(readPartialString(text, 'summary'));
+    }
+    return text;
+};
+
+// Asks for JSON matching `schema` and validates the answer, retrying transient failures and malformed output.
+const generateJson = <T,>(request: AiRequest & { schema: AiSchema }, { onProgress, onRetry }: Omit<StreamingOptions, 'signal'> = {}): Promise<T> =>
+    withRetry(async () => parseJsonResponse<T>(await requestText(request, onProgress), request.schema), { signal: request.signal, onRetry });
+
+const acceptanceCriteriaSchema: AiSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            given: { type: 'string', description: "The precondition or context, without the leading 'Given'." },
+            when: { type: 'string', description: "The action or event, without the leading 'When'." },
+            then: { type: 'string', description: "The observable outcome, without the leading 'Then'." },
+        },
+        required: ["given", "when", "then"],
+    },
+    description: "Testable acceptance criteria in Given/When/Then form.",
+};
+
+const userStorySchema: AiSchema = {
+    type: 'object',
+    properties: {
+        title: {
+            type: 'string',
+            description: "A concise, descriptive title for the user story."
+        },
+        description: {
+            type: 'string',
+            description: "A detailed description of the user story from an end-user perspective, following the 'As a [user], I want [action], so that [benefit]' format."
+        },
+        points: {
+            type: 'integer',
+            description: "An estimated story point value (e.g., 1, 2, 3, 5, 8) based on complexity and effort."
+        },
+        acceptanceCriteria: acceptanceCriteriaSchema,
+    },
+    required: ["title", "description", "points", "acceptanceCriteria"],
+};
+
+export type DraftAcceptanceCriterion = Omit<AcceptanceCriterion, 'id'>;
+
+export interface GeneratedStory {
+    title: string;
+    description: string;
+    points: number;
+    acceptanceCriteria: DraftAcceptanceCriterion[];
+}
+
+// Output has already been validated against the schema; this only tidies it up and drops extra fields.
+const toAcceptanceCriteria = (criteria: DraftAcceptanceCriterion[]): DraftAcceptanceCriterion[] =>
+    criteria.map(({ given, when, then }) => ({ given: given.trim(), when: when.trim(), then: then.trim() }));
+
+const toGeneratedStory = (story: GeneratedStory): GeneratedStory => ({
+    title: story.title.trim(),
+    description: story.description.trim(),
+    points: nearestFibonacci(story.points),
+    acceptanceCriteria: toAcceptanceCriteria(story.acceptanceCriteria),
+});
+
+export const generateUserStories = async (featureIdea: string, { signal, onRetry }: AiCallOptions = {}): Promise<GeneratedStory[]> => {
+    try {
+        const stories = await generateJson<GeneratedStory[]>({
+            prompt: `Based on the high-level feature idea "${featureIdea}", generate a list of 3-5 detailed user stories for a scrum backlog.`,
+            schema: {
+                type: 'array',
+                items: userStorySchema
+            },
+            signal,
+        }, { onRetry });
+        return stories.map(toGeneratedStory);
+
+    } catch (error) {
+        if (!isAbortError(error)) console.error("Error generating user stories:", error);
+        throw error;
+    }
+};
+
+export const regenerateUserStory = async (featureIdea: string, rejected: GeneratedStory, otherStories: GeneratedStory[], { signal, onRetry }: AiCallOptions = {}): Promise<GeneratedStory> => {
+    const prompt = `
+        For the high-level feature idea "${featureIdea}", write one new detailed user story for a scrum backlog.
+        It replaces this rejected story, so take a different angle: "${rejected.title}" - ${rejected.description}
+        Do not overlap with these stories that are already planned:
+        ${otherStories.map(story => `- ${story.title}`).join('\n')}
+    `;
+
+    try {
+        return toGeneratedStory(await generateJson<GeneratedStory>({ prompt, schema: userStorySchema, signal }, { onRetry }));
+    } catch (error) {
+        if (!isAbortError(error)) console.error("Error regenerating user story:", error);
+        throw error;
+    }
+};
+
+export const draftAcceptanceCriteria = async (
+    title: string,
+    description: string,
+    existing: DraftAcceptanceCriterion[] = [],
+    { signal, onRetry }: AiCallOptions = {}
+): Promise<DraftAcceptanceCriterion[]> => {
+    const prompt = `
+        You are an experienced product owner. Write 3-5 testable acceptance criteria in Given/When/Then form for the user story titled "${title}".
+
+        Story description:
+        ${description || '(none)'}
+        ${existing.length > 0 ? `\nThe story already has these criteria, so only add ones that cover something new:\n${existing.map(c => `- Given ${c.given}, when ${c.when}, then ${c.then}`).join('\n')}` : ''}
+    `;
+
+    try {
+        return toAcceptanceCriteria(await generateJson<DraftAcceptanceCriterion[]>({ prompt, schema: acceptanceCriteriaSchema, signal }, { onRetry }));
+    } catch (error) {
+        if (!isAbortError(error)) console.error("Error drafting acceptance criteria:", error);
+        throw error;
+    }
+};
+
+const estimateSchema: AiSchema = {
+    type: 'object',
+    properties: {
+        points: {
+            type: 'integer',
+            description: `The suggested story points, one of ${FIBONACCI_SCALE.join(', ')}.`
+        },
+        rationale: {
+            type: 'string',
+            description: "Two or three sentences explaining the estimate by comparing the task to the most relevant reference stories."
+        },
+    },
+    required: ["points", "rationale"],
+};
+
+export interface EstimateSuggestion {
+    points: number;
+    rationale: string;
+}
+
+export const suggestEstimate = async (task: Pick<Task, 'title' | 'description'>, referenceTasks: Task[], { signal, onRetry }: AiCallOptions = {}): Promise<EstimateSuggestion> => {
+    const prompt = `
+        You are helping a scrum team estimate the user story "${task.title}" in story points on the Fibonacci scale (${FIBONACCI_SCALE.join(', ')}).
+
+        Story description:
+        ${task.description || '(none)'}
+
+        ${referenceTasks.length > 0
+            ? `Calibrate against these stories the team has already completed, with the points they were given:\n${referenceTasks.map(ref => `- [${ref.points} pts] ${ref.title}: ${ref.description}`).join('\n')}`
+            : 'The team has no completed stories to compare against yet, so estimate from the description alone.'}
+
+        Estimate relative to the reference stories rather than in hours.
+    `;
+
+    try {
+        const suggestion = await generateJson<EstimateSuggestion>({ prompt, schema: estimateSchema, signal }, { onRetry });
+        return { points: nearestFibonacci(suggestion.points), rationale: suggestion.rationale.trim() };
+    } catch (error) {
+        if (!isAbortError(error)) console.error("Error suggesting estimate:", error);
+        throw error;
+    }
+};
+
+const retroSummarySchema: AiSchema = {
+    type: 'object',
+    properties: {
+        summary: {
+            type: 'string',
+            description: "A brief paragraph summarizing the main themes of the retrospective."
+        },
+        actionItems: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    text: { type: 'string', description: "A specific, actionable improvement for the next sprint." },
+                    owner: { type: 'string', description: "Who should own the action (a role or name), or an empty string if unclear." },
+                },
+                required: ["text", "owner"],
+            },
+            description: "3-5 concrete action items, most important first."
+        },
+    },
+    required: ["summary", "actionItems"],
+};
+
+export interface RetroSummary {
+    summary: string;
+    actionItems: { text: string; owner?: string }[];
+}
+
+export const summarizeRetrospective = async (
+    format: RetroFormat,
+    items: RetroItem[],
+    previousActionItems: { text: string; status: ActionItemStatus }[] = [],
+    { signal, onProgress, onRetry }: StreamingOptions = {}
+): Promise<RetroSummary> => {
+    const sections = format.columns.map(column => {
+        const entries = items
+            .filter(item => item.columnId === column.id && item.text.trim())
+            .sort((a, b) => b.votes - a.votes)
+            .map(item => `- ${item.text.trim()}${item.votes > 0 ? ` (${item.votes} vote${item.votes === 1 ? '' : 's'})` : ''}`);
+        return `${column.title}\n${entries.length > 0 ? entries.join('\n') : '- (nothing noted)'}`;
+    });
+
+    const prompt = `
+        As a scrum master, analyze the following "${format.name}" retrospective feedback and provide a concise summary with clear, actionable items for the next sprint.
+        Items with more votes matter more to the team.
+
+        ${sections.join('\n\n')}
+        ${previousActionItems.length > 0 ? `\nAction items from the previous retrospective and where they stand:\n${previousActionItems.map(item => `- [${item.status}] ${item.text}`).join('\n')}\nCarry forward anything still open that remains relevant rather than duplicating it.` : ''}
+    `;
+
+    try {
+        const result = await generateJson<{ summary: string; actionItems: { text: string; owner: string }[] }>(
+            { prompt, schema: retroSummarySchema, signal },
+            { onProgress, onRetry }
+        );
+        return {
+            summary: result.summary.trim(),
+            actionItems: result.actionItems
+                .filter(item => item.text.trim())
+                .map(item => ({ text: item.text.trim(), owner: item.owner.trim() || undefined })),
+        };
+    } catch (error) {
+        if (!isAbortError(error)) console.error("Error summarizing retrospective:", error);
+        throw error;
+    }
+};
+
+const sprintPlanSchema = (taskIds: string[]): AiSchema => ({
+    type: 'object',
+    properties: {
+        summary: {
+            type: 'string',
+            description: "Two or three sentences on how the proposed commitment serves the sprint goal, and any capacity concerns."
+        },
+        selections: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    taskId: { type: 'string', enum: taskIds, description: "The id of a backlog task to pull into the sprint." },
+                    rationale: { type: 'string', description: "One sentence on how this task supports the sprint goal." },
+                },
+                required: ["taskId", "rationale"],
+            },
+            description: "The backlog tasks to commit to, in the order they should be worked on."
+        },
+    },
+    required: ["summary", "selections"],
+});
+
+export interface SprintPlanProposal {
+    summary: string;
+    selections: { taskId: string; rationale: string }[];
+}
+
+export const proposeSprintPlan = async (goal: string, backlog: Task[], planning: PlanningCapacity, { signal, onRetry }: AiCallOptions = {}): Promise<SprintPlanProposal> => {
+    if (backlog.length === 0) {
+        return { summary: "The backlog is empty, so there is nothing to plan.", selections: [] };
+    }
+
+    const capacityNote = planning.capacity !== undefined
+        ? `The team can take on about ${planning.capacity} points this sprint${planning.committedPoints > 0 ? `, ${planning.committedPoints} of which are already committed` : ''}. Do not exceed the remaining ${planning.remainingPoints} points unless the goal cannot be met otherwise, and say so in the summary if you do.`
+        : 'There is no velocity or capacity history yet, so propose a modest commitment.';
+
+    const prompt = `
+        You are a scrum master helping the team plan a sprint with the goal "${goal}".
+        ${capacityNote}
+        ${planning.velocity !== undefined ? `Recent rolling velocity: ${planning.velocity} points per sprint.` : ''}
+
+        Choose which of these backlog tasks to pull into the sprint. They are listed in backlog order, highest first, with their MoSCoW priority where set; prefer higher-priority work that supports the goal and leave "Won't have" items out.
+        ${backlog.map(task => `- [${task.id}] ${task.title} (${task.points ? `${task.points} pts` : 'unestimated'}${task.priority ? `, ${PRIORITY_LABELS[task.priority]}` : ''}): ${task.description}`).join('\n')}
+    `;
+
+    try {
+        // The schema's enum guarantees every id is a backlog task; models do sometimes repeat one.
+        const proposal = await generateJson<SprintPlanProposal>({ prompt, schema: sprintPlanSchema(backlog.map(task => task.id)), signal }, { onRetry });
+        const seen = new Set<string>();
+        const selections = proposal.selections
+            .filter(selection => {
+                if (seen.has(selection.taskId)) return false;
+                seen.add(selection.taskId);
+                return true;
+            })
+            .map(({ taskId, rationale }) => ({ taskId, rationale: rationale.trim() }));
+        return { summary: proposal.summary.trim(), selections };
+    } catch (error) {
+        if (!isAbortError(error)) console.error("Error proposing sprint plan:", error);
+        throw error;
+    }
+};
+
+const attachmentAnalysisSchema: AiSchema = {
+    type: 'object',
+    properties: {
+        summary: {
+            type: 'string',
+            description: "A concise summary of what the attached files contain and what they mean for the task."
+        },
+        subTasks: {
+            type: 'array',
+            items: { type: 'string' },
+            description: "An ordered list of short, actionable sub-tasks that make up a workflow for completing the task."
+        },
+    },
+    required: ["summary", "subTasks"],
+};
+
+export interface AttachmentAnalysis {
+    summary: string;
+    subTasks: string[];
+    skipped: string[]; // names of attachments the AI providers can't read, left out of the analysis
+}
+
+export const analyzeTaskAttachments = async (taskTitle: string, attachments: Attachment[], { signal, onProgress, onRetry }: StreamingOptions = {}): Promise<AttachmentAnalysis> => {
+    const skipped = attachments.filter(attachment => !isAnalyzable(attachment)).map(attachment => attachment.name);
+    const analyzable = attachments.filter(isAnalyzable);
+    if (analyzable.length === 0) {
+        return { summary: "No attachments that can be analyzed.", subTasks: [], skipped };
+    }
+
+    const prompt = `
+        You are an expert project manager. Analyze the attached file(s) for the task titled "${taskTitle}". 
+        Based on the content of the files, provide a concise summary and a suggested project workflow as a list of sub-tasks.
+    `;
+
+    const files: AiFile[] = await Promise.all(analyzable.map(async file => ({
+        name: file.name,
+        mimeType: file.type,
+        data: await readAttachmentBase64(file),
+    })));
+
+    try {
+        const analysis = await generateJson<AttachmentAnalysis>({ prompt, files, schema: attachmentAnalysisSchema, signal }, { onProgress, onRetry });
+        return {
+            summary: analysis.summary.trim(),
+            subTasks: analysis.subTasks.map(item => item.trim()).filter(Boolean),
+            skipped,
+        };
+    } catch (error) {
+        if (!isAbortError(error)) console.error("Error analyzing attachments:", error);
+        throw error;
+    }
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildCumulativeFlow, buildSprintReports } from './analyticsService';
+import { createTaskEvent } from './taskHistoryService';
+import type { Sprint, Task } from '../types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const START = new Date('2024-07-01T00:00:00.000Z');
+const at = (days: number) => new Date(START.getTime() + days * DAY_MS);
+
+const sprints: Sprint[] = [
+    { id: 'sprint-2', name: 'Sprint 2', startDate: at(4), endDate: at(8), goal: '', status: 'active' },
+    { id: 'sprint-1', name: 'Sprint 1', startDate: at(0), endDate: at(4), goal: '', status: 'closed', closedAt: at(4) },
+    { id: 'sprint-3', name: 'Sprint 3', startDate: at(8), endDate: at(12), goal: '', status: 'planned' },
+];
+
+const task = (id: string, history: Task['history']): Task => ({ id, column: 'todo', title: id, description: '', history });
+
+const tasks = [
+    task('finished', [
+        createTaskEvent('created', { to: 'todo', points: 5, sprintId: 'sprint-1' }, at(0)),
+        createTaskEvent('moved', { from: 'todo', to: 'blocked' }, at(1)),
+        createTaskEvent('moved', { from: 'blocked', to: 'in-progress' }, at(2)),
+        createTaskEvent('moved', { from: 'in-progress', to: 'done' }, at(3)),
+    ]),
+    task('rolled over', [
+        createTaskEvent('created', { to: 'todo', points: 3, sprintId: 'sprint-1' }, at(0)),
+        createTaskEvent('sprint-changed', { sprintId: 'sprint-2' }, at(4)),
+    ]),
+    task('added later', [createTaskEvent('created', { to: 'todo', points: 2, sprintId: 'sprint-2' }, at(5))]),
+];
+
+describe('buildSprintReports', () => {
+    const reports = buildSprintReports(tasks, sprints, at(6));
+
+    it('reports started sprints in order and skips planned ones', () => {
+        expect(reports.map(report => report.sprintId)).toEqual(['sprint-1', 'sprint-2']);
+    });
+
+    it('replays commitment, scope and completion from the task history', () => {
+        expect(reports[0]).toMatchObject({ committed: 8, scope: 8, completed: 5, carryOverPoints: 3, carryOverRate: 0.375, blockedDays: 1 });
+        expect(reports[1]).toMatchObject({ committed: 3, scope: 5, completed: 0, carryOverPoints: 5, blockedDays: 0 });
+    });
+
+    it('averages velocity over the recent sprints', () => {
+        expect(reports.map(report => report.rollingVelocity)).toEqual([5, 2.5]);
+    });
+});
+
+describe('buildCumulativeFlow', () => {
+    const columns = [{ id: 'todo' as const }, { id: 'in-progress' as const }, { id: 'blocked' as const }, { id: 'done' as const }];
+
+    it('counts tasks per column for each day up to today', () => {
+        expect(buildCumulativeFlow(tasks, sprints, columns, at(2.5))).toEqual([
+            { date: '2024-07-01', todo: 2, 'in-progress': 0, blocked: 0, done: 0 },
+            { date: '2024-07-02', todo: 1, 'in-progress': 0, blocked: 1, done: 0 },
+            { date: '2024-07-03', todo: 1, 'in-progress': 1, blocked: 0, done: 0 },
+        ]);
+    });
+
+    it('returns nothing without sprints', () => {
+        expect(buildCumulativeFlow(tasks, [], columns)).toEqual([]);
+    });
+});
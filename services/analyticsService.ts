@@ -0,0 +1,116 @@
+import type { ColumnId, Sprint, Task } from '../types';
+import { taskStateAt } from './taskHistoryService';
+import { sortSprints } from './sprintService';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const ROLLING_WINDOW = 3;
+const MAX_FLOW_DAYS = 120;
+
+export interface SprintReport {
+    sprintId: string;
+    name: string;
+    status: Sprint['status'];
+    committed: number;
+    completed: number;
+    scope: number;
+    rollingVelocity: number;
+    carryOverPoints: number;
+    carryOverRate: number; // 0..1 share of final scope left unfinished
+    blockedDays: number;
+}
+
+export interface FlowPoint {
+    date: string;
+    [columnId: ColumnId]: number | string;
+}
+
+interface TaskInterval {
+    start: number;
+    end: number;
+    column: ColumnId;
+    sprintId: string | null;
+}
+
+// Splits a task's history into the periods during which its column and sprint stayed the same.
+const taskIntervals = (task: Task, until: number): TaskInterval[] => {
+    const intervals: TaskInterval[] = [];
+    const changes = (task.history || []).map(event => new Date(event.at).getTime()).filter(time => time <= until);
+    for (let i = 0; i < changes.length; i++) {
+        const start = changes[i];
+        const end = i + 1 < changes.length ? changes[i + 1] : until;
+        const state = taskStateAt(task, start);
+        if (state && end > start) {
+            intervals.push({ start, end, column: state.column, sprintId: state.sprintId });
+        }
+    }
+    return intervals;
+};
+
+const sprintCutoff = (sprint: Sprint, now: number) =>
+    sprint.closedAt ? Math.min(now, sprint.closedAt.getTime() - 1) : Math.min(now, sprint.endDate.getTime());
+
+export const buildSprintReports = (tasks: Task[], sprints: Sprint[], now: Date = new Date()): SprintReport[] => {
+    const reported = sortSprints(sprints).filter(s => s.status !== 'planned');
+    const reports: SprintReport[] = [];
+
+    for (const sprint of reported) {
+        const start = sprint.startDate.getTime();
+        const cutoff = sprintCutoff(sprint, now.getTime());
+        let committed = 0;
+        let scope = 0;
+        let completed = 0;
+        let blockedMs = 0;
+
+        for (const task of tasks) {
+            const atStart = taskStateAt(task, start);
+            if (atStart && atStart.sprintId === sprint.id && atStart.column !== 'backlog') {
+                committed += atStart.points;
+            }
+            const atEnd = taskStateAt(task, cutoff);
+            if (atEnd && atEnd.sprintId === sprint.id && atEnd.column !== 'backlog') {
+                scope += atEnd.points;
+                if (atEnd.column === 'done') completed += atEnd.points;
+            }
+            for (const interval of taskIntervals(task, cutoff)) {
+                if (interval.column !== 'blocked' || interval.sprintId !== sprint.id) continue;
+                blockedMs += Math.max(0, Math.min(interval.end, cutoff) - Math.max(interval.start, start));
+            }
+        }
+
+        const window = [...reports.slice(-(ROLLING_WINDOW - 1)).map(r => r.completed), completed];
+        const carryOverPoints = scope - completed;
+        reports.push({
+            sprintId: sprint.id,
+            name: sprint.name,
+            status: sprint.status,
+            committed,
+            completed,
+            scope,
+            rollingVelocity: Math.round((window.reduce((sum, value) => sum + value, 0) / window.length) * 10) / 10,
+            carryOverPoints,
+            carryOverRate: scope > 0 ? carryOverPoints / scope : 0,
+            blockedDays: Math.round((blockedMs / DAY_MS) * 10) / 10,
+        });
+    }
+    return reports;
+};
+
+// Daily task counts per column from the first sprint's start until today (or the last sprint's end).
+export const buildCumulativeFlow = (tasks: Task[], sprints: Sprint[], columns: { id: ColumnId }[], now: Date = new Date()): FlowPoint[] => {
+    const ordered = sortSprints(sprints);
+    if (ordered.length === 0) return [];
+
+    const end = Math.min(now.getTime(), Math.max(...ordered.map(s => s.endDate.getTime())));
+    const start = Math.max(ordered[0].startDate.getTime(), end - MAX_FLOW_DAYS * DAY_MS);
+    const data: FlowPoint[] = [];
+
+    for (let time = start; time <= end; time += DAY_MS) {
+        const counts: Record<ColumnId, number> = Object.fromEntries(columns.map(column => [column.id, 0]));
+        for (const task of tasks) {
+            const state = taskStateAt(task, time);
+            if (state && state.column in counts) counts[state.column] += 1;
+        }
+        data.push({ date: new Date(time).toISOString().split('T')[0], ...counts });
+    }
+    return data;
+};
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkAttachmentFile, dataUrlSize, embedAttachments, fileTypeOf, formatFileSize, isAnalyzable, MAX_ATTACHMENT_BYTES, previewKindOf, pruneAttachmentBlobs, readAttachmentBase64, storeInlineAttachments, withoutInlineData } from './attachmentService';
+import { deleteBlobs, getBlob, listBlobIds, putBlob } from './blobStore';
+import type { Attachment, Task, Workspace } from '../types';
+
+vi.mock('./blobStore', () => ({
+    putBlob: vi.fn(async () => {}),
+    getBlob: vi.fn(async () => undefined),
+    listBlobIds: vi.fn(async () => []),
+    deleteBlobs: vi.fn(async () => {}),
+}));
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+// "hello" as a base64 data URL.
+const HELLO = 'data:text/plain;base64,aGVsbG8=';
+
+const attachment = (id: string, fields: Partial<Attachment> = {}): Attachment =>
+    ({ id, name: `${id}.txt`, type: 'text/plain', size: 5, ...fields });
+
+const task = (id: string, attachments: Attachment[]): Task =>
+    ({ id, column: 'todo', title: id, description: '', attachments });
+
+describe('checkAttachmentFile', () => {
+    it('accepts supported types, recognising them by extension when the browser reports none', () => {
+        expect(checkAttachmentFile({ name: 'notes.md', type: '', size: 10 })).toBeNull();
+        expect(fileTypeOf({ name: 'notes.MD', type: '' })).toBe('text/markdown');
+    });
+
+    it('rejects unsupported types and files over the size limit', () => {
+        expect(checkAttachmentFile({ name: 'setup.exe', type: 'application/x-msdownload', size: 10 })).toMatch(/not a supported file type/);
+        expect(checkAttachmentFile({ name: 'scan.pdf', type: 'application/pdf', size: MAX_ATTACHMENT_BYTES + 1 }))
+            .toBe('"scan.pdf" is 10.0 MB; attachments can be at most 10.0 MB.');
+    });
+});
+
+describe('formatFileSize', () => {
+    it('uses the largest sensible unit', () => {
+        expect(formatFileSize(512)).toBe('512 B');
+        expect(formatFileSize(2048)).toBe('2 KB');
+        expect(formatFileSize(1.5 * 1024 * 1024)).toBe('1.5 MB');
+    });
+});
+
+describe('attachment kinds', () => {
+    it('tell which attachments can be previewed or analysed', () => {
+        expect(previewKindOf(attachment('a', { type: 'image/gif' }))).toBe('image');
+        expect(previewKindOf(attachment('a', { type: 'application/json' }))).toBe('text');
+        expect(previewKindOf(attachment('a', { type: 'application/zip' }))).toBeNull();
+        expect(isAnalyzable(attachment('a', { type: 'image/gif' }))).toBe(false);
+        expect(isAnalyzable(attachment('a', { type: 'application/pdf' }))).toBe(true);
+    });
+});
+
+describe('dataUrlSize', () => {
+    it('counts the decoded bytes, without padding', () => {
+        expect(dataUrlSize(HELLO)).toBe(5);
+        expect(dataUrlSize('data:text/plain;base64,')).toBe(0);
+    });
+});
+
+describe('readAttachmentBase64', () => {
+    it('strips the data URL prefix from inline contents', async () => {
+        await expect(readAttachmentBase64(attachment('a', { data: HELLO }))).resolves.toBe('aGVsbG8=');
+    });
+
+    it('fails clearly when stored contents are missing', async () => {
+        await expect(readAttachmentBase64(attachment('a'))).rejects.toThrow('The contents of "a.txt" are missing from this browser\'s storage.');
+        expect(getBlob).toHaveBeenCalledWith('a');
+    });
+});
+
+describe('inline attachments', () => {
+    it('are moved into the blob store once, and then lose their inline data', async () => {
+        const inline = attachment('a', { data: HELLO });
+        const tasks = [task('task-1', [inline, attachment('b')]), task('task-2', [inline])];
+
+        const stored = await storeInlineAttachments(tasks);
+        expect([...stored]).toEqual(['a']);
+        expect(putBlob).toHaveBeenCalledTimes(1);
+        expect(withoutInlineData(tasks, stored).flatMap(t => t.attachments!.map(a => a.data))).toEqual([undefined, undefined, undefined]);
+    });
+
+    it('are kept inline in exports', async () => {
+        const workspace = { tasks: [task('task-1', [attachment('a', { data: HELLO })])], deletedTasks: [] } as unknown as Workspace;
+        const embedded = await embedAttachments(workspace);
+        expect(embedded.tasks[0].attachments![0].data).toBe(HELLO);
+    });
+});
+
+describe('pruneAttachmentBlobs', () => {
+    it('deletes stored contents no task refers to', async () => {
+        vi.mocked(listBlobIds).mockResolvedValue(['a', 'orphan']);
+        await pruneAttachmentBlobs([task('task-1', [attachment('a')])]);
+        expect(deleteBlobs).toHaveBeenCalledWith(['orphan']);
+    });
+});
@@ -0,0 +1,164 @@
+import type { Attachment, Task, Workspace } from '../types';
+import { deleteBlobs, getBlob, listBlobIds, putBlob } from './blobStore';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Types accepted for upload, with the extensions used when the browser reports no type (e.g. for .md files).
+const UPLOAD_TYPES: Record<string, string[]> = {
+    'image/png': ['png'],
+    'image/jpeg': ['jpg', 'jpeg'],
+    'image/gif': ['gif'],
+    'image/webp': ['webp'],
+    'application/pdf': ['pdf'],
+    'text/plain': ['txt', 'log'],
+    'text/markdown': ['md', 'markdown'],
+    'text/csv': ['csv'],
+    'application/json': ['json'],
+};
+
+// The subset the AI providers accept as file input; anything else is left out of an analysis.
+const ANALYZABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'application/pdf', 'text/plain', 'text/markdown', 'text/csv'];
+
+export type AttachmentPreviewKind = 'image' | 'pdf' | 'text';
+
+// Contents are kept apart per data source, so one source's board never cleans up another's files. The
+// board kept in this browser uses the bare attachment ids.
+let scope = '';
+
+export const setAttachmentScope = (next: string) => {
+    scope = next;
+};
+
+const blobKey = (id: string, inScope = scope) => (inScope ? `${inScope}/${id}` : id);
+
+const scopeOf = (key: string) => key.slice(0, Math.max(0, key.lastIndexOf('/')));
+
+export const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const fileTypeOf = (file: { name: string; type: string }) => {
+    if (file.type) return file.type;
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return Object.keys(UPLOAD_TYPES).find(type => UPLOAD_TYPES[type].includes(extension)) ?? '';
+};
+
+export const ACCEPTED_UPLOAD_TYPES = Object.entries(UPLOAD_TYPES)
+    .flatMap(([type, extensions]) => [type, ...extensions.map(extension => `.${extension}`)])
+    .join(',');
+
+// Why a file can't be attached, or null when it can.
+export const checkAttachmentFile = (file: { name: string; type: string; size: number }): string | null => {
+    if (!UPLOAD_TYPES[fileTypeOf(file)]) {
+        return `"${file.name}" is not a supported file type. Attach images, PDFs or text files (TXT, Markdown, CSV, JSON).`;
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+        return `"${file.name}" is ${formatFileSize(file.size)}; attachments can be at most ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`;
+    }
+    return null;
+};
+
+export const isAnalyzable = (attachment: Attachment) => ANALYZABLE_TYPES.includes(attachment.type);
+
+export const previewKindOf = (attachment: Attachment): AttachmentPreviewKind | null => {
+    if (attachment.type.startsWith('image/')) return 'image';
+    if (attachment.type === 'application/pdf') return 'pdf';
+    if (attachment.type.startsWith('text/') || attachment.type === 'application/json') return 'text';
+    return null;
+};
+
+export const createAttachmentId = () => `attachment-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+// Size of the decoded content of a base64 data URL.
+export const dataUrlSize = (dataUrl: string) => {
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    return Math.max(0, Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0));
+};
+
+const dataUrlToBlob = (dataUrl: string, type: string): Blob => {
+    const bytes = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    const buffer = new Uint8Array(bytes.length);
+    for (let i = 0; i < bytes.length; i++) buffer[i] = bytes.charCodeAt(i);
+    return new Blob([buffer], { type });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the attachment.'));
+    reader.readAsDataURL(blob);
+});
+
+// Stores a checked file in the blob store and returns the metadata kept on the task.
+export const storeAttachment = async (file: File): Promise<Attachment> => {
+    const attachment: Attachment = { id: createAttachmentId(), name: file.name, type: fileTypeOf(file), size: file.size };
+    await putBlob(blobKey(attachment.id), file);
+    return attachment;
+};
+
+// Attachments that are still inline (from old saves or imports) are read from their data URL. Files
+// added before contents were kept per data source are still under the bare id.
+export const loadAttachmentBlob = async (attachment: Attachment): Promise<Blob> => {
+    const blob = attachment.data
+        ? dataUrlToBlob(attachment.data, attachment.type)
+        : await getBlob(blobKey(attachment.id)) ?? (scope ? await getBlob(attachment.id) : undefined);
+    if (!blob) {
+        throw new Error(`The contents of "${attachment.name}" are missing from this browser's storage.`);
+    }
+    return blob;
+};
+
+// Base64 content without the data URI prefix, as the AI providers expect it.
+export const readAttachmentBase64 = async (attachment: Attachment): Promise<string> => {
+    const dataUrl = attachment.data ?? await blobToDataUrl(await loadAttachmentBlob(attachment));
+    return dataUrl.slice(dataUrl.indexOf(',') + 1);
+};
+
+const allAttachments = (tasks: Task[]) => tasks.flatMap(task => task.attachments || []);
+
+export const hasInlineAttachments = (tasks: Task[]) => allAttachments(tasks).some(attachment => attachment.data);
+
+// Moves inline contents into the blob store; resolves with the ids that can now drop their `data`.
+export const storeInlineAttachments = async (tasks: Task[]): Promise<Set<string>> => {
+    const stored = new Set<string>();
+    for (const attachment of allAttachments(tasks)) {
+        if (attachment.data && !stored.has(attachment.id)) {
+            await putBlob(blobKey(attachment.id), dataUrlToBlob(attachment.data, attachment.type));
+            stored.add(attachment.id);
+        }
+    }
+    return stored;
+};
+
+export const withoutInlineData = (tasks: Task[], storedIds: Set<string>): Task[] => tasks.map(task =>
+    task.attachments?.some(attachment => attachment.data && storedIds.has(attachment.id))
+        ? { ...task, attachments: task.attachments.map(attachment => storedIds.has(attachment.id) ? { ...attachment, data: undefined } : attachment) }
+        : task
+);
+
+// Exports carry attachment contents inline so they can be restored in another browser.
+export const embedAttachments = async (workspace: Workspace): Promise<Workspace> => {
+    const embed = (tasks: Task[]) => Promise.all(tasks.map(async task => task.attachments?.length
+        ? { ...task, attachments: await Promise.all(task.attachments.map(async attachment => ({ ...attachment, data: attachment.data ?? await blobToDataUrl(await loadAttachmentBlob(attachment)) }))) }
+        : task));
+    return { ...workspace, tasks: await embed(workspace.tasks), deletedTasks: await embed(workspace.deletedTasks) };
+};
+
+// Removes this data source's stored contents no task refers to any more, e.g. from removed attachments or
+// discarded edits.
+export const pruneAttachmentBlobs = async (tasks: Task[]) => {
+    const referenced = new Set(allAttachments(tasks).map(attachment => blobKey(attachment.id)));
+    const orphaned = (await listBlobIds()).filter(key => scopeOf(key) === scope && !referenced.has(key));
+    await deleteBlobs(orphaned);
+};
+
+// Gives a board that is copied to another data source its own copy of the attachment contents.
+export const copyAttachmentBlobs = async (tasks: Task[], toScope: string) => {
+    for (const attachment of allAttachments(tasks)) {
+        if (attachment.data) continue;
+        const blob = await loadAttachmentBlob(attachment).catch(() => undefined);
+        if (blob) await putBlob(blobKey(attachment.id, toScope), blob);
+    }
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { applyRanks, nextRank, orderAfterDrop, sortBacklog, sortByRank, taskAgeInDays } from './backlogService';
+import type { Task } from '../types';
+
+const NOW = new Date('2024-08-01T00:00:00.000Z');
+
+const task = (id: string, fields: Partial<Task> = {}): Task =>
+    ({ id, column: 'backlog', title: id, description: '', attachments: [], ...fields });
+
+const createdDaysAgo = (days: number): Partial<Task> => ({
+    history: [{ type: 'created', at: new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString(), to: 'backlog' }],
+});
+
+const ids = (tasks: Task[]) => tasks.map(t => t.id);
+
+describe('sortByRank', () => {
+    it('puts unranked tasks last, in their stored order', () => {
+        expect(ids(sortByRank([task('a'), task('b', { rank: 1 }), task('c'), task('d', { rank: 0 })]))).toEqual(['d', 'b', 'a', 'c']);
+    });
+});
+
+describe('nextRank', () => {
+    it('ranks a new task below every other one', () => {
+        expect(nextRank([task('a', { rank: 4 }), task('b'), task('c', { rank: 2 })])).toBe(5);
+        expect(nextRank([])).toBe(0);
+    });
+});
+
+describe('orderAfterDrop', () => {
+    const column = [task('a', { rank: 0 }), task('b', { rank: 1 }), task('c', { rank: 2 })];
+
+    it('moves a task just above the one it was dropped on', () => {
+        expect(orderAfterDrop(column, 'c', 'a')).toEqual(['c', 'a', 'b']);
+    });
+
+    it('moves a task to the bottom when dropped on the column itself', () => {
+        expect(orderAfterDrop(column, 'a')).toEqual(['b', 'c', 'a']);
+    });
+
+    it('adds a task coming from another column', () => {
+        expect(orderAfterDrop(column, 'x', 'b')).toEqual(['a', 'x', 'b', 'c']);
+    });
+});
+
+describe('applyRanks', () => {
+    it('renumbers only the tasks in the new order', () => {
+        const tasks = [task('a', { rank: 0 }), task('b', { rank: 1 }), task('other', { rank: 7 })];
+        applyRanks(tasks, ['b', 'a']);
+        expect(tasks.map(t => t.rank)).toEqual([1, 0, 7]);
+    });
+});
+
+describe('taskAgeInDays', () => {
+    it('counts whole days since the task was created', () => {
+        expect(taskAgeInDays(task('a', createdDaysAgo(3.5)), NOW)).toBe(3);
+        expect(taskAgeInDays(task('a'), NOW)).toBeUndefined();
+    });
+});
+
+describe('sortBacklog', () => {
+    const backlog = [
+        task('ranked-first', { rank: 0, priority: 'could', points: 3, ...createdDaysAgo(1) }),
+        task('must', { rank: 1, priority: 'must', ...createdDaysAgo(10) }),
+        task('no-priority', { rank: 2, points: 8, ...createdDaysAgo(5) }),
+        task('wont', { rank: 3, priority: 'wont', points: 1, ...createdDaysAgo(10) }),
+    ];
+
+    it('keeps the backlog order by default', () => {
+        expect(ids(sortBacklog(backlog, 'rank', NOW))).toEqual(['ranked-first', 'must', 'no-priority', 'wont']);
+    });
+
+    it('sorts by MoSCoW priority, with unprioritised tasks last', () => {
+        expect(ids(sortBacklog(backlog, 'priority', NOW))).toEqual(['must', 'ranked-first', 'wont', 'no-priority']);
+    });
+
+    it('sorts by points, largest first', () => {
+        expect(ids(sortBacklog(backlog, 'points', NOW))).toEqual(['no-priority', 'ranked-first', 'wont', 'must']);
+    });
+
+    it('sorts by age, oldest first, breaking ties by rank', () => {
+        expect(ids(sortBacklog(backlog, 'age', NOW))).toEqual(['must', 'wont', 'no-priority', 'ranked-first']);
+    });
+
+    it('lists unestimated tasks first', () => {
+        expect(ids(sortBacklog(backlog, 'needs-estimate', NOW))).toEqual(['must', 'ranked-first', 'no-priority', 'wont']);
+    });
+});
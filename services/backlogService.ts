@@ -0,0 +1,59 @@
+import type { Task, TaskPriority } from '../types';
+import { TASK_PRIORITIES } from '../constants';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type BacklogSortKey = 'rank' | 'priority' | 'points' | 'age' | 'needs-estimate';
+
+// Tasks created before ranks existed (or imported without one) sort after ranked ones, in their stored order.
+const rankOf = (task: Task) => task.rank ?? Number.MAX_SAFE_INTEGER;
+
+const priorityOrder = (priority?: TaskPriority) => priority ? TASK_PRIORITIES.indexOf(priority) : TASK_PRIORITIES.length;
+
+export const compareByRank = (a: Task, b: Task) => rankOf(a) - rankOf(b);
+
+export const sortByRank = (tasks: Task[]) => [...tasks].sort(compareByRank);
+
+// A rank that puts a new task below everything already on the board.
+export const nextRank = (tasks: Task[]) => tasks.reduce((max, task) => Math.max(max, task.rank ?? -1), -1) + 1;
+
+// The column's task ids in their new order after `taskId` is dropped just above `beforeTaskId` (or at the bottom).
+export const orderAfterDrop = (columnTasks: Task[], taskId: string, beforeTaskId?: string): string[] => {
+    const ids = sortByRank(columnTasks).map(task => task.id).filter(id => id !== taskId);
+    const index = beforeTaskId ? ids.indexOf(beforeTaskId) : -1;
+    ids.splice(index === -1 ? ids.length : index, 0, taskId);
+    return ids;
+};
+
+// Renumbers the given tasks (or immer drafts of them) to follow `orderedIds`.
+export const applyRanks = (tasks: Task[], orderedIds: string[]) => {
+    const positions = new Map(orderedIds.map((id, index) => [id, index]));
+    for (const task of tasks) {
+        const position = positions.get(task.id);
+        if (position !== undefined) task.rank = position;
+    }
+};
+
+export const taskCreatedAt = (task: Task): Date | undefined => {
+    const created = task.history?.find(event => event.type === 'created') ?? task.history?.[0];
+    return created ? new Date(created.at) : undefined;
+};
+
+export const taskAgeInDays = (task: Task, now: Date = new Date()): number | undefined => {
+    const created = taskCreatedAt(task);
+    return created ? Math.max(0, Math.floor((now.getTime() - created.getTime()) / DAY_MS)) : undefined;
+};
+
+export const needsEstimate = (task: Task) => !task.points;
+
+// Ties always fall back to the backlog rank so the list stays stable while refining.
+export const sortBacklog = (tasks: Task[], key: BacklogSortKey, now: Date = new Date()): Task[] => {
+    const byKey: Record<BacklogSortKey, (a: Task, b: Task) => number> = {
+        'rank': () => 0,
+        'priority': (a, b) => priorityOrder(a.priority) - priorityOrder(b.priority),
+        'points': (a, b) => (b.points || 0) - (a.points || 0),
+        'age': (a, b) => (taskAgeInDays(b, now) ?? 0) - (taskAgeInDays(a, now) ?? 0),
+        'needs-estimate': (a, b) => Number(needsEstimate(b)) - Number(needsEstimate(a)),
+    };
+    return [...tasks].sort((a, b) => byKey[key](a, b) || compareByRank(a, b));
+};
@@ -0,0 +1,49 @@
+// Attachment contents live in IndexedDB, keyed by attachment id, so the workspace saved to
+// localStorage only carries their metadata.
+
+const DB_NAME = 'scrum-sprint-runner';
+const DB_VERSION = 1;
+const STORE_NAME = 'attachments';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!database) {
+        database = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('This browser does not support IndexedDB, so attachments cannot be stored.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error('Could not open the attachment store.'));
+        });
+        // Let a later call try again instead of caching the failure.
+        database.catch(() => { database = null; });
+    }
+    return database;
+};
+
+const inTransaction = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = run(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request ? request.result : undefined as T);
+        transaction.onerror = () => reject(transaction.error ?? new Error('Attachment store request failed.'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('Attachment store request was aborted.'));
+    });
+};
+
+export const putBlob = (id: string, blob: Blob): Promise<void> =>
+    inTransaction<IDBValidKey>('readwrite', store => store.put(blob, id)).then(() => undefined);
+
+export const getBlob = (id: string): Promise<Blob | undefined> =>
+    inTransaction<Blob | undefined>('readonly', store => store.get(id));
+
+export const deleteBlobs = (ids: string[]): Promise<void> =>
+    ids.length === 0 ? Promise.resolve() : inTransaction('readwrite', store => { ids.forEach(id => store.delete(id)); });
+
+export const listBlobIds = (): Promise<string[]> =>
+    inTransaction<IDBValidKey[]>('readonly', store => store.getAllKeys()).then(keys => keys.map(String));
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { blockedAgeInDays, blockerFromHistory, buildDependencyIndex, dependencyIdsOf, isForwardMove, syncBlocker, unfinishedDependencies, wouldCreateCycle } from './blockerService';
+import { DEFAULT_BOARD_CONFIG } from '../constants';
+import type { Task } from '../types';
+
+const task = (id: string, fields: Partial<Task> = {}): Task =>
+    ({ id, column: 'todo', title: id, description: '', attachments: [], ...fields });
+
+const since = '2024-07-01T00:00:00.000Z';
+
+describe('blockerFromHistory', () => {
+    it('dates the blocker from the last move into the blocked column', () => {
+        const blocked = task('a', {
+            column: 'blocked',
+            history: [
+                { type: 'moved', at: '2024-06-01T00:00:00.000Z', from: 'todo', to: 'blocked' },
+                { type: 'moved', at: '2024-06-05T00:00:00.000Z', from: 'blocked', to: 'todo' },
+                { type: 'moved', at: since, from: 'todo', to: 'blocked' },
+            ],
+        });
+        expect(blockerFromHistory(blocked, 'Unknown')).toEqual({ reason: 'Unknown', since });
+    });
+});
+
+describe('syncBlocker', () => {
+    it('clears the blocker when a task leaves the blocked column', () => {
+        const unblocked = task('a', { blocker: { reason: 'Waiting', since } });
+        syncBlocker(unblocked, 'Unknown');
+        expect(unblocked.blocker).toBeUndefined();
+    });
+
+    it('keeps an existing blocker unless a new one is given', () => {
+        const blocked = task('a', { column: 'blocked', blocker: { reason: 'Waiting', since } });
+        syncBlocker(blocked, 'Unknown');
+        expect(blocked.blocker?.reason).toBe('Waiting');
+
+        syncBlocker(blocked, 'Unknown', { reason: 'Vendor', since });
+        expect(blocked.blocker?.reason).toBe('Vendor');
+    });
+
+    it('records the fallback reason for a blocked task without a blocker', () => {
+        const blocked = task('a', { column: 'blocked' });
+        syncBlocker(blocked, 'Unknown');
+        expect(blocked.blocker?.reason).toBe('Unknown');
+    });
+});
+
+describe('blockedAgeInDays', () => {
+    it('counts whole days since the task was blocked', () => {
+        expect(blockedAgeInDays({ reason: 'Waiting', since }, new Date('2024-07-04T12:00:00.000Z'))).toBe(3);
+    });
+});
+
+describe('dependencies', () => {
+    const api = task('api', { column: 'done' });
+    const schema = task('schema');
+    const login = task('login', { dependsOn: ['api', 'schema'], column: 'blocked', blocker: { reason: 'Schema', blockedByTaskId: 'schema', since } });
+    const tasks = [api, schema, login];
+
+    it('count a blocking task as a dependency, once', () => {
+        expect(dependencyIdsOf(login)).toEqual(['api', 'schema']);
+    });
+
+    it('are indexed in both directions', () => {
+        const index = buildDependencyIndex(tasks);
+        expect(index.get('login')?.blockedBy.map(t => t.id)).toEqual(['api', 'schema']);
+        expect(index.get('schema')?.blocks.map(t => t.id)).toEqual(['login']);
+    });
+
+    it('list only the unfinished ones', () => {
+        expect(unfinishedDependencies(login, tasks).map(t => t.id)).toEqual(['schema']);
+    });
+
+    it('detect a link that would close a cycle', () => {
+        expect(wouldCreateCycle('schema', 'login', tasks)).toBe(true);
+        expect(wouldCreateCycle('login', 'api', tasks)).toBe(false);
+    });
+});
+
+describe('isForwardMove', () => {
+    it('is true for moves further along the board, except into blocked', () => {
+        const { columns } = DEFAULT_BOARD_CONFIG;
+        expect(isForwardMove('todo', 'done', columns)).toBe(true);
+        expect(isForwardMove('done', 'todo', columns)).toBe(false);
+        expect(isForwardMove('todo', 'blocked', columns)).toBe(false);
+    });
+});
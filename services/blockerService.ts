@@ -0,0 +1,89 @@
+import type { BoardColumn, ColumnId, Task, TaskBlocker } from '../types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Blocked for this many days or more is flagged on the card.
+export const BLOCKED_AGE_WARNING_DAYS = 3;
+
+export interface TaskDependencies {
+    blockedBy: Task[];
+    blocks: Task[];
+}
+
+export const createBlocker = (details: Omit<TaskBlocker, 'since'>, at: Date = new Date()): TaskBlocker => ({
+    ...details,
+    since: at.toISOString(),
+});
+
+// For tasks that entered 'blocked' without a blocker: dated from the last move into the column.
+export const blockerFromHistory = (task: Task, reason: string): TaskBlocker => {
+    const entered = [...(task.history || [])].reverse().find(event => event.to === 'blocked');
+    return createBlocker({ reason }, entered ? new Date(entered.at) : new Date());
+};
+
+// Keeps a task (or an immer draft of one) consistent with its column: tasks in 'blocked' always
+// have a blocker, and it is cleared as soon as they leave.
+export const syncBlocker = (task: Task, fallbackReason: string, blocker?: TaskBlocker) => {
+    if (task.column !== 'blocked') {
+        delete task.blocker;
+    } else if (blocker) {
+        task.blocker = blocker;
+    } else if (!task.blocker) {
+        task.blocker = blockerFromHistory(task, fallbackReason);
+    }
+};
+
+export const blockedAgeInDays = (blocker: TaskBlocker, now: Date = new Date()) =>
+    Math.max(0, Math.floor((now.getTime() - new Date(blocker.since).getTime()) / DAY_MS));
+
+export const isFinished = (task: Task) => task.column === 'done';
+
+// A blocker that names another task counts as a dependency on it.
+export const dependencyIdsOf = (task: Task) =>
+    [...new Set([...(task.dependsOn || []), ...(task.blocker?.blockedByTaskId ? [task.blocker.blockedByTaskId] : [])])];
+
+// "Blocked by" links are stored on the dependent task; "blocks" is derived from them.
+export const buildDependencyIndex = (tasks: Task[]): Map<string, TaskDependencies> => {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const index = new Map<string, TaskDependencies>();
+    const entryFor = (id: string) => {
+        if (!index.has(id)) index.set(id, { blockedBy: [], blocks: [] });
+        return index.get(id)!;
+    };
+    for (const task of tasks) {
+        for (const dependencyId of dependencyIdsOf(task)) {
+            const dependency = byId.get(dependencyId);
+            if (!dependency) continue;
+            entryFor(task.id).blockedBy.push(dependency);
+            entryFor(dependency.id).blocks.push(task);
+        }
+    }
+    return index;
+};
+
+export const unfinishedDependencies = (task: Task, tasks: Task[]) => {
+    const ids = dependencyIdsOf(task);
+    return tasks.filter(candidate => ids.includes(candidate.id) && !isFinished(candidate));
+};
+
+// True when `dependencyId` already depends on `taskId`, directly or through other tasks.
+export const wouldCreateCycle = (taskId: string, dependencyId: string, tasks: Task[]) => {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const visited = new Set<string>();
+    const stack = [dependencyId];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (id === taskId) return true;
+        if (visited.has(id)) continue;
+        visited.add(id);
+        const task = byId.get(id);
+        if (task) stack.push(...dependencyIdsOf(task));
+    }
+    return false;
+};
+
+export const isForwardMove = (from: ColumnId, to: ColumnId, columns: BoardColumn[]) => {
+    const fromIndex = columns.findIndex(column => column.id === from);
+    const toIndex = columns.findIndex(column => column.id === to);
+    return to !== 'blocked' && fromIndex !== -1 && toIndex > fromIndex;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { availabilityFor, buildSprintCapacity, initialsFor } from './capacityService';
+import type { Task, Team } from '../types';
+
+const team: Team = {
+    pointsPerDay: 1.5,
+    members: [
+        { id: 'ada', name: 'Ada Lovelace', initials: 'AL', defaultAvailabilityDays: 8, availability: { 'sprint-2': 3 } },
+        { id: 'lin', name: 'Lin', initials: 'LI', defaultAvailabilityDays: 2 },
+    ],
+};
+
+const task = (id: string, points: number, assigneeId?: string): Task => ({ id, column: 'todo', title: id, description: '', points, assigneeId });
+
+describe('availabilityFor', () => {
+    it('prefers the days set for the sprint over the default', () => {
+        expect(availabilityFor(team.members[0], 'sprint-1')).toBe(8);
+        expect(availabilityFor(team.members[0], 'sprint-2')).toBe(3);
+    });
+});
+
+describe('initialsFor', () => {
+    it('takes the first letter of the first two names', () => {
+        expect(initialsFor('  grace brewster hopper ')).toBe('GB');
+        expect(initialsFor('Lin')).toBe('L');
+    });
+});
+
+describe('buildSprintCapacity', () => {
+    const capacity = buildSprintCapacity([task('a', 5, 'ada'), task('b', 5, 'lin'), task('c', 2), task('d', 1, 'gone')], team, 'sprint-2');
+
+    it('compares what each person committed to with their capacity', () => {
+        expect(capacity.members.map(({ member, ...rest }) => ({ id: member.id, ...rest }))).toEqual([
+            { id: 'ada', availabilityDays: 3, capacityPoints: 4.5, committedPoints: 5, isOverCommitted: true },
+            { id: 'lin', availabilityDays: 2, capacityPoints: 3, committedPoints: 5, isOverCommitted: true },
+        ]);
+    });
+
+    it('adds up the team and counts work without a known assignee separately', () => {
+        expect(capacity).toMatchObject({ totalCapacity: 7.5, totalCommitted: 10, unassignedPoints: 3 });
+    });
+});
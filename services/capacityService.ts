@@ -0,0 +1,42 @@
+import type { Task, Team, TeamMember } from '../types';
+
+export interface MemberCapacity {
+    member: TeamMember;
+    availabilityDays: number;
+    capacityPoints: number;
+    committedPoints: number;
+    isOverCommitted: boolean;
+}
+
+export interface SprintCapacity {
+    members: MemberCapacity[];
+    totalCapacity: number;
+    totalCommitted: number;
+    unassignedPoints: number;
+}
+
+export const availabilityFor = (member: TeamMember, sprintId: string) =>
+    member.availability?.[sprintId] ?? member.defaultAvailabilityDays;
+
+export const initialsFor = (name: string) =>
+    name.trim().split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+export const buildSprintCapacity = (sprintTasks: Task[], team: Team, sprintId: string): SprintCapacity => {
+    const members = team.members.map(member => {
+        const availabilityDays = availabilityFor(member, sprintId);
+        const capacityPoints = Math.round(availabilityDays * team.pointsPerDay * 10) / 10;
+        const committedPoints = sprintTasks
+            .filter(t => t.assigneeId === member.id)
+            .reduce((sum, task) => sum + (task.points || 0), 0);
+        return { member, availabilityDays, capacityPoints, committedPoints, isOverCommitted: committedPoints > capacityPoints };
+    });
+    const memberIds = new Set(team.members.map(m => m.id));
+    return {
+        members,
+        totalCapacity: members.reduce((sum, m) => sum + m.capacityPoints, 0),
+        totalCommitted: members.reduce((sum, m) => sum + m.committedPoints, 0),
+        unassignedPoints: sprintTasks
+            .filter(t => !t.assigneeId || !memberIds.has(t.assigneeId))
+            .reduce((sum, task) => sum + (task.points || 0), 0),
+    };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { buildTasksFromCsv, distinctStatuses, exportJiraCsv, exportTasksCsv, guessFieldMapping, guessStatusMapping, parseCsv, toCsv } from './csvService';
+import { DEFAULT_COLUMNS } from '../constants';
+import type { Sprint, Task } from '../types';
+
+describe('parseCsv', () => {
+    it('reads quoted values with commas, quotes and line breaks', () => {
+        expect(parseCsv('Title,Description\r\n"Login, SSO","Say ""hi""\nthen leave"\r\n').map(row => row.cells)).toEqual([
+            ['Title', 'Description'],
+            ['Login, SSO', 'Say "hi"\nthen leave'],
+        ]);
+    });
+
+    it('strips the byte-order mark', () => {
+        expect(parseCsv('\uFEFFTitle\nA')[0].cells).toEqual(['Title']);
+    });
+
+    it('drops blank lines but keeps the line each row starts on', () => {
+        const rows = parseCsv('Title,Points\n\nA,1\n"B\nwith two lines",2\n,\nC,3\n');
+        expect(rows.map(row => [row.line, row.cells[0]])).toEqual([[1, 'Title'], [3, 'A'], [4, 'B\nwith two lines'], [7, 'C']]);
+    });
+});
+
+describe('toCsv', () => {
+    it('quotes values that need it', () => {
+        expect(toCsv([['a,b', 'say "hi"', 3, undefined]])).toBe('"a,b","say ""hi""",3,');
+    });
+
+    it('keeps text that starts like a formula from running in a spreadsheet', () => {
+        expect(toCsv([['=HYPERLINK("x")', '+1', '-cmd', '@SUM(A1)', 'a=b']])).toBe(`"'=HYPERLINK(""x"")",'+1,'-cmd,'@SUM(A1),a=b`);
+    });
+});
+
+describe('exporting tasks', () => {
+    const sprints: Sprint[] = [{ id: 'sprint-1', name: 'Sprint 1', startDate: new Date(), endDate: new Date(), goal: '', status: 'active' }];
+    const tasks: Task[] = [{ id: 'task-1', column: 'in-progress', title: 'Login', description: '', points: 3, sprintId: 'sprint-1' }];
+
+    it('writes column titles and sprint names', () => {
+        expect(exportTasksCsv(tasks, DEFAULT_COLUMNS, sprints)).toBe(
+            'ID,Title,Description,Story Points,Status,Sprint\r\ntask-1,Login,,3,In Progress,Sprint 1'
+        );
+    });
+
+    it('writes the headers Jira expects', () => {
+        expect(exportJiraCsv(tasks, DEFAULT_COLUMNS, sprints).split('\r\n')).toEqual([
+            'Issue id,Issue Type,Summary,Description,Status,Custom field (Story Points),Sprint',
+            'task-1,Story,Login,,In Progress,3,Sprint 1',
+        ]);
+    });
+});
+
+describe('importing tasks', () => {
+    const [header, ...rows] = parseCsv('Summary,Custom field (Story Points),Status\nLogin,3,In Review\n,2,Done\nLogout,lots,Closed\n');
+    const mapping = guessFieldMapping(header.cells);
+
+    it('recognizes Jira headers', () => {
+        expect(mapping).toEqual({ title: 0, description: null, points: 1, status: 2 });
+    });
+
+    it('maps Jira statuses onto board columns', () => {
+        expect(guessStatusMapping(distinctStatuses(rows, mapping), DEFAULT_COLUMNS)).toEqual({
+            'In Review': 'in-progress',
+            'Done': 'done',
+            'Closed': 'done',
+        });
+    });
+
+    it('builds drafts and reports problems by line', () => {
+        const statusMapping = guessStatusMapping(distinctStatuses(rows, mapping), DEFAULT_COLUMNS);
+        expect(buildTasksFromCsv(rows, mapping, statusMapping)).toEqual({
+            drafts: [
+                { title: 'Login', description: '', points: 3, column: 'in-progress' },
+                { title: 'Logout', description: '', column: 'done' },
+            ],
+            problems: [
+                { item: 'Line 3', message: 'No title; row skipped.', severity: 'error' },
+                { item: 'Line 4', message: 'Invalid story points "lots" were left empty.', severity: 'warning' },
+            ],
+        });
+    });
+});
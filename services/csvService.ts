@@ -0,0 +1,181 @@
+import type { BoardColumn, ColumnId, Sprint, Task } from '../types';
+import type { ImportProblem } from './workspaceTransferService';
+
+export type CsvField = 'title' | 'description' | 'points' | 'status';
+export type CsvFieldMapping = Record<CsvField, number | null>; // header index per task field
+
+// A parsed row and the line of the file it starts on, so problems can point at the right place.
+export interface CsvRow {
+    line: number;
+    cells: string[];
+}
+
+export interface CsvTaskDraft {
+    title: string;
+    description: string;
+    points?: number;
+    column: ColumnId;
+}
+
+const FIELD_SYNONYMS: Record<CsvField, string[]> = {
+    title: ['title', 'summary', 'name', 'story'],
+    description: ['description', 'details', 'body'],
+    points: ['story points', 'points', 'custom field (story points)', 'estimate', 'story point estimate'],
+    status: ['status', 'column', 'state'],
+};
+
+// Common Jira workflow statuses and the default board column they correspond to.
+const JIRA_STATUS_COLUMNS: Record<string, ColumnId> = {
+    'backlog': 'backlog',
+    'open': 'backlog',
+    'new': 'backlog',
+    'to do': 'todo',
+    'selected for development': 'todo',
+    'in progress': 'in-progress',
+    'in review': 'in-progress',
+    'blocked': 'blocked',
+    'on hold': 'blocked',
+    'done': 'done',
+    'closed': 'done',
+    'resolved': 'done',
+};
+
+export const parseCsv = (text: string): CsvRow[] => {
+    const rows: CsvRow[] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                // Quoted values may span lines; count them so later rows keep their real line numbers.
+                if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push({ line: rowLine, cells: row });
+            row = [];
+            field = '';
+            rowLine = ++line;
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push({ line: rowLine, cells: row });
+    }
+    // Strip a spreadsheet's byte-order mark and drop blank lines, including a trailing newline.
+    if (rows.length > 0 && rows[0].cells.length > 0) rows[0].cells[0] = rows[0].cells[0].replace(/^\uFEFF/, '');
+    return rows.filter(r => r.cells.some(value => value.trim() !== ''));
+};
+
+const escapeCsvValue = (value: string | number | undefined) => {
+    // Spreadsheets run text starting with these characters as a formula; a leading quote keeps it text.
+    const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | undefined)[][]): string =>
+    rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+const columnTitle = (columns: BoardColumn[], id: ColumnId) => columns.find(c => c.id === id)?.title ?? id;
+const sprintName = (sprints: Sprint[], id?: string) => sprints.find(s => s.id === id)?.name ?? '';
+
+export const exportTasksCsv = (tasks: Task[], columns: BoardColumn[], sprints: Sprint[]): string => toCsv([
+    ['ID', 'Title', 'Description', 'Story Points', 'Status', 'Sprint'],
+    ...tasks.map(task => [task.id, task.title, task.description, task.points, columnTitle(columns, task.column), sprintName(sprints, task.sprintId)]),
+]);
+
+const JIRA_STATUS_NAMES: Record<ColumnId, string> = {
+    'backlog': 'Backlog',
+    'todo': 'To Do',
+    'in-progress': 'In Progress',
+    'blocked': 'Blocked',
+    'done': 'Done',
+};
+
+// Mirrors the column names Jira uses in its own CSV export, so the file can go through Jira's CSV importer.
+export const exportJiraCsv = (tasks: Task[], columns: BoardColumn[], sprints: Sprint[]): string => toCsv([
+    ['Issue id', 'Issue Type', 'Summary', 'Description', 'Status', 'Custom field (Story Points)', 'Sprint'],
+    ...tasks.map(task => [
+        task.id,
+        'Story',
+        task.title,
+        task.description,
+        JIRA_STATUS_NAMES[task.column] ?? columnTitle(columns, task.column),
+        task.points,
+        sprintName(sprints, task.sprintId),
+    ]),
+]);
+
+export const guessFieldMapping = (headers: string[]): CsvFieldMapping => {
+    const normalized = headers.map(h => h.trim().toLowerCase());
+    const find = (field: CsvField) => {
+        const index = normalized.findIndex(h => FIELD_SYNONYMS[field].includes(h));
+        return index === -1 ? null : index;
+    };
+    return { title: find('title'), description: find('description'), points: find('points'), status: find('status') };
+};
+
+export const guessStatusMapping = (statuses: string[], columns: BoardColumn[]): Record<string, ColumnId> =>
+    Object.fromEntries(statuses.map(status => {
+        const value = status.trim().toLowerCase();
+        const column = columns.find(c => c.id === value || c.title.toLowerCase() === value)
+            ?? columns.find(c => c.id === JIRA_STATUS_COLUMNS[value]);
+        return [status, column?.id ?? 'backlog'];
+    }));
+
+export const distinctStatuses = (rows: CsvRow[], mapping: CsvFieldMapping): string[] =>
+    mapping.status === null ? [] : [...new Set(rows.map(row => (row.cells[mapping.status as number] ?? '').trim()))];
+
+export const buildTasksFromCsv = (
+    rows: CsvRow[],
+    mapping: CsvFieldMapping,
+    statusMapping: Record<string, ColumnId>
+): { drafts: CsvTaskDraft[]; problems: ImportProblem[] } => {
+    const drafts: CsvTaskDraft[] = [];
+    const problems: ImportProblem[] = [];
+    const cell = (row: CsvRow, index: number | null) => (index === null ? '' : (row.cells[index] ?? '').trim());
+
+    rows.forEach(row => {
+        const item = `Line ${row.line}`;
+        const title = cell(row, mapping.title);
+        if (!title) {
+            problems.push({ item, message: 'No title; row skipped.', severity: 'error' });
+            return;
+        }
+        const draft: CsvTaskDraft = {
+            title,
+            description: cell(row, mapping.description),
+            column: statusMapping[cell(row, mapping.status)] ?? 'backlog',
+        };
+        const rawPoints = cell(row, mapping.points);
+        if (rawPoints) {
+            const points = Number(rawPoints);
+            if (isNaN(points) || points < 0) {
+                problems.push({ item, message: `Invalid story points "${rawPoints}" were left empty.`, severity: 'warning' });
+            } else {
+                draft.points = Math.round(points);
+            }
+        }
+        drafts.push(draft);
+    });
+    return { drafts, problems };
+};
@@ -0,0 +1,110 @@
+import type { Workspace } from '../../types';
+import { reviveWorkspace, WORKSPACE_SCHEMA_VERSION } from '../storageService';
+import type { StoredWorkspace } from '../storageService';
+import { validateWorkspace } from '../workspaceTransferService';
+import { sameValue } from '../sync/merge';
+import { rebaseWorkspace } from './rebase';
+import type { WorkspaceRepository } from './types';
+
+// How often a save is merged again when the board keeps changing on the server while it is sent.
+const MAX_SAVE_ATTEMPTS = 5;
+
+const request = async (url: string, init?: RequestInit): Promise<Response> => {
+    let response: Response;
+    try {
+        response = await fetch(url, init);
+    } catch (error) {
+        throw new Error(`Could not reach the board API at ${url}. Is \`npm run api-server\` running?`, { cause: error });
+    }
+    if (!response.ok && response.status !== 404 && response.status !== 409) {
+        const body = await response.json().catch(() => null);
+        throw new Error(`The board API answered ${response.status}${body?.error ? `: ${body.error}` : '.'}`);
+    }
+    return response;
+};
+
+export const createApiRepository = (baseUrl: string, token = ''): WorkspaceRepository => {
+    const base = baseUrl.replace(/\/+$/, '');
+    const url = `${base}/workspace`;
+    const authorization: Record<string, string> = token ? { 'Authorization': `Bearer ${token}` } : {};
+    // Saves are sent one at a time; changes made while one is in flight are coalesced into the next.
+    let saving: Promise<Workspace | null> | null = null;
+    let latest: Workspace | null = null;
+    // The board as the server has it (and its ETag), and the board the app handed in that produced it.
+    // They differ once changes made elsewhere were merged in, until the app has caught up.
+    let server: Workspace | null = null;
+    let revision: string | null = null;
+    let saved: Workspace | null = null;
+
+    const fetchBoard = async (): Promise<Workspace | null> => {
+        const response = await request(url, { headers: authorization });
+        if (response.status === 404) {
+            // Nothing saved on the server yet.
+            server = revision = null;
+            return null;
+        }
+        const stored = await response.json() as StoredWorkspace;
+        const { workspace, problems } = validateWorkspace(stored.version, stored.workspace);
+        if (!workspace) {
+            throw new Error(`The board on the server is unreadable: ${problems.map(problem => problem.message).join(' ')}`);
+        }
+        server = reviveWorkspace(workspace);
+        revision = response.headers.get('ETag');
+        return server;
+    };
+
+    const put = (workspace: Workspace) => request(url, {
+        method: 'PUT',
+        headers: { ...authorization, 'Content-Type': 'application/json', ...(revision ? { 'If-Match': revision } : {}) },
+        body: JSON.stringify({ version: WORKSPACE_SCHEMA_VERSION, workspace }),
+    });
+
+    // Resolves with the board as saved if it includes changes the app hasn't seen, otherwise null.
+    const push = async (workspace: Workspace): Promise<Workspace | null> => {
+        let next = server && saved && server !== saved ? rebaseWorkspace(saved, workspace, server) : workspace;
+        for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+            const base = server;
+            const response = await put(next);
+            if (response.status !== 409) {
+                const merged = next !== workspace && !sameValue(next, workspace);
+                server = merged ? next : workspace;
+                revision = response.headers.get('ETag');
+                saved = workspace;
+                return merged ? next : null;
+            }
+            // Someone changed the board through the API since it was loaded: apply this save on top of it.
+            const remote = await fetchBoard();
+            if (remote) next = rebaseWorkspace(base ?? remote, next, remote);
+        }
+        throw new Error('The board on the server keeps changing, so your changes could not be merged into it. Try again in a moment.');
+    };
+
+    return {
+        id: 'api',
+        attachmentScope: `api:${base}`,
+        load: async () => {
+            const workspace = await fetchBoard();
+            saved = workspace;
+            return workspace;
+        },
+        save: (workspace) => {
+            latest = workspace;
+            if (!saving) {
+                saving = (async () => {
+                    let merged: Workspace | null = null;
+                    try {
+                        while (latest) {
+                            const next = latest;
+                            latest = null;
+                            merged = await push(next);
+                        }
+                        return merged;
+                    } finally {
+                        saving = null;
+                    }
+                })();
+            }
+            return saving;
+        },
+    };
+};
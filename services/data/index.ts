@@ -0,0 +1,36 @@
+import { createApiRepository } from './apiRepository';
+import { createLocalRepository } from './localRepository';
+import { DEFAULT_API_PORT } from './types';
+import type { DataSourceId, DataSourceSettings, WorkspaceRepository } from './types';
+
+export type { DataSourceId, DataSourceSettings, WorkspaceRepository } from './types';
+export { DEFAULT_API_PORT } from './types';
+export { rebaseWorkspace } from './rebase';
+
+const SETTINGS_KEY = 'scrum-sprint-runner:data-source';
+
+export const DATA_SOURCE_LABELS: Record<DataSourceId, string> = {
+    'local': 'This browser',
+    'api': 'Board API server',
+};
+
+export const DEFAULT_DATA_SOURCE_SETTINGS: DataSourceSettings = {
+    source: 'local',
+    apiUrl: `http://${typeof location !== 'undefined' && location.hostname ? location.hostname : 'localhost'}:${DEFAULT_API_PORT}/api`,
+    apiToken: '',
+};
+
+export const getDataSourceSettings = (): DataSourceSettings => {
+    try {
+        return { ...DEFAULT_DATA_SOURCE_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+    } catch {
+        return DEFAULT_DATA_SOURCE_SETTINGS;
+    }
+};
+
+export const setDataSourceSettings = (settings: DataSourceSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const createWorkspaceRepository = (settings: DataSourceSettings): WorkspaceRepository =>
+    settings.source === 'api' ? createApiRepository(settings.apiUrl, settings.apiToken) : createLocalRepository();
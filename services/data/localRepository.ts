@@ -0,0 +1,14 @@
+import { loadWorkspace, saveWorkspace } from '../storageService';
+import type { WorkspaceRepository } from './types';
+
+export const createLocalRepository = (): WorkspaceRepository => ({
+    id: 'local',
+    attachmentScope: '',
+    load: async () => loadWorkspace(),
+    save: async (workspace) => {
+        if (!saveWorkspace(workspace)) {
+            throw new Error('Your board could not be saved to browser storage (it may be full).');
+        }
+        return null;
+    },
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { rebaseWorkspace } from './rebase';
+import { DEFAULT_BOARD_CONFIG } from '../../constants';
+import type { Sprint, Task, Workspace } from '../../types';
+
+const task = (id: string, fields: Partial<Task> = {}): Task =>
+    ({ id, column: 'todo', title: id, description: '', sprintId: 'sprint-1', ...fields });
+
+const sprint = (id: string, fields: Partial<Sprint> = {}): Sprint => ({
+    id,
+    name: id,
+    startDate: new Date('2024-07-01T00:00:00.000Z'),
+    endDate: new Date('2024-07-15T00:00:00.000Z'),
+    goal: '',
+    status: 'active',
+    ...fields,
+});
+
+const workspace = (fields: Partial<Workspace> = {}): Workspace => ({
+    tasks: [task('task-1'), task('task-2')],
+    deletedTasks: [],
+    sprints: [sprint('sprint-1')],
+    selectedSprintId: 'sprint-1',
+    board: DEFAULT_BOARD_CONFIG,
+    team: { members: [], pointsPerDay: 1 },
+    retrospectives: [],
+    savedViews: [],
+    ...fields,
+});
+
+describe('rebaseWorkspace', () => {
+    it('keeps the changes each side made to different tasks and fields', () => {
+        const base = workspace();
+        const local = workspace({ tasks: [task('task-1', { title: 'Mine' }), task('task-2')] });
+        const remote = workspace({ tasks: [task('task-1', { points: 5 }), task('task-2', { column: 'done' })] });
+        expect(rebaseWorkspace(base, local, remote).tasks).toEqual([
+            task('task-1', { title: 'Mine', points: 5 }),
+            task('task-2', { column: 'done' }),
+        ]);
+    });
+
+    it('lets the local side win a field both changed', () => {
+        const base = workspace();
+        const local = workspace({ tasks: [task('task-1', { title: 'Mine' }), task('task-2')] });
+        const remote = workspace({ tasks: [task('task-1', { title: 'Theirs' }), task('task-2')] });
+        expect(rebaseWorkspace(base, local, remote).tasks[0].title).toBe('Mine');
+    });
+
+    it('keeps records added and removed on either side', () => {
+        const base = workspace({ sprints: [sprint('sprint-1'), sprint('sprint-2')] });
+        const local = workspace({ sprints: [sprint('sprint-1'), sprint('sprint-3')] });
+        const remote = workspace({ sprints: [sprint('sprint-1'), sprint('sprint-2'), sprint('sprint-4')] });
+        expect(rebaseWorkspace(base, local, remote).sprints.map(s => s.id)).toEqual(['sprint-1', 'sprint-3', 'sprint-4']);
+    });
+
+    it('takes a record whole from whichever side changed it', () => {
+        const base = workspace();
+        const local = workspace({ sprints: [sprint('sprint-1', { goal: 'Ship it' })] });
+        const remote = workspace({ sprints: [sprint('sprint-1', { name: 'Renamed' })] });
+        expect(rebaseWorkspace(base, local, remote).sprints[0]).toEqual(sprint('sprint-1', { goal: 'Ship it' }));
+        expect(rebaseWorkspace(base, base, remote).sprints[0]).toEqual(sprint('sprint-1', { name: 'Renamed' }));
+    });
+
+    it('takes the board settings from the side that changed them', () => {
+        const base = workspace();
+        const remote = workspace({ team: { members: [], pointsPerDay: 2 } });
+        expect(rebaseWorkspace(base, base, remote).team.pointsPerDay).toBe(2);
+        expect(rebaseWorkspace(base, workspace({ team: { members: [], pointsPerDay: 3 } }), remote).team.pointsPerDay).toBe(3);
+    });
+
+    it('falls back to the remote selected sprint when the local one is gone', () => {
+        const base = workspace({ sprints: [sprint('sprint-1'), sprint('sprint-2')] });
+        const local = workspace({ sprints: [sprint('sprint-1'), sprint('sprint-2')], selectedSprintId: 'sprint-2' });
+        const remote = workspace({ sprints: [sprint('sprint-1')] });
+        expect(rebaseWorkspace(base, local, remote).selectedSprintId).toBe('sprint-1');
+    });
+});
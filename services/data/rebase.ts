@@ -0,0 +1,42 @@
+import type { Workspace } from '../../types';
+import { reconcileTasks, sameValue } from '../sync/merge';
+
+// Records other than tasks are taken whole: whichever side changed one wins, and removals and additions
+// on either side are kept.
+const rebaseRecords = <T extends { id: string },>(base: T[], local: T[], remote: T[]): T[] => {
+    const baseById = new Map(base.map(record => [record.id, record]));
+    const remoteById = new Map(remote.map(record => [record.id, record]));
+    const localIds = new Set(local.map(record => record.id));
+    const rebased: T[] = [];
+    for (const record of local) {
+        const theirs = remoteById.get(record.id);
+        const before = baseById.get(record.id);
+        if (theirs) {
+            rebased.push(before && sameValue(record, before) ? theirs : record);
+        } else if (!before) {
+            rebased.push(record);
+        }
+    }
+    rebased.push(...remote.filter(record => !localIds.has(record.id) && !baseById.has(record.id)));
+    return rebased;
+};
+
+const rebaseValue = <T,>(base: T, local: T, remote: T): T => (sameValue(local, base) ? remote : local);
+
+// Replays the changes made between `base` and `local` on top of `remote`, another edit of `base` made
+// elsewhere. Tasks are merged field by field; when both sides changed the same thing, `local` wins.
+export const rebaseWorkspace = (base: Workspace, local: Workspace, remote: Workspace): Workspace => {
+    const known = new Map(base.tasks.map(task => [task.id, task]));
+    const sprints = rebaseRecords(base.sprints, local.sprints, remote.sprints);
+    return {
+        // reconcileTasks lets its last argument win conflicts, so the sides are swapped.
+        tasks: reconcileTasks(remote.tasks, known, local.tasks),
+        deletedTasks: rebaseRecords(base.deletedTasks, local.deletedTasks, remote.deletedTasks),
+        sprints,
+        selectedSprintId: sprints.some(sprint => sprint.id === local.selectedSprintId) ? local.selectedSprintId : remote.selectedSprintId,
+        board: rebaseValue(base.board, local.board, remote.board),
+        team: rebaseValue(base.team, local.team, remote.team),
+        retrospectives: rebaseRecords(base.retrospectives, local.retrospectives, remote.retrospectives),
+        savedViews: rebaseRecords(base.savedViews, local.savedViews, remote.savedViews),
+    };
+};
@@ -0,0 +1,20 @@
+import type { Workspace } from '../../types';
+
+export const DEFAULT_API_PORT = 4001;
+
+export type DataSourceId = 'local' | 'api';
+
+export interface DataSourceSettings {
+    source: DataSourceId;
+    apiUrl: string; // base URL of the REST API, ending in /api
+    apiToken: string; // sent as a bearer token when the server was started with API_TOKEN; empty if not
+}
+
+// Where the board is loaded from and saved to. `save` rejects with a message fit for the user, and
+// resolves with the board as stored when changes made elsewhere had to be merged into it.
+export interface WorkspaceRepository {
+    readonly id: DataSourceId;
+    readonly attachmentScope: string; // keeps this source's attachment contents apart in the browser
+    load(): Promise<Workspace | null>;
+    save(workspace: Workspace): Promise<Workspace | null>;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { describeInconsistency, findEstimateInconsistencies, nearestFibonacci, selectReferenceTasks } from './estimationService';
+import type { Task } from '../types';
+
+const task = (id: string, title: string, column: Task['column'], points?: number): Task => ({ id, column, title, description: '', points });
+
+describe('nearestFibonacci', () => {
+    it('snaps to the closest point on the scale', () => {
+        expect([0, 4, 6, 7, 11, 40].map(nearestFibonacci)).toEqual([1, 3, 5, 8, 13, 21]);
+    });
+});
+
+describe('selectReferenceTasks', () => {
+    it('picks similar finished stories first, then spreads over the scale', () => {
+        const tasks = [
+            task('current', 'Export sprint report as PDF', 'backlog', 3),
+            task('similar', 'Export sprint report as CSV', 'done', 5),
+            task('small', 'Fix typo', 'done', 1),
+            task('large', 'Rewrite sync engine', 'done', 13),
+            task('unfinished', 'Export velocity report', 'todo', 8),
+            task('unestimated', 'Export burndown report', 'done'),
+        ];
+        expect(selectReferenceTasks(tasks[0], tasks).map(t => t.id)).toEqual(['similar', 'small', 'large']);
+    });
+});
+
+describe('findEstimateInconsistencies', () => {
+    const done = [
+        task('done-1', 'Export sprint report as CSV', 'done', 3),
+        task('done-2', 'Export sprint report as JSON', 'done', 3),
+    ];
+
+    it('flags backlog stories estimated far from similar finished work', () => {
+        const inconsistencies = findEstimateInconsistencies([...done, task('big', 'Export sprint report as PDF', 'backlog', 13)]);
+        expect(inconsistencies.get('big')).toMatchObject({ typicalPoints: 3, similarTasks: done });
+        expect(describeInconsistency(inconsistencies.get('big')!))
+            .toBe('Similar finished work was usually 3 points: "Export sprint report as CSV" (3), "Export sprint report as JSON" (3)');
+    });
+
+    it('accepts estimates one step away', () => {
+        expect(findEstimateInconsistencies([...done, task('close', 'Export sprint report as PDF', 'backlog', 5)]).size).toBe(0);
+    });
+});
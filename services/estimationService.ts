@@ -0,0 +1,78 @@
+import type { Task } from '../types';
+import { findSimilarTasks } from './similarityService';
+
+export const FIBONACCI_SCALE = [1, 2, 3, 5, 8, 13, 21];
+
+const MAX_REFERENCE_TASKS = 12;
+const SIMILARITY_THRESHOLD = 0.3;
+// Estimates this many steps apart on the Fibonacci scale are treated as inconsistent.
+const INCONSISTENCY_STEPS = 2;
+
+export const fibonacciStep = (points: number) => {
+    let nearest = 0;
+    FIBONACCI_SCALE.forEach((value, index) => {
+        if (Math.abs(value - points) < Math.abs(FIBONACCI_SCALE[nearest] - points)) nearest = index;
+    });
+    return nearest;
+};
+
+export const nearestFibonacci = (points: number) => FIBONACCI_SCALE[fibonacciStep(points)];
+
+const isEstimatedDoneTask = (task: Task) => task.column === 'done' && typeof task.points === 'number' && task.points > 0;
+
+// The most similar finished stories first, then an even spread over the point scale so the model sees our whole range.
+export const selectReferenceTasks = (task: Pick<Task, 'id' | 'title' | 'description'>, tasks: Task[]): Task[] => {
+    const candidates = tasks.filter(candidate => candidate.id !== task.id && isEstimatedDoneTask(candidate));
+    const similar = findSimilarTasks(task.title, task.description, candidates, SIMILARITY_THRESHOLD)
+        .slice(0, MAX_REFERENCE_TASKS / 2)
+        .map(match => match.task);
+
+    const selected = new Set(similar);
+    const byStep = new Map<number, Task[]>();
+    candidates.filter(candidate => !selected.has(candidate)).forEach(candidate => {
+        const step = fibonacciStep(candidate.points!);
+        byStep.set(step, [...(byStep.get(step) || []), candidate]);
+    });
+    const buckets = [...byStep.entries()].sort(([a], [b]) => a - b).map(([, bucket]) => bucket);
+    for (let round = 0; selected.size < MAX_REFERENCE_TASKS && buckets.some(bucket => bucket.length > round); round++) {
+        buckets.forEach(bucket => {
+            if (bucket[round] && selected.size < MAX_REFERENCE_TASKS) selected.add(bucket[round]);
+        });
+    }
+    return [...selected];
+};
+
+export interface EstimateInconsistency {
+    taskId: string;
+    typicalPoints: number;
+    similarTasks: Task[];
+}
+
+export const describeInconsistency = (inconsistency: EstimateInconsistency) =>
+    `Similar finished work was usually ${inconsistency.typicalPoints} points: ${inconsistency.similarTasks.map(t => `"${t.title}" (${t.points})`).join(', ')}`;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const findEstimateInconsistencies = (tasks: Task[]): Map<string, EstimateInconsistency> => {
+    const doneTasks = tasks.filter(isEstimatedDoneTask);
+    const inconsistencies = new Map<string, EstimateInconsistency>();
+    if (doneTasks.length === 0) return inconsistencies;
+
+    tasks
+        .filter(task => task.column === 'backlog' && typeof task.points === 'number' && task.points > 0)
+        .forEach(task => {
+            const similarTasks = findSimilarTasks(task.title, task.description, doneTasks, SIMILARITY_THRESHOLD)
+                .slice(0, 5)
+                .map(match => match.task);
+            if (similarTasks.length === 0) return;
+            const typicalPoints = nearestFibonacci(median(similarTasks.map(similar => similar.points!)));
+            if (Math.abs(fibonacciStep(task.points!) - fibonacciStep(typicalPoints)) >= INCONSISTENCY_STEPS) {
+                inconsistencies.set(task.id, { taskId: task.id, typicalPoints, similarTasks });
+            }
+        });
+    return inconsistencies;
+};
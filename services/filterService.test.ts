@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { collectLabels, filterFromSearchParams, filtersEqual, filterToSearchParams, isFilterEmpty, matchesFilter, parseLabels, sanitizeFilter } from './filterService';
+import type { Task } from '../types';
+
+const task = (fields: Partial<Task> = {}): Task =>
+    ({ id: 'task-1', column: 'todo', title: 'Login page', description: 'Sign in with email', attachments: [], ...fields });
+
+describe('sanitizeFilter', () => {
+    it('drops empty and malformed fields', () => {
+        expect(sanitizeFilter({ text: '  ', minPoints: '3', maxPoints: -1, hasAttachments: 'yes', label: ' API ', unestimated: true, colour: 'red' }))
+            .toEqual({ minPoints: 3, label: 'api', unestimated: true });
+    });
+
+    it('treats anything that is not an object as an empty filter', () => {
+        expect(sanitizeFilter(null)).toEqual({});
+        expect(sanitizeFilter('q=login')).toEqual({});
+    });
+});
+
+describe('isFilterEmpty and filtersEqual', () => {
+    it('ignore fields that do not narrow the board', () => {
+        expect(isFilterEmpty({ text: '', hasAttachments: false })).toBe(true);
+        expect(filtersEqual({ label: 'API' }, { label: 'api', text: ' ' })).toBe(true);
+        expect(filtersEqual({ label: 'api' }, { label: 'ui' })).toBe(false);
+    });
+});
+
+describe('matchesFilter', () => {
+    it('searches titles and descriptions case-insensitively', () => {
+        expect(matchesFilter(task(), { text: 'EMAIL' })).toBe(true);
+        expect(matchesFilter(task(), { text: 'logout' })).toBe(false);
+    });
+
+    it('requires every set field to match', () => {
+        const estimated = task({ points: 5, labels: ['frontend'], assigneeId: 'member-1' });
+
+        expect(matchesFilter(estimated, { minPoints: 3, maxPoints: 5, label: 'frontend', assigneeId: 'member-1' })).toBe(true);
+        expect(matchesFilter(estimated, { minPoints: 8 })).toBe(false);
+        expect(matchesFilter(estimated, { label: 'backend' })).toBe(false);
+        expect(matchesFilter(estimated, { hasAttachments: true })).toBe(false);
+        expect(matchesFilter(estimated, { unestimated: true })).toBe(false);
+        expect(matchesFilter(task(), { unestimated: true })).toBe(true);
+    });
+});
+
+describe('URL search params', () => {
+    it('round-trip a filter through short query keys', () => {
+        const params = filterToSearchParams({ text: 'login', minPoints: 3, hasAttachments: true });
+        expect(params.toString()).toBe('q=login&minPoints=3&attachments=1');
+        expect(filterFromSearchParams(params)).toEqual({ text: 'login', minPoints: 3, hasAttachments: true });
+    });
+
+    it('leave unrelated parameters alone and remove cleared ones', () => {
+        const params = filterToSearchParams({}, new URLSearchParams('sprint=sprint-1&q=login'));
+        expect(params.toString()).toBe('sprint=sprint-1');
+    });
+});
+
+describe('labels', () => {
+    it('are parsed lower-case and without duplicates', () => {
+        expect(parseLabels('Frontend, api,, frontend ')).toEqual(['frontend', 'api']);
+    });
+
+    it('are collected from all tasks in alphabetical order', () => {
+        expect(collectLabels([task({ labels: ['ui', 'api'] }), task(), task({ labels: ['api'] })])).toEqual(['api', 'ui']);
+    });
+});
@@ -0,0 +1,85 @@
+import type { Task, TaskFilter } from '../types';
+import { isRecord } from './storageService';
+
+// Query parameter names for each filter field, kept short so shared links stay readable.
+const QUERY_KEYS: Record<keyof TaskFilter, string> = {
+    text: 'q',
+    minPoints: 'minPoints',
+    maxPoints: 'maxPoints',
+    hasAttachments: 'attachments',
+    label: 'label',
+    assigneeId: 'assignee',
+    unestimated: 'unestimated',
+};
+
+const asPoints = (value: unknown) => {
+    const points = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof points === 'number' && Number.isFinite(points) && points >= 0 ? points : undefined;
+};
+
+const asText = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const asFlag = (value: unknown) => value === true || value === '1' || value === 'true' ? true : undefined;
+
+// Drops empty and malformed fields, so two filters that show the same tasks compare equal.
+export const sanitizeFilter = (raw: unknown): TaskFilter => {
+    const fields: Record<string, unknown> = isRecord(raw) ? raw : {};
+    const filter: TaskFilter = {
+        text: asText(fields.text),
+        minPoints: asPoints(fields.minPoints),
+        maxPoints: asPoints(fields.maxPoints),
+        hasAttachments: asFlag(fields.hasAttachments),
+        label: asText(fields.label)?.toLowerCase(),
+        assigneeId: asText(fields.assigneeId),
+        unestimated: asFlag(fields.unestimated),
+    };
+    return Object.fromEntries(Object.entries(filter).filter(([, value]) => value !== undefined)) as TaskFilter;
+};
+
+export const isFilterEmpty = (filter: TaskFilter) => Object.keys(sanitizeFilter(filter)).length === 0;
+
+export const filtersEqual = (a: TaskFilter, b: TaskFilter) => {
+    const left = sanitizeFilter(a);
+    const right = sanitizeFilter(b);
+    const keys = Object.keys(QUERY_KEYS) as (keyof TaskFilter)[];
+    return keys.every(key => left[key] === right[key]);
+};
+
+export const matchesFilter = (task: Task, filter: TaskFilter): boolean => {
+    if (filter.text) {
+        const needle = filter.text.toLowerCase();
+        if (!task.title.toLowerCase().includes(needle) && !task.description.toLowerCase().includes(needle)) return false;
+    }
+    if (filter.minPoints !== undefined && (task.points || 0) < filter.minPoints) return false;
+    if (filter.maxPoints !== undefined && (task.points || 0) > filter.maxPoints) return false;
+    if (filter.hasAttachments && !task.attachments?.length) return false;
+    if (filter.label && !task.labels?.includes(filter.label)) return false;
+    if (filter.assigneeId && task.assigneeId !== filter.assigneeId) return false;
+    if (filter.unestimated && task.points) return false;
+    return true;
+};
+
+export const filterToSearchParams = (filter: TaskFilter, params: URLSearchParams = new URLSearchParams()): URLSearchParams => {
+    const clean = sanitizeFilter(filter);
+    (Object.keys(QUERY_KEYS) as (keyof TaskFilter)[]).forEach(key => {
+        const value = clean[key];
+        if (value === undefined) {
+            params.delete(QUERY_KEYS[key]);
+        } else {
+            params.set(QUERY_KEYS[key], value === true ? '1' : String(value));
+        }
+    });
+    return params;
+};
+
+export const filterFromSearchParams = (params: URLSearchParams): TaskFilter =>
+    sanitizeFilter(Object.fromEntries(
+        (Object.keys(QUERY_KEYS) as (keyof TaskFilter)[]).map(key => [key, params.get(QUERY_KEYS[key]) ?? undefined])
+    ));
+
+// Labels are compared case-insensitively, so they are stored lower-case and without duplicates.
+export const parseLabels = (text: string): string[] =>
+    [...new Set(text.split(',').map(label => label.trim().toLowerCase()).filter(Boolean))];
+
+export const collectLabels = (tasks: Task[]): string[] =>
+    [...new Set(tasks.flatMap(task => task.labels || []))].sort((a, b) => a.localeCompare(b));
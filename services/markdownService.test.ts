@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown } from './markdownService';
+
+describe('parseInline', () => {
+    it('parses bold, italic and code', () => {
+        expect(parseInline('a **bold** and *italic* or _italic_ `x = 1`')).toEqual([
+            { type: 'text', text: 'a ' },
+            { type: 'bold', children: [{ type: 'text', text: 'bold' }] },
+            { type: 'text', text: ' and ' },
+            { type: 'italic', children: [{ type: 'text', text: 'italic' }] },
+            { type: 'text', text: ' or ' },
+            { type: 'italic', children: [{ type: 'text', text: 'italic' }] },
+            { type: 'text', text: ' ' },
+            { type: 'code', text: 'x = 1' },
+        ]);
+    });
+
+    it('nests formatting inside bold text and links', () => {
+        expect(parseInline('**see [the *docs*](https://example.com)**')).toEqual([{
+            type: 'bold',
+            children: [
+                { type: 'text', text: 'see ' },
+                { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'the ' }, { type: 'italic', children: [{ type: 'text', text: 'docs' }] }] },
+            ],
+        }]);
+    });
+
+    it('keeps links to anything but web and mail addresses as text', () => {
+        expect(parseInline('[click](javascript:alert(1))')).toEqual([{ type: 'text', text: '[click](javascript:alert(1)' }, { type: 'text', text: ')' }]);
+        expect(parseInline('[mail](mailto:team@example.com)')).toEqual([{ type: 'link', href: 'mailto:team@example.com', children: [{ type: 'text', text: 'mail' }] }]);
+    });
+
+    it('leaves markup-looking text alone when it is not closed', () => {
+        expect(parseInline('2 * 3 and <b>')).toEqual([{ type: 'text', text: '2 * 3 and <b>' }]);
+    });
+});
+
+describe('parseMarkdown', () => {
+    it('splits paragraphs on blank lines and groups list items', () => {
+        expect(parseMarkdown('First line\r\nsecond line\n\n- one\n* two\n\nAfter')).toEqual([
+            { type: 'paragraph', lines: [[{ type: 'text', text: 'First line' }], [{ type: 'text', text: 'second line' }]] },
+            { type: 'list', items: [[{ type: 'text', text: 'one' }], [{ type: 'text', text: 'two' }]] },
+            { type: 'paragraph', lines: [[{ type: 'text', text: 'After' }]] },
+        ]);
+    });
+});
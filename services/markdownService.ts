@@ -0,0 +1,70 @@
+// A deliberately small markdown subset for comments: paragraphs, "- " lists, **bold**, *italic*,
+// `code` and [links](https://...). It produces a tree the UI renders as React elements, never HTML.
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'bold' | 'italic'; children: MarkdownInline[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+    | { type: 'paragraph'; lines: MarkdownInline[][] }
+    | { type: 'list'; items: MarkdownInline[][] };
+
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|_([^_\s](?:[^_]*[^_\s])?)_|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+// Only web and mail links are rendered as links; anything else (e.g. javascript:) stays text.
+const isSafeHref = (href: string) => /^(https?:\/\/|mailto:)/i.test(href);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+    const nodes: MarkdownInline[] = [];
+    let rest = text;
+    while (rest) {
+        const match = INLINE_PATTERN.exec(rest);
+        if (!match) {
+            nodes.push({ type: 'text', text: rest });
+            break;
+        }
+        if (match.index > 0) {
+            nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+        }
+        const [whole, code, bold, italicStar, italicUnderscore, linkText, href] = match;
+        if (code !== undefined) {
+            nodes.push({ type: 'code', text: code });
+        } else if (bold !== undefined) {
+            nodes.push({ type: 'bold', children: parseInline(bold) });
+        } else if (italicStar !== undefined || italicUnderscore !== undefined) {
+            nodes.push({ type: 'italic', children: parseInline(italicStar ?? italicUnderscore) });
+        } else if (isSafeHref(href)) {
+            nodes.push({ type: 'link', href, children: parseInline(linkText) });
+        } else {
+            nodes.push({ type: 'text', text: whole });
+        }
+        rest = rest.slice(match.index + whole.length);
+    }
+    return nodes;
+};
+
+export const parseMarkdown = (text: string): MarkdownBlock[] => {
+    const blocks: MarkdownBlock[] = [];
+    let current: MarkdownBlock | null = null;
+    for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+        const listItem = /^\s*[-*]\s+(.*)$/.exec(line);
+        if (!line.trim()) {
+            current = null;
+        } else if (listItem) {
+            if (current?.type !== 'list') {
+                current = { type: 'list', items: [] };
+                blocks.push(current);
+            }
+            current.items.push(parseInline(listItem[1]));
+        } else {
+            if (current?.type !== 'paragraph') {
+                current = { type: 'paragraph', lines: [] };
+                blocks.push(current);
+            }
+            current.lines.push(parseInline(line));
+        }
+    }
+    return blocks;
+};
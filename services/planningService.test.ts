@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { buildPlanningCapacity, planTotals } from './planningService';
+import { createTaskEvent } from './taskHistoryService';
+import { DEFAULT_TEAM } from '../constants';
+import type { Sprint, Task, Team } from '../types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const START = new Date('2024-07-01T00:00:00.000Z');
+const at = (days: number) => new Date(START.getTime() + days * DAY_MS);
+
+const closed: Sprint = { id: 'sprint-1', name: 'Sprint 1', startDate: at(0), endDate: at(4), goal: '', status: 'closed', closedAt: at(4) };
+const planned: Sprint = { id: 'sprint-2', name: 'Sprint 2', startDate: at(4), endDate: at(8), goal: '', status: 'planned' };
+
+const task = (id: string, points: number, fields: Partial<Task> = {}): Task => ({ id, column: 'todo', title: id, description: '', points, ...fields });
+
+const finished = task('finished', 5, {
+    column: 'done',
+    sprintId: 'sprint-1',
+    history: [
+        createTaskEvent('created', { to: 'todo', points: 5, sprintId: 'sprint-1' }, at(0)),
+        createTaskEvent('moved', { from: 'todo', to: 'done' }, at(2)),
+    ],
+});
+const committed = task('committed', 3, { sprintId: 'sprint-2' });
+
+describe('buildPlanningCapacity', () => {
+    it('checks the plan against velocity when there is no team', () => {
+        expect(buildPlanningCapacity([committed], [finished], [closed, planned], DEFAULT_TEAM, planned, at(4))).toEqual({
+            velocity: 5,
+            teamCapacity: undefined,
+            capacity: 5,
+            committedPoints: 3,
+            remainingPoints: 2,
+        });
+    });
+
+    it('prefers the team capacity when a roster is set up', () => {
+        const team: Team = { members: [{ id: 'ada', name: 'Ada', initials: 'AD', defaultAvailabilityDays: 4 }], pointsPerDay: 2 };
+        expect(buildPlanningCapacity([finished, committed], [], [closed, planned], team, planned, at(4))).toMatchObject({
+            velocity: 5,
+            teamCapacity: 8,
+            capacity: 8,
+            remainingPoints: 5,
+        });
+    });
+
+    it('has no capacity before the first sprint closes', () => {
+        expect(buildPlanningCapacity([committed], [], [planned], DEFAULT_TEAM, planned)).toEqual({
+            velocity: undefined,
+            teamCapacity: undefined,
+            capacity: undefined,
+            committedPoints: 3,
+            remainingPoints: undefined,
+        });
+    });
+});
+
+describe('planTotals', () => {
+    it('adds the selected stories to what the sprint already holds', () => {
+        const selected = [task('a', 2), task('b', 0)];
+        expect(planTotals(selected, { capacity: 5, committedPoints: 3 })).toEqual({
+            plannedPoints: 2,
+            totalPoints: 5,
+            isOverCapacity: false,
+            unestimatedCount: 1,
+        });
+        expect(planTotals([...selected, task('c', 1)], { capacity: 5, committedPoints: 3 }).isOverCapacity).toBe(true);
+    });
+});
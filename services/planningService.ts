@@ -0,0 +1,43 @@
+import type { Sprint, Task, Team } from '../types';
+import { buildSprintReports } from './analyticsService';
+import { buildSprintCapacity } from './capacityService';
+
+export interface PlanningCapacity {
+    velocity?: number;     // rolling velocity as of the last closed sprint
+    teamCapacity?: number; // from the roster's availability, when a team is set up
+    capacity?: number;     // what the plan is checked against: team capacity, else velocity
+    committedPoints: number;
+    remainingPoints?: number;
+}
+
+const sumPoints = (tasks: Task[]) => tasks.reduce((sum, task) => sum + (task.points || 0), 0);
+
+// Deleted tasks still count towards past velocity, but not towards what the sprint holds now.
+export const buildPlanningCapacity = (tasks: Task[], deletedTasks: Task[], sprints: Sprint[], team: Team, sprint: Sprint, now: Date = new Date()): PlanningCapacity => {
+    const closedReports = buildSprintReports([...tasks, ...deletedTasks], sprints, now).filter(report => report.status === 'closed' && report.sprintId !== sprint.id);
+    const velocity = closedReports.length > 0 ? closedReports[closedReports.length - 1].rollingVelocity : undefined;
+
+    const sprintTasks = tasks.filter(t => t.sprintId === sprint.id && t.column !== 'backlog');
+    const teamCapacity = team.members.length > 0 ? buildSprintCapacity(sprintTasks, team, sprint.id).totalCapacity : undefined;
+    const capacity = teamCapacity ?? velocity;
+    const committedPoints = sumPoints(sprintTasks);
+
+    return {
+        velocity,
+        teamCapacity,
+        capacity,
+        committedPoints,
+        remainingPoints: capacity !== undefined ? Math.max(0, Math.round((capacity - committedPoints) * 10) / 10) : undefined,
+    };
+};
+
+export const planTotals = (selected: Task[], planning: PlanningCapacity) => {
+    const plannedPoints = sumPoints(selected);
+    const totalPoints = planning.committedPoints + plannedPoints;
+    return {
+        plannedPoints,
+        totalPoints,
+        isOverCapacity: planning.capacity !== undefined && totalPoints > planning.capacity,
+        unestimatedCount: selected.filter(task => !task.points).length,
+    };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createActionItem, findPreviousRetrospective, itemsByVotes, replaceSuggestedActionItems, resolveActionItemStatus } from './retrospectiveService';
+import type { RetroActionItem, Retrospective, Sprint, Task } from '../types';
+
+const sprint = (id: string, start: string): Sprint => ({ id, name: id, startDate: new Date(start), endDate: new Date(start), goal: '', status: 'closed' });
+
+const retro = (sprintId: string, actionItems: RetroActionItem[]): Retrospective =>
+    ({ id: `retro-${sprintId}`, sprintId, format: 'start-stop-continue', items: [], summary: '', actionItems, updatedAt: '' });
+
+const action = (id: string, fields: Partial<RetroActionItem> = {}): RetroActionItem => ({ id, text: id, status: 'open', ...fields });
+
+describe('findPreviousRetrospective', () => {
+    const sprints = [sprint('s3', '2024-08-01'), sprint('s1', '2024-07-01'), sprint('s2', '2024-07-15')];
+
+    it('finds the latest earlier retrospective that has action items', () => {
+        const retrospectives = [retro('s1', [action('a')]), retro('s2', [])];
+        expect(findPreviousRetrospective(retrospectives, sprints, 's3')?.sprintId).toBe('s1');
+    });
+
+    it('finds nothing for the first sprint', () => {
+        expect(findPreviousRetrospective([retro('s2', [action('a')])], sprints, 's1')).toBeUndefined();
+    });
+});
+
+describe('resolveActionItemStatus', () => {
+    const tasks: Task[] = [{ id: 'task-1', column: 'done', title: '', description: '' }, { id: 'task-2', column: 'todo', title: '', description: '' }];
+
+    it('counts an open item as done once its backlog task is done', () => {
+        expect(resolveActionItemStatus(action('a', { taskId: 'task-1' }), tasks)).toBe('done');
+        expect(resolveActionItemStatus(action('b', { taskId: 'task-2' }), tasks)).toBe('open');
+    });
+
+    it('keeps a status the team set', () => {
+        expect(resolveActionItemStatus(action('c', { taskId: 'task-2', status: 'dropped' }), tasks)).toBe('dropped');
+    });
+});
+
+describe('replaceSuggestedActionItems', () => {
+    it('replaces earlier suggestions but keeps what the team wrote, closed or sent to the backlog', () => {
+        const items = [
+            action('typed'),
+            action('suggested', { source: 'ai' }),
+            action('suggested and sent', { source: 'ai', taskId: 'task-1' }),
+            action('suggested and done', { source: 'ai', status: 'done' }),
+        ];
+        const next = replaceSuggestedActionItems(items, [{ text: 'New idea', owner: 'Ada' }]);
+        expect(next.map(item => item.id).slice(0, 3)).toEqual(['typed', 'suggested and sent', 'suggested and done']);
+        expect(next[3]).toMatchObject({ text: 'New idea', owner: 'Ada', status: 'open', source: 'ai' });
+    });
+
+    it('marks only suggestions as suggested', () => {
+        expect(createActionItem('Typed by hand')).not.toHaveProperty('source');
+    });
+});
+
+describe('itemsByVotes', () => {
+    it('lists the notes of one column, most votes first', () => {
+        const items = [
+            { id: 'a', columnId: 'stop', text: 'a', votes: 1 },
+            { id: 'b', columnId: 'start', text: 'b', votes: 5 },
+            { id: 'c', columnId: 'stop', text: 'c', votes: 3 },
+        ];
+        expect(itemsByVotes(items, 'stop').map(item => item.id)).toEqual(['c', 'a']);
+    });
+});
@@ -0,0 +1,53 @@
+import type { ActionItemStatus, RetroActionItem, RetroFormatId, RetroItem, Retrospective, Sprint, Task } from '../types';
+import { sortSprints } from './sprintService';
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createRetrospective = (sprintId: string, format: RetroFormatId): Retrospective => ({
+    id: newId('retro'),
+    sprintId,
+    format,
+    items: [],
+    summary: '',
+    actionItems: [],
+    updatedAt: new Date().toISOString(),
+});
+
+export const createRetroItem = (columnId: string, text: string): RetroItem => ({ id: newId('retro-item'), columnId, text, votes: 0 });
+
+export const createActionItem = (text: string, owner?: string, source?: RetroActionItem['source']): RetroActionItem => ({
+    id: newId('action'),
+    text,
+    owner: owner || undefined,
+    status: 'open',
+    ...(source ? { source } : {}),
+});
+
+// Summarizing again replaces the earlier suggestions, but keeps items the team wrote, edited, closed or sent to the backlog.
+export const replaceSuggestedActionItems = (items: RetroActionItem[], suggestions: { text: string; owner?: string }[]): RetroActionItem[] => [
+    ...items.filter(item => item.source !== 'ai' || item.taskId || item.status !== 'open'),
+    ...suggestions.map(suggestion => createActionItem(suggestion.text, suggestion.owner, 'ai')),
+];
+
+export const findRetrospective = (retrospectives: Retrospective[], sprintId: string) =>
+    retrospectives.find(retro => retro.sprintId === sprintId);
+
+// The most recent retrospective held for a sprint that came before `sprintId`.
+export const findPreviousRetrospective = (retrospectives: Retrospective[], sprints: Sprint[], sprintId: string): Retrospective | undefined => {
+    const ordered = sortSprints(sprints);
+    const index = ordered.findIndex(s => s.id === sprintId);
+    for (let i = index - 1; i >= 0; i--) {
+        const retro = findRetrospective(retrospectives, ordered[i].id);
+        if (retro && retro.actionItems.length > 0) return retro;
+    }
+    return undefined;
+};
+
+// An open action item counts as done once the backlog task created from it is done.
+export const resolveActionItemStatus = (item: RetroActionItem, tasks: Task[]): ActionItemStatus => {
+    if (item.status !== 'open' || !item.taskId) return item.status;
+    return tasks.find(t => t.id === item.taskId)?.column === 'done' ? 'done' : 'open';
+};
+
+export const itemsByVotes = (items: RetroItem[], columnId: string) =>
+    items.filter(item => item.columnId === columnId).sort((a, b) => b.votes - a.votes);
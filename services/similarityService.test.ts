@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { findSimilarTasks, jaccardSimilarity, tokenize } from './similarityService';
+import type { Task } from '../types';
+
+const task = (id: string, title: string, description = ''): Task => ({ id, column: 'backlog', title, description });
+
+describe('tokenize', () => {
+    it('keeps the significant words in lower case', () => {
+        expect(tokenize('As a user, I want to Reset my PASSWORD by e-mail')).toEqual(new Set(['reset', 'password', 'mail']));
+    });
+});
+
+describe('jaccardSimilarity', () => {
+    it('shares words over all distinct words', () => {
+        expect(jaccardSimilarity(new Set(['reset', 'password']), new Set(['password', 'login', 'reset']))).toBeCloseTo(2 / 3);
+    });
+
+    it('is zero when either side has no words', () => {
+        expect(jaccardSimilarity(new Set(), new Set(['login']))).toBe(0);
+    });
+});
+
+describe('findSimilarTasks', () => {
+    const tasks = [
+        task('login', 'Log in with Google'),
+        task('reset', 'Reset password', 'Send a reset link by mail'),
+        task('reports', 'Export sprint reports'),
+    ];
+
+    it('returns tasks above the threshold, most similar first', () => {
+        const matches = findSimilarTasks('Reset a forgotten password', 'Mail a reset link', tasks, 0.2);
+        expect(matches.map(match => match.task.id)).toEqual(['reset']);
+        expect(matches[0].score).toBeGreaterThan(0.5);
+    });
+
+    it('returns nothing when no task comes close', () => {
+        expect(findSimilarTasks('Dark mode', '', tasks, 0.2)).toEqual([]);
+    });
+});
@@ -0,0 +1,36 @@
+import type { Task } from '../types';
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'your', 'their', 'will', 'can', 'are', 'was',
+    'want', 'able', 'user', 'users', 'so', 'as', 'to', 'of', 'in', 'on', 'an', 'a', 'i', 'be', 'is', 'it', 'my',
+]);
+
+export interface SimilarTask {
+    task: Task;
+    score: number; // 0..1 Jaccard similarity of the significant words
+}
+
+export const tokenize = (text: string): Set<string> =>
+    new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+
+export const jaccardSimilarity = (a: Set<string>, b: Set<string>) => {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const word of a) {
+        if (b.has(word)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+};
+
+// Titles carry most of the meaning, so they count double against descriptions.
+const taskSimilarity = (title: string, description: string, task: Task) => {
+    const titleScore = jaccardSimilarity(tokenize(title), tokenize(task.title));
+    const fullScore = jaccardSimilarity(tokenize(`${title} ${description}`), tokenize(`${task.title} ${task.description}`));
+    return (titleScore * 2 + fullScore) / 3;
+};
+
+export const findSimilarTasks = (title: string, description: string, tasks: Task[], threshold: number): SimilarTask[] =>
+    tasks
+        .map(task => ({ task, score: taskSimilarity(title, description, task) }))
+        .filter(match => match.score >= threshold)
+        .sort((a, b) => b.score - a.score);
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSprintAfter, findNextPlannedSprint, sortSprints } from './sprintService';
+import type { Sprint } from '../types';
+
+const sprint = (id: string, start: string, end: string, status: Sprint['status'] = 'planned'): Sprint =>
+    ({ id, name: id, startDate: new Date(start), endDate: new Date(end), goal: '', status });
+
+describe('sortSprints', () => {
+    it('orders sprints by start date without changing the list it was given', () => {
+        const sprints = [sprint('b', '2024-07-15', '2024-07-29'), sprint('a', '2024-07-01', '2024-07-15')];
+        expect(sortSprints(sprints).map(s => s.id)).toEqual(['a', 'b']);
+        expect(sprints.map(s => s.id)).toEqual(['b', 'a']);
+    });
+});
+
+describe('createSprintAfter', () => {
+    it('starts where the previous sprint ended and keeps its length', () => {
+        const next = createSprintAfter(sprint('sprint-1', '2024-07-01T00:00:00Z', '2024-07-11T00:00:00Z', 'active'), 2);
+        expect(next).toMatchObject({
+            name: 'Sprint 2',
+            startDate: new Date('2024-07-11T00:00:00Z'),
+            endDate: new Date('2024-07-21T00:00:00Z'),
+            goal: '',
+            status: 'planned',
+        });
+    });
+
+    it('plans two weeks from today when there is no previous sprint', () => {
+        vi.useFakeTimers({ now: new Date('2024-07-03T15:30:00Z') });
+        try {
+            expect(createSprintAfter(undefined, 1)).toMatchObject({
+                name: 'Sprint 1',
+                startDate: new Date('2024-07-03T00:00:00Z'),
+                endDate: new Date('2024-07-17T00:00:00Z'),
+            });
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
+
+describe('findNextPlannedSprint', () => {
+    it('finds the earliest planned sprint that starts after the given one', () => {
+        const current = sprint('current', '2024-07-15', '2024-07-29', 'active');
+        const sprints = [
+            sprint('later', '2024-08-12', '2024-08-26'),
+            sprint('earlier', '2024-07-01', '2024-07-15'),
+            current,
+            sprint('next', '2024-07-29', '2024-08-12'),
+            sprint('closed', '2024-07-29', '2024-08-12', 'closed'),
+        ];
+        expect(findNextPlannedSprint(sprints, current)?.id).toBe('next');
+    });
+
+    it('finds nothing when no sprint is planned', () => {
+        const current = sprint('current', '2024-07-15', '2024-07-29', 'active');
+        expect(findNextPlannedSprint([current], current)).toBeUndefined();
+    });
+});
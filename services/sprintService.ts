@@ -0,0 +1,24 @@
+import type { Sprint } from '../types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DEFAULT_SPRINT_DAYS = 14;
+
+export const sortSprints = (sprints: Sprint[]) =>
+    [...sprints].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+// Drafts the sprint that follows `previous`, keeping its length and continuing its numbering.
+export const createSprintAfter = (previous: Sprint | undefined, sprintNumber: number): Sprint => {
+    const startDate = previous ? new Date(previous.endDate) : new Date(new Date().toISOString().split('T')[0] + 'T00:00:00Z');
+    const length = previous ? previous.endDate.getTime() - previous.startDate.getTime() : DEFAULT_SPRINT_DAYS * DAY_MS;
+    return {
+        id: `sprint-${Date.now()}`,
+        name: `Sprint ${sprintNumber}`,
+        startDate,
+        endDate: new Date(startDate.getTime() + length),
+        goal: '',
+        status: 'planned',
+    };
+};
+
+export const findNextPlannedSprint = (sprints: Sprint[], after: Sprint) =>
+    sortSprints(sprints).find(s => s.status === 'planned' && s.id !== after.id && s.startDate.getTime() >= after.startDate.getTime());
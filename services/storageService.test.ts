@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadSyncBackup, loadWorkspace, migrateWorkspace, reviveWorkspace, saveSyncBackup, saveWorkspace, WORKSPACE_SCHEMA_VERSION } from './storageService';
+import { DEFAULT_BOARD_CONFIG, DEFAULT_RETRO_FORMAT, DEFAULT_TEAM } from '../constants';
+import type { Workspace } from '../types';
+
+const STORAGE_KEY = 'scrum-sprint-runner:workspace';
+
+// Enough of the Storage API for the service, optionally refusing writes to some keys like a full quota does.
+const createStorage = (refuse: (key: string) => boolean = () => false) => {
+    const items = new Map<string, string>();
+    return {
+        items,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            if (refuse(key)) throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+            items.set(key, value);
+        },
+        removeItem: (key: string) => items.delete(key),
+    };
+};
+
+const workspace = (): Workspace => ({
+    tasks: [{ id: 'task-1', column: 'todo', title: 'Write docs', description: '', attachments: [] }],
+    deletedTasks: [],
+    sprints: [{ id: 'sprint-1', name: 'Sprint 1', startDate: new Date('2024-07-20T00:00:00Z'), endDate: new Date('2024-08-03T00:00:00Z'), goal: 'Launch', status: 'active' }],
+    selectedSprintId: 'sprint-1',
+    board: { columns: [{ id: 'backlog', title: 'Backlog' }, { id: 'todo', title: 'To Do', wipLimit: 3 }, { id: 'done', title: 'Done' }], wipPolicy: 'enforce' },
+    team: { members: [{ id: 'member-1', name: 'Ada Lovelace', initials: 'AL', defaultAvailabilityDays: 8, availability: { 'sprint-1': 5 } }], pointsPerDay: 1.5 },
+    retrospectives: [{
+        id: 'retro-1',
+        sprintId: 'sprint-1',
+        format: 'start-stop-continue',
+        items: [{ id: 'item-1', columnId: 'stop', text: 'Big stories', votes: 2 }],
+        summary: 'Ship smaller stories.',
+        actionItems: [{ id: 'action-1', text: 'Split stories over 8 points', status: 'open', source: 'ai' }],
+        updatedAt: '2024-08-03T10:00:00.000Z',
+    }],
+    savedViews: [{ id: 'view-1', name: 'Mine', filter: { assigneeId: 'member-1' } }],
+});
+
+beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+const SPRINT_START = '2024-07-20T00:00:00.000Z';
+
+// A workspace as the first version of the app saved it: tasks without history.
+const version1Workspace = () => ({
+    tasks: [
+        { id: 'task-1', column: 'backlog', title: 'Login', description: '', points: 8 },
+        { id: 'task-2', column: 'todo', title: 'Schema', description: '', points: 5 },
+    ],
+    sprint: { id: 'sprint-1', name: 'Sprint 1', startDate: SPRINT_START, endDate: '2024-08-03T00:00:00.000Z', goal: 'Launch' },
+    retroSummary: 'Ship smaller stories.',
+});
+
+describe('migrateWorkspace', () => {
+    it('gives version 1 tasks a created event dated from the sprint start', () => {
+        const { tasks, deletedTasks } = reviveWorkspace(migrateWorkspace(1, version1Workspace()));
+        expect(tasks.map(task => task.history)).toEqual([
+            [{ type: 'created', at: SPRINT_START, to: 'backlog', points: 8, sprintId: null }],
+            [{ type: 'created', at: SPRINT_START, to: 'todo', points: 5, sprintId: 'sprint-1' }],
+        ]);
+        expect(deletedTasks).toEqual([]);
+    });
+
+    it('turns the single sprint into the active one of a list, and assigns tasks on the board to it', () => {
+        const { sprints, selectedSprintId, tasks } = reviveWorkspace(migrateWorkspace(1, version1Workspace()));
+        expect(sprints).toEqual([expect.objectContaining({ id: 'sprint-1', status: 'active', startDate: new Date(SPRINT_START) })]);
+        expect(selectedSprintId).toBe('sprint-1');
+        expect(tasks.map(task => task.sprintId)).toEqual([undefined, 'sprint-1']);
+    });
+
+    it('gives older workspaces the default board and an empty team', () => {
+        const { board, team } = reviveWorkspace(migrateWorkspace(1, version1Workspace()));
+        expect(board).toEqual(DEFAULT_BOARD_CONFIG);
+        expect(team).toEqual(DEFAULT_TEAM);
+    });
+
+    it('keeps the old free-text retro summary as the selected sprint\'s retrospective', () => {
+        const { retrospectives } = reviveWorkspace(migrateWorkspace(1, version1Workspace()));
+        expect(retrospectives).toEqual([{
+            id: 'retro-sprint-1',
+            sprintId: 'sprint-1',
+            format: DEFAULT_RETRO_FORMAT,
+            items: [],
+            summary: 'Ship smaller stories.',
+            actionItems: [],
+            updatedAt: expect.any(String),
+        }]);
+        expect(reviveWorkspace(migrateWorkspace(1, { ...version1Workspace(), retroSummary: '' })).retrospectives).toEqual([]);
+    });
+
+    it('ranks tasks in the order they were stored', () => {
+        const { tasks } = reviveWorkspace(migrateWorkspace(1, version1Workspace()));
+        expect(tasks.map(task => [task.id, task.rank])).toEqual([['task-1', 0], ['task-2', 1]]);
+    });
+
+    it('starts older workspaces without saved views', () => {
+        expect(reviveWorkspace(migrateWorkspace(1, version1Workspace())).savedViews).toEqual([]);
+    });
+
+    it('gives tasks that were already blocked a blocker dated from when they were blocked', () => {
+        const stored = { ...version1Workspace(), tasks: [{ id: 'task-1', column: 'blocked', title: 'Login', description: '' }] };
+        const [blocked] = reviveWorkspace(migrateWorkspace(1, stored)).tasks;
+        expect(blocked.blocker).toEqual({ reason: 'Not recorded (blocked before blockers were tracked).', since: SPRINT_START });
+    });
+
+    it('gives stored attachments an id and size, keeping their contents inline until they are moved', () => {
+        const data = 'data:text/plain;base64,aGVsbG8=';
+        const stored = { ...version1Workspace(), tasks: [{ id: 'task-1', column: 'todo', title: 'Login', description: '', attachments: [{ name: 'a.txt', type: 'text/plain', data }] }] };
+        const [withAttachment] = reviveWorkspace(migrateWorkspace(1, stored)).tasks;
+        expect(withAttachment.attachments).toEqual([{ id: expect.stringMatching(/^attachment-/), name: 'a.txt', type: 'text/plain', size: 5, data }]);
+    });
+
+    it('leaves a current workspace as it is', () => {
+        const stored = { tasks: [] };
+        expect(migrateWorkspace(WORKSPACE_SCHEMA_VERSION, stored)).toBe(stored);
+    });
+
+    it('rejects workspaces from a newer version of the app', () => {
+        expect(() => migrateWorkspace(WORKSPACE_SCHEMA_VERSION + 1, {})).toThrow(/newer than this app supports/);
+    });
+
+    it('rejects versions it has no migration for', () => {
+        expect(() => migrateWorkspace(0, {})).toThrow('No migration available from workspace schema version 0.');
+    });
+});
+
+describe('reviveWorkspace', () => {
+    it('turns the stored sprint dates back into dates', () => {
+        const revived = reviveWorkspace(JSON.parse(JSON.stringify(workspace())));
+        expect(revived).toEqual(workspace());
+    });
+
+    it('selects the first sprint when the selected one is gone', () => {
+        const stored = { ...JSON.parse(JSON.stringify(workspace())), selectedSprintId: 'sprint-9' };
+        expect(reviveWorkspace(stored).selectedSprintId).toBe('sprint-1');
+    });
+
+    it('falls back to the default board when the stored one has no columns', () => {
+        const stored = { ...JSON.parse(JSON.stringify(workspace())), board: { wipPolicy: 'warn' } };
+        expect(reviveWorkspace(stored).board).toEqual(DEFAULT_BOARD_CONFIG);
+    });
+
+    it('rejects workspaces without tasks or sprints', () => {
+        expect(() => reviveWorkspace({ sprints: [] })).toThrow(/missing its tasks/);
+        expect(() => reviveWorkspace({ tasks: [], sprints: [] })).toThrow(/missing its tasks or sprints/);
+    });
+
+    it('rejects sprints with invalid dates', () => {
+        const stored = { ...JSON.parse(JSON.stringify(workspace())), sprints: [{ ...workspace().sprints[0], startDate: 'soon' }] };
+        expect(() => reviveWorkspace(stored)).toThrow('Invalid date in saved sprint field "startDate".');
+    });
+});
+
+describe('saveWorkspace and loadWorkspace', () => {
+    it('round-trip a workspace through storage', () => {
+        vi.stubGlobal('localStorage', createStorage());
+        expect(saveWorkspace(workspace())).toBe(true);
+        expect(loadWorkspace()).toEqual(workspace());
+    });
+
+    it('return null when nothing was saved yet', () => {
+        vi.stubGlobal('localStorage', createStorage());
+        expect(loadWorkspace()).toBeNull();
+    });
+
+    it('report a failed save instead of throwing', () => {
+        vi.stubGlobal('localStorage', createStorage(() => true));
+        expect(saveWorkspace(workspace())).toBe(false);
+    });
+
+    it('keep a copy of a save that cannot be read', () => {
+        const storage = createStorage();
+        storage.items.set(STORAGE_KEY, '{"workspace": {}}');
+        vi.stubGlobal('localStorage', storage);
+        expect(loadWorkspace()).toBeNull();
+        expect(storage.items.get(`${STORAGE_KEY}:unreadable`)).toBe('{"workspace": {}}');
+    });
+
+    it('still start when the copy of an unreadable save does not fit', () => {
+        const storage = createStorage(key => key.endsWith(':unreadable'));
+        storage.items.set(STORAGE_KEY, 'not json');
+        vi.stubGlobal('localStorage', storage);
+        expect(loadWorkspace()).toBeNull();
+    });
+});
+
+describe('saveSyncBackup and loadSyncBackup', () => {
+    it('keep the board from before joining a shared one, apart from the current board', () => {
+        vi.stubGlobal('localStorage', createStorage());
+        const local = workspace();
+        expect(saveSyncBackup(local)).toBe(true);
+        saveWorkspace({ ...local, tasks: [] });
+
+        expect(loadSyncBackup()).toEqual({ savedAt: expect.any(Date), workspace: local });
+        expect(loadWorkspace()?.tasks).toEqual([]);
+    });
+
+    it('return null when there is no backup', () => {
+        vi.stubGlobal('localStorage', createStorage());
+        expect(loadSyncBackup()).toBeNull();
+    });
+});
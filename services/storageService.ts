@@ -0,0 +1,245 @@
+import type { Attachment, BoardConfig, Retrospective, SavedView, Sprint, Task, Team, Workspace } from '../types';
+import { withCreatedEvent } from './taskHistoryService';
+import { blockerFromHistory } from './blockerService';
+import { createAttachmentId, dataUrlSize } from './attachmentService';
+import { DEFAULT_BOARD_CONFIG, DEFAULT_RETRO_FORMAT, DEFAULT_TEAM } from '../constants';
+
+const STORAGE_KEY = 'scrum-sprint-runner:workspace';
+const UNREADABLE_KEY = `${STORAGE_KEY}:unreadable`;
+const SYNC_BACKUP_KEY = `${STORAGE_KEY}:before-sync`;
+
+export const WORKSPACE_SCHEMA_VERSION = 10;
+
+export interface StoredWorkspace {
+    version: number;
+    savedAt: string;
+    workspace: unknown;
+}
+
+export interface WorkspaceBackup {
+    savedAt: Date;
+    workspace: Workspace;
+}
+
+// A sprint as JSON holds it: its dates are strings until they are revived.
+type StoredSprint = Omit<Sprint, 'startDate' | 'endDate' | 'closedAt'> & { startDate: string; endDate: string; closedAt?: string };
+
+// Workspaces as older versions saved them. Each migration reads the shape the version before it left behind.
+interface WorkspaceV1 {
+    tasks: Task[];
+    sprint: Omit<StoredSprint, 'status' | 'closedAt'>;
+    retroSummary?: string;
+}
+
+interface WorkspaceV2 extends WorkspaceV1 {
+    deletedTasks: Task[];
+}
+
+interface WorkspaceV3 extends Omit<WorkspaceV2, 'sprint'> {
+    sprints: StoredSprint[];
+    selectedSprintId: string;
+}
+
+interface WorkspaceV4 extends WorkspaceV3 {
+    board: BoardConfig;
+}
+
+interface WorkspaceV5 extends WorkspaceV4 {
+    team: Team;
+}
+
+interface WorkspaceV6 extends Omit<WorkspaceV5, 'retroSummary'> {
+    retrospectives: Retrospective[];
+}
+
+// v7 only gave tasks a rank, which Task already allows for.
+type WorkspaceV7 = WorkspaceV6;
+
+interface WorkspaceV8 extends WorkspaceV7 {
+    savedViews: SavedView[];
+}
+
+// v9 gave blocked tasks a blocker, which Task already allows for, but attachments still held
+// their contents inline, without an id or size.
+type TaskV9 = Omit<Task, 'attachments'> & { attachments?: Omit<Attachment, 'id' | 'size'>[] };
+
+interface WorkspaceV9 extends Omit<WorkspaceV8, 'tasks' | 'deletedTasks'> {
+    tasks: TaskV9[];
+    deletedTasks: TaskV9[];
+}
+
+const step = <From,>(migrate: (workspace: From) => unknown) => (workspace: unknown) => migrate(workspace as From);
+
+// Each entry upgrades a stored workspace from schema version `n` to `n + 1`.
+// Bump WORKSPACE_SCHEMA_VERSION and add an entry here whenever the shape of
+// `Task`, `Sprint` or `Workspace` changes in a way old saves can't satisfy.
+const migrations: Record<number, (workspace: unknown) => unknown> = {
+    // v2: tasks carry a status-change history and deleted tasks are archived for the burndown.
+    1: step((workspace: WorkspaceV1) => ({
+        ...workspace,
+        tasks: workspace.tasks.map(task => withCreatedEvent(task, new Date(workspace.sprint.startDate))),
+        deletedTasks: [],
+    })),
+    // v3: the single sprint becomes a list of sprints, and tasks on the board reference theirs.
+    2: step(({ sprint, ...workspace }: WorkspaceV2) => {
+        const assignToSprint = (task: Task): Task => ({
+            ...task,
+            sprintId: task.column !== 'backlog' ? sprint.id : undefined,
+            history: (task.history || []).map(event =>
+                event.type === 'created' || event.type === 'moved'
+                    ? { ...event, sprintId: event.to && event.to !== 'backlog' ? sprint.id : null }
+                    : event
+            ),
+        });
+        return {
+            ...workspace,
+            tasks: workspace.tasks.map(assignToSprint),
+            deletedTasks: workspace.deletedTasks.map(assignToSprint),
+            sprints: [{ ...sprint, status: 'active' }],
+            selectedSprintId: sprint.id,
+        };
+    }),
+    // v4: workflow columns and WIP limits are configured per board.
+    3: step((workspace: WorkspaceV3) => ({ ...workspace, board: DEFAULT_BOARD_CONFIG })),
+    // v5: a team roster with per-sprint availability; tasks may reference an assignee.
+    4: step((workspace: WorkspaceV4) => ({ ...workspace, team: DEFAULT_TEAM })),
+    // v6: retrospectives are stored per sprint; the last free-text summary is kept on the selected sprint's retro.
+    5: step(({ retroSummary, ...workspace }: WorkspaceV5) => ({
+        ...workspace,
+        retrospectives: retroSummary
+            ? [{
+                id: `retro-${workspace.selectedSprintId}`,
+                sprintId: workspace.selectedSprintId,
+                format: DEFAULT_RETRO_FORMAT,
+                items: [],
+                summary: retroSummary,
+                actionItems: [],
+                updatedAt: new Date().toISOString(),
+            }]
+            : [],
+    })),
+    // v7: tasks carry an explicit rank; the order they were stored in becomes the initial ranking.
+    6: step((workspace: WorkspaceV6) => ({
+        ...workspace,
+        tasks: workspace.tasks.map((task, index) => ({ ...task, rank: index })),
+    })),
+    // v8: named board filters are saved with the workspace.
+    7: step((workspace: WorkspaceV7) => ({ ...workspace, savedViews: [] })),
+    // v9: blocked tasks carry a structured blocker; existing ones get one dated from when they entered the column.
+    8: step((workspace: WorkspaceV8) => ({
+        ...workspace,
+        tasks: workspace.tasks.map(task => task.column === 'blocked' && !task.blocker
+            ? { ...task, blocker: blockerFromHistory(task, 'Not recorded (blocked before blockers were tracked).') }
+            : task),
+    })),
+    // v10: attachments get an id and size; their inline data is moved into the blob store once the app has loaded.
+    9: step((workspace: WorkspaceV9) => {
+        const withAttachmentIds = (task: TaskV9) => task.attachments?.length
+            ? { ...task, attachments: task.attachments.map(attachment => ({ ...attachment, id: createAttachmentId(), size: dataUrlSize(attachment.data ?? '') })) }
+            : task;
+        return { ...workspace, tasks: workspace.tasks.map(withAttachmentIds), deletedTasks: workspace.deletedTasks.map(withAttachmentIds) };
+    }),
+};
+
+export const migrateWorkspace = (version: number, workspace: unknown): unknown => {
+    if (version > WORKSPACE_SCHEMA_VERSION) {
+        throw new Error(`Workspace schema version ${version} is newer than this app supports (${WORKSPACE_SCHEMA_VERSION}).`);
+    }
+    let current = workspace;
+    for (let v = version; v < WORKSPACE_SCHEMA_VERSION; v++) {
+        const migrate = migrations[v];
+        if (!migrate) {
+            throw new Error(`No migration available from workspace schema version ${v}.`);
+        }
+        current = migrate(current);
+    }
+    return current;
+};
+
+const reviveDate = (value: unknown, field: string): Date => {
+    const date = new Date(value as string);
+    if (isNaN(date.getTime())) {
+        throw new Error(`Invalid date in saved sprint field "${field}".`);
+    }
+    return date;
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+export const reviveSprint = (sprint: StoredSprint): Sprint => ({
+    ...sprint,
+    startDate: reviveDate(sprint.startDate, 'startDate'),
+    endDate: reviveDate(sprint.endDate, 'endDate'),
+    closedAt: sprint.closedAt ? reviveDate(sprint.closedAt, 'closedAt') : undefined,
+});
+
+export const reviveWorkspace = (workspace: unknown): Workspace => {
+    if (!isRecord(workspace) || !Array.isArray(workspace.tasks) || !Array.isArray(workspace.sprints) || workspace.sprints.length === 0) {
+        throw new Error("Saved workspace is missing its tasks or sprints.");
+    }
+    const sprints = (workspace.sprints as StoredSprint[]).map(reviveSprint);
+    return {
+        tasks: workspace.tasks as Task[],
+        deletedTasks: Array.isArray(workspace.deletedTasks) ? workspace.deletedTasks as Task[] : [],
+        sprints,
+        board: isRecord(workspace.board) && Array.isArray(workspace.board.columns) ? workspace.board as unknown as BoardConfig : DEFAULT_BOARD_CONFIG,
+        team: isRecord(workspace.team) && Array.isArray(workspace.team.members) ? workspace.team as unknown as Team : DEFAULT_TEAM,
+        selectedSprintId: sprints.some(s => s.id === workspace.selectedSprintId) ? workspace.selectedSprintId as string : sprints[0].id,
+        retrospectives: Array.isArray(workspace.retrospectives) ? workspace.retrospectives as Retrospective[] : [],
+        savedViews: Array.isArray(workspace.savedViews) ? workspace.savedViews as SavedView[] : [],
+    };
+};
+
+export const loadWorkspace = (): Workspace | null => {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    try {
+        const stored = JSON.parse(raw) as StoredWorkspace;
+        if (typeof stored.version !== 'number') {
+            throw new Error("Saved workspace has no schema version.");
+        }
+        return reviveWorkspace(migrateWorkspace(stored.version, stored.workspace));
+    } catch (error) {
+        // Keep the unreadable copy around so the next save doesn't destroy it.
+        console.error("Failed to load saved workspace:", error);
+        try {
+            localStorage.setItem(UNREADABLE_KEY, raw);
+        } catch (backupError) {
+            console.error("Failed to keep a copy of the unreadable workspace:", backupError);
+        }
+        return null;
+    }
+};
+
+const storeWorkspace = (key: string, workspace: Workspace): boolean => {
+    const stored: StoredWorkspace = {
+        version: WORKSPACE_SCHEMA_VERSION,
+        savedAt: new Date().toISOString(),
+        workspace,
+    };
+    try {
+        localStorage.setItem(key, JSON.stringify(stored));
+        return true;
+    } catch (error) {
+        console.error("Failed to save workspace:", error);
+        return false;
+    }
+};
+
+export const saveWorkspace = (workspace: Workspace): boolean => storeWorkspace(STORAGE_KEY, workspace);
+
+// The board this browser had before joining a shared board replaced it. Only the latest one is kept.
+export const saveSyncBackup = (workspace: Workspace): boolean => storeWorkspace(SYNC_BACKUP_KEY, workspace);
+
+export const loadSyncBackup = (): WorkspaceBackup | null => {
+    try {
+        const raw = localStorage.getItem(SYNC_BACKUP_KEY);
+        if (!raw) return null;
+        const stored = JSON.parse(raw) as StoredWorkspace;
+        return { savedAt: new Date(stored.savedAt), workspace: reviveWorkspace(migrateWorkspace(stored.version, stored.workspace)) };
+    } catch (error) {
+        console.error("Failed to load the board backed up before syncing:", error);
+        return null;
+    }
+};
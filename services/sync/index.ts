@@ -0,0 +1,40 @@
+import { reviveSprint } from '../storageService';
+import { DEFAULT_SYNC_PORT } from './protocol';
+import type { SharedCollectionKey, SharedCollections } from './protocol';
+
+export type { ClientMessage, ServerMessage, SharedBoard, SharedCollectionKey, SharedCollections, SyncPeer } from './protocol';
+export { DEFAULT_SYNC_PORT, SHARED_COLLECTION_KEYS } from './protocol';
+export { mergeTask, reconcileTasks, sameValue } from './merge';
+export type { TaskMerge } from './merge';
+
+export type SyncStatus = 'off' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface SyncSettings {
+    enabled: boolean;
+    url: string;
+    name: string; // shown to the others; falls back to the current team member's name
+}
+
+const SETTINGS_KEY = 'scrum-sprint-runner:sync-settings';
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+    enabled: false,
+    url: `ws://${typeof location !== 'undefined' && location.hostname ? location.hostname : 'localhost'}:${DEFAULT_SYNC_PORT}`,
+    name: '',
+};
+
+export const getSyncSettings = (): SyncSettings => {
+    try {
+        return { ...DEFAULT_SYNC_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+    } catch {
+        return DEFAULT_SYNC_SETTINGS;
+    }
+};
+
+export const setSyncSettings = (settings: SyncSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Collections arrive as plain JSON; sprint dates have to be turned back into Dates.
+export const reviveCollection = <K extends SharedCollectionKey,>(key: K, value: unknown): SharedCollections[K] =>
+    (key === 'sprints' ? (value as unknown[]).map(reviveSprint) : value) as SharedCollections[K];
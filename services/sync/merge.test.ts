@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { mergeTask, reconcileTasks, sameValue } from './merge';
+import type { Task } from '../../types';
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+    id: 'task-1',
+    column: 'todo',
+    title: 'Write docs',
+    description: '',
+    points: 3,
+    ...overrides,
+});
+
+describe('sameValue', () => {
+    it('ignores key order and undefined fields', () => {
+        expect(sameValue({ a: 1, b: { c: 2, d: 3 } }, { b: { d: 3, c: 2 }, a: 1, e: undefined })).toBe(true);
+    });
+
+    it('tells different values apart', () => {
+        expect(sameValue({ a: [1, 2] }, { a: [2, 1] })).toBe(false);
+    });
+});
+
+describe('mergeTask', () => {
+    it('keeps the changes each side made to different fields', () => {
+        const base = task();
+        const { task: merged, conflicts } = mergeTask(base, { ...base, title: 'Write the docs' }, { ...base, points: 5 });
+        expect(merged).toMatchObject({ title: 'Write the docs', points: 5 });
+        expect(conflicts).toEqual([]);
+    });
+
+    it('does not report a conflict when both sides made the same change', () => {
+        const base = task();
+        const { task: merged, conflicts } = mergeTask(base, { ...base, column: 'done' }, { ...base, column: 'done' });
+        expect(merged.column).toBe('done');
+        expect(conflicts).toEqual([]);
+    });
+
+    it('lets the remote side win a field both changed, and reports it', () => {
+        const base = task();
+        const { task: merged, conflicts } = mergeTask(base, { ...base, title: 'Mine', points: 8 }, { ...base, title: 'Theirs' });
+        expect(merged).toMatchObject({ title: 'Theirs', points: 8 });
+        expect(conflicts).toEqual(['title']);
+    });
+
+    it('keeps fields one side cleared', () => {
+        const base = task({ assigneeId: 'member-1' });
+        const { assigneeId: _, ...local } = base;
+        expect(mergeTask(base, local, { ...base, title: 'Theirs' }).task.assigneeId).toBeUndefined();
+    });
+
+    it('merges checklists item by item', () => {
+        const base = task({ checklist: [{ id: 'a', text: 'A', done: false }, { id: 'b', text: 'B', done: false }] });
+        const local = { ...base, checklist: [{ id: 'a', text: 'A', done: true }, { id: 'b', text: 'B', done: false }, { id: 'c', text: 'C', done: false }] };
+        const remote = { ...base, checklist: [{ id: 'a', text: 'A', done: false }, { id: 'b', text: 'B', done: true }] };
+        const { task: merged, conflicts } = mergeTask(base, local, remote);
+        expect(merged.checklist).toEqual([
+            { id: 'a', text: 'A', done: true },
+            { id: 'b', text: 'B', done: true },
+            { id: 'c', text: 'C', done: false },
+        ]);
+        expect(conflicts).toEqual([]);
+    });
+
+    it('keeps items removed on either side removed', () => {
+        const base = task({ checklist: [{ id: 'a', text: 'A', done: false }, { id: 'b', text: 'B', done: false }] });
+        const local = { ...base, checklist: [base.checklist![1]] };
+        const remote = { ...base, checklist: [base.checklist![0]] };
+        expect(mergeTask(base, local, remote).task.checklist).toEqual([]);
+    });
+
+    it('reports items both sides changed differently', () => {
+        const base = task({ checklist: [{ id: 'a', text: 'A', done: false }] });
+        const local = { ...base, checklist: [{ id: 'a', text: 'Mine', done: false }] };
+        const remote = { ...base, checklist: [{ id: 'a', text: 'Theirs', done: false }] };
+        const { task: merged, conflicts } = mergeTask(base, local, remote);
+        expect(merged.checklist).toEqual(remote.checklist);
+        expect(conflicts).toEqual(['checklist']);
+    });
+
+    it('keeps comments added on both sides', () => {
+        const base = task({ comments: [] });
+        const mine = { id: 'c1', text: 'Mine', createdAt: '2026-01-01T10:00:00.000Z' };
+        const theirs = { id: 'c2', text: 'Theirs', createdAt: '2026-01-01T10:01:00.000Z' };
+        expect(mergeTask(base, { ...base, comments: [mine] }, { ...base, comments: [theirs] }).task.comments).toEqual([theirs, mine]);
+    });
+
+    it('keeps both sides\' history in time order, without duplicates', () => {
+        const created = { type: 'created' as const, at: '2026-01-01T09:00:00.000Z', to: 'todo' as const };
+        const moved = { type: 'moved' as const, at: '2026-01-01T11:00:00.000Z', from: 'todo' as const, to: 'done' as const };
+        const edited = { type: 'edited' as const, at: '2026-01-01T10:00:00.000Z', fields: ['title'] };
+        const base = task({ history: [created] });
+        const { task: merged } = mergeTask(base, { ...base, history: [created, moved] }, { ...base, history: [created, edited] });
+        expect(merged.history).toEqual([created, edited, moved]);
+    });
+});
+
+describe('reconcileTasks', () => {
+    it('takes the remote version of tasks that were not changed here', () => {
+        const known = task();
+        const remote = { ...known, title: 'Theirs' };
+        expect(reconcileTasks([known], new Map([[known.id, known]]), [remote])).toEqual([remote]);
+    });
+
+    it('merges tasks that were changed on both sides', () => {
+        const known = task();
+        const [reconciled] = reconcileTasks([{ ...known, points: 8 }], new Map([[known.id, known]]), [{ ...known, title: 'Theirs' }]);
+        expect(reconciled).toMatchObject({ title: 'Theirs', points: 8 });
+    });
+
+    it('keeps tasks created here and adds tasks created on the other side', () => {
+        const mine = task({ id: 'task-mine' });
+        const theirs = task({ id: 'task-theirs' });
+        expect(reconcileTasks([mine], new Map(), [theirs])).toEqual([mine, theirs]);
+    });
+
+    it('drops tasks removed on either side', () => {
+        const removedThere = task({ id: 'task-a' });
+        const removedHere = task({ id: 'task-b' });
+        const known = new Map([[removedThere.id, removedThere], [removedHere.id, removedHere]]);
+        expect(reconcileTasks([removedThere], known, [removedHere])).toEqual([]);
+    });
+});
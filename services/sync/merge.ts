@@ -0,0 +1,100 @@
+import type { Task } from '../../types';
+
+// JSON with sorted keys, so values that only differ in key order (or in `undefined` fields) compare equal.
+const canonical = (value: unknown) => JSON.stringify(value, (_, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+        ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+        : v
+);
+
+export const sameValue = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+export interface TaskMerge {
+    task: Task;
+    conflicts: string[]; // fields both sides changed differently; `remote` won for these
+}
+
+// Lists of items with ids are merged item by item, so two people ticking different checklist items
+// (or commenting at the same time) don't conflict.
+const ITEM_LIST_FIELDS = ['checklist', 'acceptanceCriteria', 'comments', 'attachments'];
+
+const mergeItems = <T extends { id: string },>(base: T[] = [], local: T[] = [], remote: T[] = []) => {
+    const baseById = new Map(base.map(item => [item.id, item]));
+    const localById = new Map(local.map(item => [item.id, item]));
+    const remoteIds = new Set(remote.map(item => item.id));
+    let conflicted = false;
+
+    const merged: T[] = [];
+    for (const item of remote) {
+        const before = baseById.get(item.id);
+        const mine = localById.get(item.id);
+        if (!mine) {
+            // Removed here, unless it is new on the other side.
+            if (!before) merged.push(item);
+        } else if (before && !sameValue(mine, before) && !sameValue(item, before) && !sameValue(mine, item)) {
+            conflicted = true;
+            merged.push(item);
+        } else {
+            merged.push(before && sameValue(item, before) ? mine : item);
+        }
+    }
+    // Items added here; ones in `base` but not in `remote` were removed on the other side.
+    merged.push(...local.filter(item => !remoteIds.has(item.id) && !baseById.has(item.id)));
+    return { items: merged, conflicted };
+};
+
+// The history is append-only, so both sides' new events are kept, in time order.
+const mergeHistory = (local: Task['history'] = [], remote: Task['history'] = []) => {
+    const seen = new Set(remote.map(event => canonical(event)));
+    return [...remote, ...local.filter(event => !seen.has(canonical(event)))]
+        .sort((a, b) => a.at.localeCompare(b.at));
+};
+
+// Three-way merge of two edits to the same task that both started from `base`. Fields changed on only
+// one side keep that change; when both changed a field differently, `remote` (the edit that reached
+// the server first) wins and the field is reported as a conflict.
+export const mergeTask = (base: Task | undefined, local: Task, remote: Task): TaskMerge => {
+    const task: Record<string, unknown> = {};
+    const conflicts: string[] = [];
+    const b = (base ?? {}) as Record<string, any>;
+    const l = local as unknown as Record<string, any>;
+    const r = remote as unknown as Record<string, any>;
+
+    for (const key of new Set([...Object.keys(l), ...Object.keys(r)])) {
+        if (key === 'history') {
+            task.history = mergeHistory(l.history, r.history);
+        } else if (ITEM_LIST_FIELDS.includes(key)) {
+            const { items, conflicted } = mergeItems(b[key], l[key], r[key]);
+            task[key] = items;
+            if (conflicted) conflicts.push(key);
+        } else if (sameValue(l[key], b[key])) {
+            task[key] = r[key];
+        } else if (sameValue(r[key], b[key]) || sameValue(l[key], r[key])) {
+            task[key] = l[key];
+        } else {
+            task[key] = r[key];
+            conflicts.push(key);
+        }
+    }
+    return { task: task as unknown as Task, conflicts };
+};
+
+// Brings the local tasks up to date with the server's after a reconnect. `known` holds the server's
+// versions from before the connection dropped: tasks changed here since are merged, tasks the server
+// no longer has are dropped unless they were created here, and tasks removed here stay removed.
+export const reconcileTasks = (local: Task[], known: Map<string, Task>, remote: Task[]): Task[] => {
+    const remoteById = new Map(remote.map(task => [task.id, task]));
+    const localIds = new Set(local.map(task => task.id));
+    const reconciled: Task[] = [];
+    for (const task of local) {
+        const theirs = remoteById.get(task.id);
+        const before = known.get(task.id);
+        if (theirs) {
+            reconciled.push(before && !sameValue(task, before) ? mergeTask(before, task, theirs).task : theirs);
+        } else if (!before) {
+            reconciled.push(task);
+        }
+    }
+    reconciled.push(...remote.filter(task => !localIds.has(task.id) && !known.has(task.id)));
+    return reconciled;
+};
@@ -0,0 +1,40 @@
+import type { Task, Workspace } from '../../types';
+
+export const DEFAULT_SYNC_PORT = 4000;
+
+// Everything besides the tasks that is shared between the people on a synced board. Each of these is
+// replaced as a whole by the latest write; tasks are merged field by field instead.
+export type SharedCollections = Pick<Workspace, 'sprints' | 'board' | 'team' | 'retrospectives' | 'savedViews'>;
+export type SharedCollectionKey = keyof SharedCollections;
+
+export const SHARED_COLLECTION_KEYS: SharedCollectionKey[] = ['sprints', 'board', 'team', 'retrospectives', 'savedViews'];
+
+export interface SharedBoard {
+    tasks: Task[];
+    collections: SharedCollections;
+}
+
+export interface SyncPeer {
+    clientId: string;
+    name: string;
+    memberId?: string;
+    editingTaskId?: string; // the task whose dialog they have open
+}
+
+export type ClientMessage =
+    // Sent on every (re)connect. The board seeds the server if it has none yet.
+    | { type: 'hello'; clientId: string; name: string; memberId?: string; board: SharedBoard }
+    // `base` is the version of the task this edit started from, used to merge concurrent edits.
+    | { type: 'task'; task: Task; base?: Task; baseRevision?: number }
+    | { type: 'task-delete'; task: Task }
+    | { type: 'collection'; key: SharedCollectionKey; value: unknown }
+    | { type: 'presence'; name: string; memberId?: string; editingTaskId?: string };
+
+export type ServerMessage =
+    | { type: 'snapshot'; board: SharedBoard; revisions: Record<string, number>; peers: SyncPeer[] }
+    | { type: 'task'; task: Task; revision: number; clientId: string; by: string }
+    | { type: 'task-deleted'; task: Task; clientId: string; by: string }
+    | { type: 'collection'; key: SharedCollectionKey; value: unknown; clientId: string; by: string }
+    // Sent only to the client whose edit clashed with someone else's; their values were kept for `fields`.
+    | { type: 'conflict'; taskId: string; title: string; fields: string[]; by: string }
+    | { type: 'presence'; peers: SyncPeer[] };
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { buildBurndown, createTaskEvent, moveTaskTo, taskStateAt, withCreatedEvent } from './taskHistoryService';
+import type { Sprint, Task } from '../types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const START = new Date('2024-07-01T00:00:00.000Z');
+const at = (days: number) => new Date(START.getTime() + days * DAY_MS);
+
+const sprint: Sprint = { id: 'sprint-1', name: 'Sprint 1', startDate: START, endDate: at(4), goal: '', status: 'active' };
+
+const task = (id: string, history: Task['history']): Task => ({ id, column: 'todo', title: id, description: '', history });
+
+describe('withCreatedEvent', () => {
+    it('gives a task without history a created event', () => {
+        const created = withCreatedEvent({ id: 'task-1', column: 'todo', title: 'A', description: '', points: 3 }, START);
+        expect(created.history).toEqual([{ type: 'created', at: START.toISOString(), to: 'todo', points: 3, sprintId: null }]);
+    });
+
+    it('leaves a task with history alone', () => {
+        const existing = task('task-1', [createTaskEvent('created', { to: 'done' }, START)]);
+        expect(withCreatedEvent(existing, at(1))).toBe(existing);
+    });
+});
+
+describe('moveTaskTo', () => {
+    it('records a move between columns', () => {
+        const moved = task('task-1', []);
+        moveTaskTo(moved, 'done', undefined, at(1));
+        expect(moved).toMatchObject({ column: 'done', history: [{ type: 'moved', from: 'todo', to: 'done', at: at(1).toISOString() }] });
+    });
+
+    it('records a change of sprint, and the sprint a move lands in', () => {
+        const moved = { ...task('task-1', []), sprintId: 'sprint-1' };
+        moveTaskTo(moved, 'todo', 'sprint-2', at(1));
+        moveTaskTo(moved, 'backlog', undefined, at(2));
+        expect(moved.history).toEqual([
+            { type: 'sprint-changed', at: at(1).toISOString(), sprintId: 'sprint-2' },
+            { type: 'moved', at: at(2).toISOString(), from: 'todo', to: 'backlog', sprintId: null },
+        ]);
+        expect(moved).not.toHaveProperty('sprintId');
+    });
+
+    it('records who made the move, when known', () => {
+        const moved = task('task-1', []);
+        moveTaskTo(moved, 'done', undefined, at(1), 'Ada');
+        expect(moved.history).toEqual([{ type: 'moved', at: at(1).toISOString(), from: 'todo', to: 'done', actor: 'Ada' }]);
+    });
+
+    it('records nothing when the task stays where it is', () => {
+        const unmoved = { ...task('task-1', []), sprintId: 'sprint-1' };
+        moveTaskTo(unmoved, 'todo', 'sprint-1');
+        expect(unmoved.history).toEqual([]);
+    });
+});
+
+describe('taskStateAt', () => {
+    const replayed = task('task-1', [
+        createTaskEvent('created', { to: 'todo', points: 3, sprintId: 'sprint-1' }, at(0)),
+        createTaskEvent('estimated', { points: 5 }, at(1)),
+        createTaskEvent('moved', { from: 'todo', to: 'done' }, at(2)),
+        createTaskEvent('deleted', {}, at(3)),
+    ]);
+
+    it('has no state before the task was created', () => {
+        expect(taskStateAt(replayed, at(-1).getTime())).toBeNull();
+    });
+
+    it('replays estimates and moves up to the given time', () => {
+        expect(taskStateAt(replayed, at(0).getTime())).toEqual({ column: 'todo', points: 3, sprintId: 'sprint-1' });
+        expect(taskStateAt(replayed, at(1.5).getTime())).toEqual({ column: 'todo', points: 5, sprintId: 'sprint-1' });
+        expect(taskStateAt(replayed, at(2).getTime())).toEqual({ column: 'done', points: 5, sprintId: 'sprint-1' });
+    });
+
+    it('has no state once the task was deleted', () => {
+        expect(taskStateAt(replayed, at(3).getTime())).toBeNull();
+    });
+});
+
+describe('buildBurndown', () => {
+    const tasks = [
+        task('committed', [
+            createTaskEvent('created', { to: 'todo', points: 5, sprintId: 'sprint-1' }, at(0)),
+            createTaskEvent('moved', { from: 'todo', to: 'done' }, at(2.5)),
+        ]),
+        task('added', [createTaskEvent('created', { to: 'todo', points: 3, sprintId: 'sprint-1' }, at(1))]),
+        task('backlog', [createTaskEvent('created', { to: 'backlog', points: 8, sprintId: null }, at(0))]),
+        task('other sprint', [createTaskEvent('created', { to: 'todo', points: 13, sprintId: 'sprint-2' }, at(0))]),
+    ];
+
+    it('replays scope and completed work day by day, leaving out the backlog and other sprints', () => {
+        const data = buildBurndown(tasks, sprint, at(2.75));
+        expect(data.map(({ day, remaining, completed, scope }) => ({ day, remaining, completed, scope }))).toEqual([
+            { day: 0, remaining: 5, completed: 0, scope: 5 },
+            { day: 1, remaining: 8, completed: 0, scope: 8 },
+            { day: 2, remaining: 8, completed: 0, scope: 8 },
+            { day: 3, remaining: 3, completed: 5, scope: 8 },
+            { day: 4, remaining: undefined, completed: undefined, scope: undefined },
+        ]);
+    });
+
+    it('draws the ideal line from the scope committed at the start', () => {
+        expect(buildBurndown(tasks, sprint, at(2.75)).map(point => point.ideal)).toEqual([5, 3.8, 2.5, 1.3, 0]);
+    });
+
+    it('freezes a closed sprint just before its unfinished work was rolled over', () => {
+        const rolledOver = task('rolled over', [
+            createTaskEvent('created', { to: 'todo', points: 2, sprintId: 'sprint-1' }, at(0)),
+            createTaskEvent('sprint-changed', { sprintId: 'sprint-2' }, at(2)),
+        ]);
+        const closed = { ...sprint, status: 'closed' as const, closedAt: at(2) };
+        expect(buildBurndown([rolledOver], closed, at(10)).map(point => point.remaining)).toEqual([2, 2, 2, undefined, undefined]);
+    });
+});
@@ -0,0 +1,131 @@
+import type { ColumnId, Sprint, Task, TaskEvent, TaskEventType } from '../types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface TaskSnapshot {
+    column: ColumnId;
+    points: number;
+    sprintId: string | null;
+}
+
+export interface BurndownPoint {
+    day: number;
+    remaining?: number;
+    completed?: number;
+    scope?: number;
+    ideal: number;
+}
+
+export const createTaskEvent = (type: TaskEventType, details: Omit<TaskEvent, 'type' | 'at'> = {}, at: Date = new Date()): TaskEvent => ({
+    type,
+    at: at.toISOString(),
+    ...details,
+});
+
+export const appendTaskEvent = (task: Task, event: TaskEvent) => {
+    if (!task.history) {
+        task.history = [];
+    }
+    task.history.push(event);
+};
+
+// Moves a task (or an immer draft of one) to a column and sprint, recording what changed.
+export const moveTaskTo = (task: Task, column: ColumnId, sprintId: string | undefined, at: Date = new Date(), actor?: string) => {
+    const sprintChanged = (task.sprintId ?? null) !== (sprintId ?? null);
+    if (task.column === column && !sprintChanged) return;
+
+    const event = task.column !== column
+        ? createTaskEvent('moved', { from: task.column, to: column }, at)
+        : createTaskEvent('sprint-changed', {}, at);
+    if (sprintChanged) {
+        event.sprintId = sprintId ?? null;
+    }
+    if (actor) {
+        event.actor = actor;
+    }
+    appendTaskEvent(task, event);
+    task.column = column;
+    if (sprintId) {
+        task.sprintId = sprintId;
+    } else {
+        delete task.sprintId;
+    }
+};
+
+// Gives tasks that predate the event log a single `created` event so they can be replayed.
+export const withCreatedEvent = (task: Task, at: Date): Task => {
+    if (task.history && task.history.length > 0) {
+        return task;
+    }
+    return {
+        ...task,
+        history: [createTaskEvent('created', { to: task.column, points: task.points, sprintId: task.sprintId ?? null }, at)],
+    };
+};
+
+// Replays a task's event log up to `time`. Returns null when the task did not exist at that moment.
+export const taskStateAt = (task: Task, time: number): TaskSnapshot | null => {
+    let state: TaskSnapshot | null = null;
+    for (const event of task.history || []) {
+        if (new Date(event.at).getTime() > time) break;
+        switch (event.type) {
+            case 'created':
+                state = { column: event.to ?? task.column, points: event.points ?? 0, sprintId: event.sprintId ?? null };
+                break;
+            case 'moved':
+                if (state && event.to) state.column = event.to;
+                break;
+            case 'sprint-changed':
+                break;
+            case 'estimated':
+                if (state) state.points = event.points ?? 0;
+                break;
+            case 'deleted':
+                state = null;
+                break;
+        }
+        if (state && event.type !== 'created' && event.sprintId !== undefined) {
+            state.sprintId = event.sprintId;
+        }
+    }
+    return state;
+};
+
+export const sprintDurationInDays = (sprint: Sprint) =>
+    Math.ceil(Math.abs(sprint.endDate.getTime() - sprint.startDate.getTime()) / DAY_MS);
+
+export const buildBurndown = (tasks: Task[], sprint: Sprint, now: Date = new Date()): BurndownPoint[] => {
+    const duration = sprintDurationInDays(sprint);
+    const start = sprint.startDate.getTime();
+    // A closed sprint is frozen just before unfinished work was rolled out of it.
+    const cutoff = sprint.closedAt ? Math.min(now.getTime(), sprint.closedAt.getTime() - 1) : now.getTime();
+
+    const totalsAt = (time: number) => {
+        let scope = 0;
+        let completed = 0;
+        for (const task of tasks) {
+            const state = taskStateAt(task, time);
+            if (!state || state.sprintId !== sprint.id || state.column === 'backlog') continue;
+            scope += state.points;
+            if (state.column === 'done') completed += state.points;
+        }
+        return { scope, completed };
+    };
+
+    const committed = totalsAt(start).scope;
+    const pointsPerDay = duration > 0 ? committed / duration : 0;
+    const data: BurndownPoint[] = [];
+
+    for (let day = 0; day <= duration; day++) {
+        const time = start + day * DAY_MS;
+        const ideal = Math.max(0, Math.round((committed - pointsPerDay * day) * 10) / 10);
+        // Days after today have no data yet; the current day is shown as it stands now.
+        if (day > 0 && time - DAY_MS >= cutoff) {
+            data.push({ day, ideal });
+            continue;
+        }
+        const { scope, completed } = totalsAt(Math.min(time, cutoff));
+        data.push({ day, remaining: scope - completed, completed, scope, ideal });
+    }
+    return data;
+};
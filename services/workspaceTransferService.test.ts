@@ -0,0 +1,300 @@
+import { describe, expect, it } from 'vitest';
+import { findTaskConflicts, mergeWorkspaces, parseWorkspaceImport, serializeWorkspace, WORKSPACE_EXPORT_FORMAT } from './workspaceTransferService';
+import { WORKSPACE_SCHEMA_VERSION } from './storageService';
+import { DEFAULT_BOARD_CONFIG } from '../constants';
+import type { Sprint, Task, Workspace } from '../types';
+
+const sprint = (id: string, status: Sprint['status']): Sprint => ({
+    id,
+    name: id,
+    startDate: new Date('2024-07-01T00:00:00.000Z'),
+    endDate: new Date('2024-07-15T00:00:00.000Z'),
+    goal: '',
+    status,
+});
+
+const task = (id: string, fields: Partial<Task> = {}): Task =>
+    ({ id, column: 'todo', title: id, description: '', sprintId: 'sprint-1', attachments: [], ...fields });
+
+const workspace = (fields: Partial<Workspace> = {}): Workspace => ({
+    tasks: [task('task-1')],
+    deletedTasks: [],
+    sprints: [sprint('sprint-1', 'active')],
+    selectedSprintId: 'sprint-1',
+    board: DEFAULT_BOARD_CONFIG,
+    team: { members: [{ id: 'member-1', name: 'Ada', initials: 'AD', defaultAvailabilityDays: 8 }], pointsPerDay: 1 },
+    retrospectives: [],
+    savedViews: [],
+    ...fields,
+});
+
+// Writes a file as an export would, letting a test break individual fields of the stored workspace.
+const exportFile = (stored: Record<string, unknown>) =>
+    JSON.stringify({ format: WORKSPACE_EXPORT_FORMAT, version: WORKSPACE_SCHEMA_VERSION, exportedAt: '', workspace: stored });
+
+const stored = (fields: Record<string, unknown> = {}) => ({ ...JSON.parse(JSON.stringify(workspace())), ...fields });
+
+describe('parseWorkspaceImport', () => {
+    it('reads back an exported workspace', () => {
+        const original = workspace({
+            retrospectives: [{
+                id: 'retro-1',
+                sprintId: 'sprint-1',
+                format: 'four-ls',
+                items: [{ id: 'item-1', columnId: 'liked', text: 'Pairing', votes: 3 }],
+                summary: 'Pair more.',
+                actionItems: [{ id: 'action-1', text: 'Pair on reviews', owner: 'Ada', status: 'open', source: 'ai' }],
+                updatedAt: '2024-07-15T00:00:00.000Z',
+            }],
+        });
+        expect(parseWorkspaceImport(serializeWorkspace(original))).toEqual({ workspace: original, problems: [] });
+    });
+
+    it('rejects files that are not workspace exports', () => {
+        expect(parseWorkspaceImport('{').problems).toEqual([{ item: 'File', message: 'The file is not valid JSON.', severity: 'error' }]);
+        expect(parseWorkspaceImport('{"tasks": []}')).toMatchObject({ workspace: null, problems: [{ message: expect.stringMatching(/not a Scrum Sprint Runner/) }] });
+    });
+
+    it('rejects exports from a newer version of the app', () => {
+        const file = JSON.stringify({ format: WORKSPACE_EXPORT_FORMAT, version: WORKSPACE_SCHEMA_VERSION + 1, workspace: {} });
+        expect(parseWorkspaceImport(file).problems[0].message).toMatch(/newer than this app supports/);
+    });
+
+    it('moves tasks in an unknown column to the backlog', () => {
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({ tasks: [task('task-1', { column: 'qa' })] })));
+        expect(parsed.tasks[0]).toMatchObject({ column: 'backlog' });
+        expect(parsed.tasks[0]).not.toHaveProperty('sprintId');
+        expect(problems).toEqual([{ item: 'Task #1 ("task-1")', message: 'Unknown column "qa"; moved to the backlog.', severity: 'warning' }]);
+    });
+
+    it('moves tasks of a sprint that is not in the file to the backlog', () => {
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({ tasks: [task('task-1', { sprintId: 'sprint-9' })] })));
+        expect(parsed.tasks[0]).toMatchObject({ column: 'backlog' });
+        expect(parsed.tasks[0]).not.toHaveProperty('sprintId');
+        expect(problems).toEqual([{ item: 'Task #1 ("task-1")', message: 'Unknown sprint "sprint-9"; moved to the backlog.', severity: 'warning' }]);
+    });
+
+    it('repairs invalid points and attachments, and drops tasks without an id, title or a unique id', () => {
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({
+            tasks: [
+                { ...task('task-1'), points: -3, attachments: [{ name: 'a.txt', type: 'text/plain', data: 'http://example.com/a.txt' }] },
+                { ...task('task-1'), title: 'Again' },
+                { ...task(''), title: 'No id' },
+                'not a task',
+            ],
+        })));
+        expect(parsed.tasks).toEqual([{ ...task('task-1'), attachments: [] }]);
+        expect(problems.map(problem => [problem.item, problem.severity])).toEqual([
+            ['Task #1 ("task-1")', 'warning'],
+            ['Task #1 ("task-1")', 'warning'],
+            ['Task #2 ("Again")', 'error'],
+            ['Task #3 ("No id")', 'error'],
+            ['Task #4', 'error'],
+        ]);
+    });
+
+    it('gives inline attachments an id and their decoded size', () => {
+        const data = 'data:text/plain;base64,aGVsbG8=';
+        const { workspace: parsed } = parseWorkspaceImport(exportFile(stored({
+            tasks: [{ ...task('task-1'), attachments: [{ id: 'attachment-1', name: 'a.txt', type: 'text/plain', data }, { name: 'b.txt', type: 'text/plain', data }] }],
+        })));
+        expect(parsed.tasks[0].attachments).toEqual([
+            { id: 'attachment-1', name: 'a.txt', type: 'text/plain', size: 5, data },
+            { id: expect.stringMatching(/^attachment-/), name: 'b.txt', type: 'text/plain', size: 5, data },
+        ]);
+    });
+
+    it('drops invalid checklist items', () => {
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({
+            tasks: [{ ...task('task-1'), checklist: [{ id: 'c-1', text: 'Write tests', done: 'yes', note: 'x' }, { id: 'c-2' }] }],
+        })));
+        expect(parsed.tasks[0].checklist).toEqual([{ id: 'c-1', text: 'Write tests', done: false }]);
+        expect(problems).toEqual([{ item: 'Task #1 ("task-1")', message: 'Some checklist items were invalid and were dropped.', severity: 'warning' }]);
+    });
+
+    it('drops incomplete acceptance criteria', () => {
+        const criterion = { id: 'ac-1', given: 'a signed-in user', when: 'they log out', then: 'the session ends' };
+        const { workspace: parsed } = parseWorkspaceImport(exportFile(stored({
+            tasks: [{ ...task('task-1'), acceptanceCriteria: [{ ...criterion, author: 'ai' }, { id: 'ac-2', given: 'a guest' }] }],
+        })));
+        expect(parsed.tasks[0].acceptanceCriteria).toEqual([criterion]);
+    });
+
+    it('clears unknown priorities and invalid ranks', () => {
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({
+            tasks: [task('task-1', { priority: 'must', rank: 0 }), { ...task('task-2'), priority: 'urgent', rank: 'first' }],
+        })));
+        expect(parsed.tasks.map(({ priority, rank }) => ({ priority, rank }))).toEqual([{ priority: 'must', rank: 0 }, { priority: undefined, rank: undefined }]);
+        expect(problems.map(problem => problem.message)).toEqual([
+            'Unknown priority "urgent" was cleared.',
+            'Invalid rank was cleared; the task moves to the end of its column.',
+        ]);
+    });
+
+    it('normalises labels and drops invalid ones', () => {
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({
+            tasks: [{ ...task('task-1'), labels: [' Frontend', 'frontend', 3, '', 'API'] }],
+        })));
+        expect(parsed.tasks[0].labels).toEqual(['frontend', 'api']);
+        expect(problems).toEqual([{ item: 'Task #1 ("task-1")', message: 'Some labels were invalid or duplicated and were dropped.', severity: 'warning' }]);
+    });
+
+    it('keeps only the valid filter fields of saved views and drops unnamed ones', () => {
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({
+            savedViews: [
+                { id: 'view-1', name: ' Big stories ', filter: { minPoints: 8, label: 'API', colour: 'red', unestimated: 'no' } },
+                { id: 'view-2', name: '' },
+            ],
+        })));
+        expect(parsed.savedViews).toEqual([{ id: 'view-1', name: 'Big stories', filter: { minPoints: 8, label: 'api' } }]);
+        expect(problems.map(problem => problem.message)).toEqual(['Missing saved view id or name.']);
+    });
+
+    it('drops comments without an id, text or creation date', () => {
+        const comment = { id: 'comment-1', text: 'Looks **good**', author: 'Ada', createdAt: '2024-07-02T00:00:00.000Z' };
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({
+            tasks: [{ ...task('task-1'), comments: [{ ...comment, parentId: 4 }, { id: 'comment-2', text: 'When?', createdAt: 'today' }, { id: 'comment-3' }] }],
+        })));
+        expect(parsed.tasks[0].comments).toEqual([{ ...comment, parentId: undefined }]);
+        expect(problems.map(problem => problem.message)).toEqual(['Some comments were invalid and were dropped.']);
+    });
+
+    it('drops invalid dependency links and self-references', () => {
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({
+            tasks: [task('task-1'), { ...task('task-2'), dependsOn: ['task-1', 'task-2', 7, 'task-1'] }],
+        })));
+        expect(parsed.tasks[1].dependsOn).toEqual(['task-1']);
+        expect(problems.map(problem => problem.message)).toEqual(['Some dependency links were invalid and were dropped.']);
+    });
+
+    it('keeps blockers only on blocked tasks, recording a placeholder when one is missing', () => {
+        const blocker = { reason: 'Waiting on legal', externalParty: 'Legal', since: '2024-07-02T00:00:00.000Z' };
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({
+            tasks: [
+                task('task-1', { column: 'blocked', blocker }),
+                task('task-2', { column: 'todo', blocker }),
+                { ...task('task-3', { column: 'blocked' }), blocker: { reason: ' ', since: 'yesterday' } },
+            ],
+        })));
+        expect(parsed.tasks.map(t => t.blocker?.reason)).toEqual(['Waiting on legal', undefined, 'Not recorded in the imported file.']);
+        expect(parsed.tasks[0].blocker).toEqual({ ...blocker, blockedByTaskId: undefined });
+        expect(problems.map(problem => problem.item)).toEqual(['Task #3 ("task-3")']);
+    });
+
+    it('falls back to planned for unknown sprint statuses and to the default board for missing columns', () => {
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({
+            sprints: [{ ...stored().sprints[0], status: 'paused' }],
+            board: { columns: [{ id: 'todo', title: 'To Do' }] },
+        })));
+        expect(parsed.sprints[0].status).toBe('planned');
+        expect(parsed.board).toEqual(DEFAULT_BOARD_CONFIG);
+        expect(problems.map(problem => problem.item)).toEqual(['Board', 'Sprint #1 ("sprint-1")']);
+    });
+
+    it('keeps only the known fields of team members', () => {
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({
+            team: {
+                pointsPerDay: 2,
+                members: [
+                    { id: 'member-1', name: 'Grace Hopper', defaultAvailabilityDays: 5, availability: { 'sprint-1': 3, 'sprint-2': 'all' }, isAdmin: true },
+                    { id: 'member-2', name: ' ' },
+                ],
+            },
+        })));
+        expect(parsed.team).toEqual({
+            pointsPerDay: 2,
+            members: [{ id: 'member-1', name: 'Grace Hopper', initials: 'GR', defaultAvailabilityDays: 5, availability: { 'sprint-1': 3 } }],
+        });
+        expect(problems).toEqual([{ item: 'Team member #2 (" ")', message: 'Missing team member id or name.', severity: 'error' }]);
+    });
+
+    it('drops retrospectives of unknown sprints and notes outside the format\'s columns', () => {
+        const retro = { id: 'retro-1', sprintId: 'sprint-1', format: 'start-stop-continue', summary: '', updatedAt: '' };
+        const { workspace: parsed, problems } = parseWorkspaceImport(exportFile(stored({
+            retrospectives: [
+                { ...retro, items: [{ id: 'i-1', columnId: 'stop', text: 'Meetings' }, { id: 'i-2', columnId: 'liked', text: 'Cake' }], actionItems: [{ id: 'a-1', text: 'Fewer meetings', status: 'later', source: 'me' }] },
+                { ...retro, id: 'retro-2', sprintId: 'sprint-9' },
+            ],
+        })));
+        expect(parsed.retrospectives).toEqual([{
+            ...retro,
+            items: [{ id: 'i-1', columnId: 'stop', text: 'Meetings', votes: 0 }],
+            actionItems: [{ id: 'a-1', text: 'Fewer meetings', status: 'open' }],
+        }]);
+        expect(problems.map(problem => [problem.item, problem.severity])).toEqual([['Retrospective #1', 'warning'], ['Retrospective #2', 'error']]);
+    });
+
+    it('fails when no sprint is valid', () => {
+        const parsed = parseWorkspaceImport(exportFile(stored({ sprints: [{ id: 'sprint-1', name: 'Sprint 1', startDate: 'soon' }] })));
+        expect(parsed.workspace).toBeNull();
+        expect(parsed.problems.at(-1)).toEqual({ item: 'File', message: 'The workspace contains no valid sprints.', severity: 'error' });
+    });
+});
+
+describe('mergeWorkspaces', () => {
+    const current = workspace({ tasks: [task('task-1', { title: 'Current' })] });
+    const incoming = workspace({
+        tasks: [task('task-1', { title: 'Incoming' }), task('task-2')],
+        sprints: [sprint('sprint-1', 'active'), sprint('sprint-2', 'active')],
+        board: { ...DEFAULT_BOARD_CONFIG, columns: [...DEFAULT_BOARD_CONFIG.columns, { id: 'review', title: 'Review' }] },
+    });
+
+    it('finds incoming tasks whose ids are already taken', () => {
+        expect(findTaskConflicts(current, incoming).map(t => t.title)).toEqual(['Incoming']);
+    });
+
+    it('keeps existing tasks on conflict, or overwrites them', () => {
+        expect(mergeWorkspaces(current, incoming, 'keep-existing').tasks.map(t => t.title)).toEqual(['Current', 'task-2']);
+        expect(mergeWorkspaces(current, incoming, 'overwrite').tasks.map(t => t.title)).toEqual(['Incoming', 'task-2']);
+    });
+
+    it('keeps both tasks on conflict by giving the incoming one a new id', () => {
+        expect(mergeWorkspaces(current, incoming, 'keep-both').tasks.map(t => [t.id, t.title])).toEqual([
+            ['task-1', 'Current'],
+            ['task-1-imported', 'Incoming'],
+            ['task-2', 'task-2'],
+        ]);
+    });
+
+    it('points links between imported tasks at their new ids when keeping both', () => {
+        const linked = workspace({
+            tasks: [
+                task('task-1', { title: 'Incoming' }),
+                task('task-2', { column: 'blocked', dependsOn: ['task-1', 'task-9'], blocker: { reason: 'API first', blockedByTaskId: 'task-1', since: '2024-07-02T00:00:00.000Z' } }),
+            ],
+        });
+        const [, imported, dependent] = mergeWorkspaces(current, linked, 'keep-both').tasks;
+
+        expect(imported.id).toBe('task-1-imported');
+        expect(dependent.dependsOn).toEqual(['task-1-imported', 'task-9']);
+        expect(dependent.blocker?.blockedByTaskId).toBe('task-1-imported');
+    });
+
+    it('queues imported active sprints behind the current one', () => {
+        expect(mergeWorkspaces(current, incoming, 'overwrite').sprints.map(s => [s.id, s.status])).toEqual([
+            ['sprint-1', 'active'],
+            ['sprint-2', 'planned'],
+        ]);
+    });
+
+    it('adds team members it does not know yet', () => {
+        const joining = workspace({ team: { members: [{ id: 'member-2', name: 'Lin', initials: 'LI', defaultAvailabilityDays: 4 }], pointsPerDay: 3 } });
+        expect(mergeWorkspaces(current, joining, 'overwrite').team).toEqual({
+            members: [current.team.members[0], joining.team.members[0]],
+            pointsPerDay: 1,
+        });
+    });
+
+    it('adds saved views it does not know yet, or overwrites them', () => {
+        const current = workspace({ savedViews: [{ id: 'view-1', name: 'Mine', filter: {} }] });
+        const incoming = workspace({ savedViews: [{ id: 'view-1', name: 'Theirs', filter: {} }, { id: 'view-2', name: 'Big', filter: { minPoints: 8 } }] });
+
+        expect(mergeWorkspaces(current, incoming, 'keep-existing').savedViews.map(view => view.name)).toEqual(['Mine', 'Big']);
+        expect(mergeWorkspaces(current, incoming, 'overwrite').savedViews.map(view => view.name)).toEqual(['Theirs', 'Big']);
+    });
+
+    it('adds unknown columns before the done column', () => {
+        expect(mergeWorkspaces(current, incoming, 'keep-existing').board.columns.map(c => c.id))
+            .toEqual(['backlog', 'todo', 'in-progress', 'blocked', 'review', 'done']);
+    });
+});
@@ -0,0 +1,513 @@
+import type { ActionItemStatus, Attachment, BoardColumn, RetroActionItem, Retrospective, SavedView, Sprint, SprintStatus, Task, TeamMember, Workspace } from '../types';
+import { isRecord, migrateWorkspace, WORKSPACE_SCHEMA_VERSION } from './storageService';
+import { sanitizeFilter } from './filterService';
+import { blockerFromHistory } from './blockerService';
+import { createAttachmentId, dataUrlSize } from './attachmentService';
+import { DEFAULT_BOARD_CONFIG, DEFAULT_TEAM, REQUIRED_COLUMN_IDS, RETRO_FORMATS, TASK_PRIORITIES } from '../constants';
+
+export const WORKSPACE_EXPORT_FORMAT = 'scrum-sprint-runner/workspace';
+
+export type ImportMode = 'merge' | 'replace';
+export type ConflictStrategy = 'keep-existing' | 'overwrite' | 'keep-both';
+
+export interface ImportProblem {
+    item: string;
+    message: string;
+    severity: 'error' | 'warning'; // errors drop the item, warnings are repaired
+}
+
+export interface ParsedWorkspaceImport {
+    workspace: Workspace | null;
+    problems: ImportProblem[];
+}
+
+interface WorkspaceExport {
+    format: string;
+    version: number;
+    exportedAt: string;
+    workspace: Workspace;
+}
+
+// Every field a stored task or sprint has; anything else in a file or request is dropped.
+const TASK_FIELDS: Record<keyof Task, true> = {
+    id: true, column: true, title: true, description: true, points: true, attachments: true, history: true, sprintId: true,
+    assigneeId: true, checklist: true, acceptanceCriteria: true, priority: true, labels: true, blocker: true, dependsOn: true,
+    comments: true, rank: true,
+};
+const SPRINT_FIELDS: Record<keyof Sprint, true> = { id: true, name: true, startDate: true, endDate: true, goal: true, status: true, closedAt: true };
+
+const knownFields = (raw: object, fields: Record<string, true>) =>
+    Object.fromEntries(Object.entries(raw).filter(([key]) => Object.hasOwn(fields, key)));
+
+const SPRINT_STATUSES: SprintStatus[] = ['planned', 'active', 'closed'];
+const ACTION_ITEM_STATUSES: ActionItemStatus[] = ['open', 'done', 'dropped'];
+
+export const serializeWorkspace = (workspace: Workspace): string => {
+    const file: WorkspaceExport = {
+        format: WORKSPACE_EXPORT_FORMAT,
+        version: WORKSPACE_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        workspace,
+    };
+    return JSON.stringify(file, null, 2);
+};
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+
+// Builds a guard for records whose given fields are all strings, e.g. the entries of a task's nested lists.
+const hasStringFields = <K extends string>(...keys: K[]) =>
+    (value: unknown): value is Record<string, unknown> & Record<K, string> => isRecord(value) && keys.every(key => typeof value[key] === 'string');
+
+// Dates in a file are ISO strings; anything else becomes an invalid date for the caller to reject.
+const parseDate = (value: unknown) => new Date(typeof value === 'string' || typeof value === 'number' ? value : NaN);
+
+const nameOf = (raw: unknown): string | undefined =>
+    !isRecord(raw) ? undefined : typeof raw.title === 'string' ? raw.title : typeof raw.name === 'string' ? raw.name : undefined;
+
+const describe = (kind: string, index: number, raw: unknown) =>
+    `${kind} #${index + 1}${nameOf(raw) !== undefined ? ` ("${nameOf(raw)}")` : ''}`;
+
+const describeRecord = (kind: string, raw: unknown) => `${kind}${nameOf(raw) !== undefined ? ` "${nameOf(raw)}"` : ''}`;
+
+const validateAttachments = (raw: unknown, item: string, problems: ImportProblem[]): Attachment[] => {
+    if (raw === undefined) return [];
+    if (!Array.isArray(raw)) {
+        problems.push({ item, message: 'Attachments are not a list and were dropped.', severity: 'warning' });
+        return [];
+    }
+    return raw.flatMap((attachment: unknown, index): Attachment[] => {
+        const data = isRecord(attachment) && typeof attachment.data === 'string' && attachment.data.startsWith('data:') ? attachment.data : undefined;
+        const id = isRecord(attachment) && typeof attachment.id === 'string' && attachment.id !== '' ? attachment.id : undefined;
+        // Without inline contents, an attachment only refers to a file stored in some browser.
+        if (!hasStringFields('name', 'type')(attachment) || (data === undefined && id === undefined)) {
+            problems.push({ item, message: `Attachment #${index + 1} has neither an id nor base64 data URL contents and was dropped.`, severity: 'warning' });
+            return [];
+        }
+        return [{
+            id: id ?? createAttachmentId(),
+            name: attachment.name,
+            type: attachment.type,
+            size: data !== undefined ? dataUrlSize(data) : typeof attachment.size === 'number' ? attachment.size : 0,
+            data,
+        }];
+    });
+};
+
+const validateTask = (raw: unknown, item: string, columns: BoardColumn[], sprints: Sprint[], problems: ImportProblem[]): Task | null => {
+    if (!isRecord(raw)) {
+        problems.push({ item, message: 'Not a task object.', severity: 'error' });
+        return null;
+    }
+    if (typeof raw.id !== 'string' || !raw.id) {
+        problems.push({ item, message: 'Missing task id.', severity: 'error' });
+        return null;
+    }
+    if (typeof raw.title !== 'string' || !raw.title.trim()) {
+        problems.push({ item, message: 'Missing title.', severity: 'error' });
+        return null;
+    }
+    const task = { ...knownFields(raw, TASK_FIELDS), description: typeof raw.description === 'string' ? raw.description : '' } as Task;
+    if (raw.points !== undefined && (typeof raw.points !== 'number' || raw.points < 0)) {
+        problems.push({ item, message: `Invalid story points "${raw.points}" were cleared.`, severity: 'warning' });
+        delete task.points;
+    }
+    if (raw.priority !== undefined && !isOneOf(TASK_PRIORITIES, raw.priority)) {
+        problems.push({ item, message: `Unknown priority "${raw.priority}" was cleared.`, severity: 'warning' });
+        delete task.priority;
+    }
+    if (raw.rank !== undefined && (typeof raw.rank !== 'number' || !Number.isFinite(raw.rank))) {
+        problems.push({ item, message: 'Invalid rank was cleared; the task moves to the end of its column.', severity: 'warning' });
+        delete task.rank;
+    }
+    if (raw.labels !== undefined) {
+        task.labels = Array.isArray(raw.labels)
+            ? [...new Set(raw.labels.filter((label): label is string => typeof label === 'string' && label.trim() !== '').map(label => label.trim().toLowerCase()))]
+            : [];
+        if (!Array.isArray(raw.labels) || task.labels.length !== raw.labels.length) {
+            problems.push({ item, message: 'Some labels were invalid or duplicated and were dropped.', severity: 'warning' });
+        }
+    }
+    if (!columns.some(c => c.id === raw.column)) {
+        problems.push({ item, message: `Unknown column "${raw.column}"; moved to the backlog.`, severity: 'warning' });
+        task.column = 'backlog';
+        delete task.sprintId;
+    }
+    if (task.sprintId !== undefined && !sprints.some(s => s.id === task.sprintId)) {
+        problems.push({ item, message: `Unknown sprint "${task.sprintId}"; moved to the backlog.`, severity: 'warning' });
+        task.column = 'backlog';
+        delete task.sprintId;
+    }
+    if (raw.history !== undefined && !Array.isArray(raw.history)) {
+        problems.push({ item, message: 'History is not a list and was dropped.', severity: 'warning' });
+        delete task.history;
+    }
+    if (raw.checklist !== undefined) {
+        task.checklist = Array.isArray(raw.checklist)
+            ? raw.checklist.filter(hasStringFields('id', 'text')).map(entry => ({ id: entry.id, text: entry.text, done: entry.done === true }))
+            : [];
+        if (!Array.isArray(raw.checklist) || task.checklist.length !== raw.checklist.length) {
+            problems.push({ item, message: 'Some checklist items were invalid and were dropped.', severity: 'warning' });
+        }
+    }
+    if (raw.acceptanceCriteria !== undefined) {
+        task.acceptanceCriteria = Array.isArray(raw.acceptanceCriteria)
+            ? raw.acceptanceCriteria.filter(hasStringFields('id', 'given', 'when', 'then'))
+                .map(entry => ({ id: entry.id, given: entry.given, when: entry.when, then: entry.then }))
+            : [];
+        if (!Array.isArray(raw.acceptanceCriteria) || task.acceptanceCriteria.length !== raw.acceptanceCriteria.length) {
+            problems.push({ item, message: 'Some acceptance criteria were invalid and were dropped.', severity: 'warning' });
+        }
+    }
+    if (raw.comments !== undefined) {
+        task.comments = Array.isArray(raw.comments)
+            ? raw.comments.filter(hasStringFields('id', 'text', 'createdAt')).filter(entry => !isNaN(parseDate(entry.createdAt).getTime()))
+                .map(entry => ({
+                    id: entry.id,
+                    text: entry.text,
+                    author: typeof entry.author === 'string' ? entry.author : undefined,
+                    createdAt: entry.createdAt,
+                    parentId: typeof entry.parentId === 'string' ? entry.parentId : undefined,
+                }))
+            : [];
+        if (!Array.isArray(raw.comments) || task.comments.length !== raw.comments.length) {
+            problems.push({ item, message: 'Some comments were invalid and were dropped.', severity: 'warning' });
+        }
+    }
+    if (raw.dependsOn !== undefined) {
+        task.dependsOn = Array.isArray(raw.dependsOn)
+            ? [...new Set(raw.dependsOn.filter((id): id is string => typeof id === 'string' && id !== raw.id))]
+            : [];
+        if (!Array.isArray(raw.dependsOn) || task.dependsOn.length !== raw.dependsOn.length) {
+            problems.push({ item, message: 'Some dependency links were invalid and were dropped.', severity: 'warning' });
+        }
+    }
+    const blocker = raw.blocker;
+    const blockerIsValid = hasStringFields('reason', 'since')(blocker) && blocker.reason.trim() !== '' && !isNaN(parseDate(blocker.since).getTime());
+    if (task.column !== 'blocked') {
+        delete task.blocker;
+    } else if (!blockerIsValid) {
+        problems.push({ item, message: 'Blocked without a valid blocker; a placeholder reason was recorded.', severity: 'warning' });
+        task.blocker = blockerFromHistory(task, 'Not recorded in the imported file.');
+    } else {
+        task.blocker = {
+            reason: blocker.reason,
+            blockedByTaskId: typeof blocker.blockedByTaskId === 'string' ? blocker.blockedByTaskId : undefined,
+            externalParty: typeof blocker.externalParty === 'string' && blocker.externalParty.trim() ? blocker.externalParty : undefined,
+            since: blocker.since,
+        };
+    }
+    task.attachments = validateAttachments(raw.attachments, item, problems);
+    return task;
+};
+
+const validateSprint = (raw: unknown, item: string, problems: ImportProblem[]): Sprint | null => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') {
+        problems.push({ item, message: 'Missing sprint id or name.', severity: 'error' });
+        return null;
+    }
+    const startDate = parseDate(raw.startDate);
+    const endDate = parseDate(raw.endDate);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        problems.push({ item, message: 'Invalid start or end date.', severity: 'error' });
+        return null;
+    }
+    const closedAt = raw.closedAt ? parseDate(raw.closedAt) : undefined;
+    const status: SprintStatus = isOneOf(SPRINT_STATUSES, raw.status) ? raw.status : 'planned';
+    if (status !== raw.status) {
+        problems.push({ item, message: `Unknown status "${raw.status}"; treated as planned.`, severity: 'warning' });
+    }
+    return {
+        ...knownFields(raw, SPRINT_FIELDS) as Sprint,
+        goal: typeof raw.goal === 'string' ? raw.goal : '',
+        status,
+        startDate,
+        endDate,
+        closedAt: closedAt && !isNaN(closedAt.getTime()) ? closedAt : undefined,
+    } as Sprint;
+};
+
+const validateMember = (raw: unknown, item: string, problems: ImportProblem[]): TeamMember | null => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !raw.name.trim()) {
+        problems.push({ item, message: 'Missing team member id or name.', severity: 'error' });
+        return null;
+    }
+    const member: TeamMember = {
+        id: raw.id,
+        name: raw.name,
+        initials: typeof raw.initials === 'string' ? raw.initials : raw.name.slice(0, 2).toUpperCase(),
+        defaultAvailabilityDays: typeof raw.defaultAvailabilityDays === 'number' ? raw.defaultAvailabilityDays : 0,
+    };
+    if (isRecord(raw.availability)) {
+        member.availability = Object.fromEntries(
+            Object.entries(raw.availability).filter((entry): entry is [string, number] => typeof entry[1] === 'number' && entry[1] >= 0)
+        );
+    }
+    return member;
+};
+
+const validateRetrospective = (raw: unknown, item: string, sprints: Sprint[], problems: ImportProblem[]): Retrospective | null => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.sprintId !== 'string' || !sprints.some(s => s.id === raw.sprintId)) {
+        problems.push({ item, message: 'Missing retrospective id or unknown sprint.', severity: 'error' });
+        return null;
+    }
+    const format = RETRO_FORMATS[raw.format as keyof typeof RETRO_FORMATS];
+    if (!format) {
+        problems.push({ item, message: `Unknown retrospective format "${raw.format}".`, severity: 'error' });
+        return null;
+    }
+    const rawItems: unknown[] = Array.isArray(raw.items) ? raw.items : [];
+    const rawActionItems: unknown[] = Array.isArray(raw.actionItems) ? raw.actionItems : [];
+    const items = rawItems
+        .filter(hasStringFields('id', 'columnId', 'text'))
+        .filter(entry => format.columns.some(c => c.id === entry.columnId))
+        .map(entry => ({ id: entry.id, columnId: entry.columnId, text: entry.text, votes: typeof entry.votes === 'number' ? entry.votes : 0 }));
+    const actionItems = rawActionItems
+        .filter(hasStringFields('id', 'text'))
+        .map((entry): RetroActionItem => ({
+            id: entry.id,
+            text: entry.text,
+            owner: typeof entry.owner === 'string' ? entry.owner : undefined,
+            status: isOneOf(ACTION_ITEM_STATUSES, entry.status) ? entry.status : 'open',
+            taskId: typeof entry.taskId === 'string' ? entry.taskId : undefined,
+            source: entry.source === 'ai' ? 'ai' : undefined,
+        }));
+    if (items.length !== rawItems.length || actionItems.length !== rawActionItems.length) {
+        problems.push({ item, message: 'Some retrospective notes or action items were invalid and were dropped.', severity: 'warning' });
+    }
+    return {
+        id: raw.id,
+        sprintId: raw.sprintId,
+        format: format.id,
+        items,
+        summary: typeof raw.summary === 'string' ? raw.summary : '',
+        actionItems,
+        updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date().toISOString(),
+    };
+};
+
+const validateSavedView = (raw: unknown, item: string, problems: ImportProblem[]): SavedView | null => {
+    if (!hasStringFields('id', 'name')(raw) || !raw.name.trim()) {
+        problems.push({ item, message: 'Missing saved view id or name.', severity: 'error' });
+        return null;
+    }
+    return { id: raw.id, name: raw.name.trim(), filter: sanitizeFilter(raw.filter) };
+};
+
+const fail = (message: string): ParsedWorkspaceImport => ({ workspace: null, problems: [{ item: 'File', message, severity: 'error' }] });
+
+export const parseWorkspaceImport = (text: string): ParsedWorkspaceImport => {
+    let file: unknown;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        return fail('The file is not valid JSON.');
+    }
+    if (!isRecord(file) || file.format !== WORKSPACE_EXPORT_FORMAT || typeof file.version !== 'number') {
+        return fail('This is not a Scrum Sprint Runner workspace export.');
+    }
+    return validateWorkspace(file.version, file.workspace);
+};
+
+// Checks and repairs a workspace saved with schema `version`, upgrading it to the current schema.
+export const validateWorkspace = (version: number, workspace: unknown): ParsedWorkspaceImport => {
+    const problems: ImportProblem[] = [];
+    let raw: unknown;
+    try {
+        raw = migrateWorkspace(version, workspace);
+    } catch (error) {
+        return fail(error instanceof Error ? error.message : String(error));
+    }
+    if (!isRecord(raw) || !Array.isArray(raw.tasks) || !Array.isArray(raw.sprints)) {
+        return fail('The workspace is missing its tasks or sprints.');
+    }
+
+    const board: Record<string, unknown> = isRecord(raw.board) ? raw.board : {};
+    const rawColumns: unknown[] = Array.isArray(board.columns) ? board.columns : [];
+    const isColumn = (column: unknown): column is BoardColumn =>
+        isRecord(column) && typeof column.id === 'string' && typeof column.title === 'string';
+    let columns: BoardColumn[] = DEFAULT_BOARD_CONFIG.columns;
+    if (REQUIRED_COLUMN_IDS.every(id => rawColumns.some(c => isRecord(c) && c.id === id))) {
+        columns = rawColumns.filter(isColumn);
+    } else {
+        problems.push({ item: 'Board', message: 'Column configuration is missing or invalid; the default columns were used.', severity: 'warning' });
+    }
+
+    const sprints = raw.sprints
+        .map((sprint: unknown, index: number) => validateSprint(sprint, describe('Sprint', index, sprint), problems))
+        .filter((sprint: Sprint | null): sprint is Sprint => sprint !== null);
+    if (sprints.length === 0) {
+        return { workspace: null, problems: [...problems, { item: 'File', message: 'The workspace contains no valid sprints.', severity: 'error' }] };
+    }
+
+    const validateTasks = (list: unknown, kind: string): Task[] => {
+        const seen = new Set<string>();
+        return (Array.isArray(list) ? list : [])
+            .map((task: unknown, index: number) => {
+                const item = describe(kind, index, task);
+                const valid = validateTask(task, item, columns, sprints, problems);
+                if (valid && seen.has(valid.id)) {
+                    problems.push({ item, message: `Duplicate task id "${valid.id}" within the file; skipped.`, severity: 'error' });
+                    return null;
+                }
+                if (valid) seen.add(valid.id);
+                return valid;
+            })
+            .filter((task): task is Task => task !== null);
+    };
+
+    const team: Record<string, unknown> = isRecord(raw.team) ? raw.team : {};
+    const members = (Array.isArray(team.members) ? team.members : [])
+        .map((member: unknown, index: number) => validateMember(member, describe('Team member', index, member), problems))
+        .filter((member: TeamMember | null): member is TeamMember => member !== null);
+
+    return {
+        workspace: {
+            tasks: validateTasks(raw.tasks, 'Task'),
+            deletedTasks: validateTasks(raw.deletedTasks, 'Deleted task'),
+            sprints,
+            selectedSprintId: typeof raw.selectedSprintId === 'string' && sprints.some((s: Sprint) => s.id === raw.selectedSprintId) ? raw.selectedSprintId : sprints[0].id,
+            board: { columns, wipPolicy: board.wipPolicy === 'enforce' ? 'enforce' : 'warn' },
+            team: { members, pointsPerDay: typeof team.pointsPerDay === 'number' ? team.pointsPerDay : DEFAULT_TEAM.pointsPerDay },
+            retrospectives: (Array.isArray(raw.retrospectives) ? raw.retrospectives : [])
+                .map((retro: unknown, index: number) => validateRetrospective(retro, `Retrospective #${index + 1}`, sprints, problems))
+                .filter((retro: Retrospective | null): retro is Retrospective => retro !== null),
+            savedViews: (Array.isArray(raw.savedViews) ? raw.savedViews : [])
+                .map((view: unknown, index: number) => validateSavedView(view, describe('Saved view', index, view), problems))
+                .filter((view: SavedView | null): view is SavedView => view !== null),
+        },
+        problems,
+    };
+};
+
+export interface ValidatedRecord<T> {
+    value: T | null;
+    problems: ImportProblem[];
+}
+
+const validated = <T,>(check: (problems: ImportProblem[]) => T | null): ValidatedRecord<T> => {
+    const problems: ImportProblem[] = [];
+    const value = check(problems);
+    return { value, problems };
+};
+
+// Single records written through the REST API get the same checks as imported ones. A task that would
+// land where no board shows it is refused rather than moved to the backlog.
+export const validateTaskRecord = (raw: unknown, columns: BoardColumn[], sprints: Sprint[]): ValidatedRecord<Task> =>
+    validated(problems => {
+        const item = describeRecord('Task', raw);
+        const { column, sprintId } = isRecord(raw) ? raw : {};
+        if (!columns.some(c => c.id === column)) {
+            problems.push({ item, message: `Unknown column "${column}".`, severity: 'error' });
+            return null;
+        }
+        if (sprintId !== undefined && !sprints.some(s => s.id === sprintId)) {
+            problems.push({ item, message: `Unknown sprint "${sprintId}".`, severity: 'error' });
+            return null;
+        }
+        if (column !== 'backlog' && sprintId === undefined) {
+            problems.push({ item, message: 'Tasks outside the backlog need a sprintId.', severity: 'error' });
+            return null;
+        }
+        return validateTask(raw, item, columns, sprints, problems);
+    });
+
+export const validateSprintRecord = (raw: unknown): ValidatedRecord<Sprint> =>
+    validated(problems => validateSprint(raw, describeRecord('Sprint', raw), problems));
+
+export const validateRetrospectiveRecord = (raw: unknown, sprints: Sprint[]): ValidatedRecord<Retrospective> =>
+    validated(problems => validateRetrospective(raw, 'Retrospective', sprints, problems));
+
+export const findTaskConflicts = (current: Workspace, incoming: Workspace): Task[] => {
+    const existingIds = new Set(current.tasks.map(t => t.id));
+    return incoming.tasks.filter(t => existingIds.has(t.id));
+};
+
+const uniqueId = (id: string, taken: Set<string>) => {
+    let candidate = `${id}-imported`;
+    for (let suffix = 2; taken.has(candidate); suffix++) {
+        candidate = `${id}-imported-${suffix}`;
+    }
+    taken.add(candidate);
+    return candidate;
+};
+
+// Points an imported task's dependency links at the new ids its dependencies were given.
+const relinkTask = (task: Task, renamed: Map<string, string>): Task => {
+    const relink = (id: string) => renamed.get(id) ?? id;
+    return {
+        ...task,
+        ...(task.dependsOn ? { dependsOn: task.dependsOn.map(relink) } : {}),
+        ...(task.blocker?.blockedByTaskId ? { blocker: { ...task.blocker, blockedByTaskId: relink(task.blocker.blockedByTaskId) } } : {}),
+    };
+};
+
+export const mergeWorkspaces = (current: Workspace, incoming: Workspace, strategy: ConflictStrategy): Workspace => {
+    const takenIds = new Set([...current.tasks, ...current.deletedTasks, ...incoming.tasks].map(t => t.id));
+    const renamed = new Map(strategy === 'keep-both' ? findTaskConflicts(current, incoming).map(t => [t.id, uniqueId(t.id, takenIds)]) : []);
+    const tasks = [...current.tasks];
+    for (const task of incoming.tasks.map(t => relinkTask(t, renamed))) {
+        const index = tasks.findIndex(t => t.id === task.id);
+        if (index === -1) {
+            tasks.push(task);
+        } else if (strategy === 'overwrite') {
+            tasks[index] = task;
+        } else if (strategy === 'keep-both') {
+            tasks.push({ ...task, id: renamed.get(task.id)! });
+        }
+    }
+
+    const sprints = [...current.sprints];
+    for (const sprint of incoming.sprints) {
+        const index = sprints.findIndex(s => s.id === sprint.id);
+        if (index === -1) {
+            // Only one sprint may be active at a time; imported ones queue up behind the current one.
+            const hasActive = sprints.some(s => s.status === 'active');
+            sprints.push(hasActive && sprint.status === 'active' ? { ...sprint, status: 'planned' } : sprint);
+        } else if (strategy === 'overwrite') {
+            sprints[index] = { ...sprint, status: sprints[index].status };
+        }
+    }
+
+    const columns = [...current.board.columns];
+    for (const column of incoming.board.columns) {
+        if (!columns.some(c => c.id === column.id)) {
+            const doneIndex = columns.findIndex(c => c.id === 'done');
+            columns.splice(doneIndex === -1 ? columns.length : doneIndex, 0, column);
+        }
+    }
+
+    const members = [...current.team.members, ...incoming.team.members.filter(m => !current.team.members.some(c => c.id === m.id))];
+
+    // One retrospective per sprint, so an incoming retro for a sprint that already has one is a conflict.
+    const retrospectives = [...current.retrospectives];
+    for (const retro of incoming.retrospectives) {
+        const index = retrospectives.findIndex(r => r.sprintId === retro.sprintId);
+        if (index === -1) {
+            retrospectives.push(retro);
+        } else if (strategy === 'overwrite') {
+            retrospectives[index] = retro;
+        }
+    }
+
+    const savedViews = [...current.savedViews];
+    for (const view of incoming.savedViews) {
+        const index = savedViews.findIndex(v => v.id === view.id);
+        if (index === -1) {
+            savedViews.push(view);
+        } else if (strategy === 'overwrite') {
+            savedViews[index] = view;
+        }
+    }
+
+    const deletedIds = new Set(current.deletedTasks.map(t => t.id));
+    return {
+        ...current,
+        team: { ...current.team, members },
+        tasks,
+        deletedTasks: [...current.deletedTasks, ...incoming.deletedTasks.filter(t => !deletedIds.has(t.id))],
+        sprints,
+        board: { ...current.board, columns },
+        retrospectives,
+        savedViews,
+    };
+};
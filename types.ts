@@ -1,9 +1,75 @@
-export type ColumnId = 'backlog' | 'todo' | 'in-progress' | 'blocked' | 'done';
+// Columns are configurable per board. 'backlog' and 'done' always exist; 'blocked' keeps its
+// special meaning (red cards, blocked-time metrics) while it is part of the workflow.
+export type ColumnId = string;
 
+export interface BoardColumn {
+  id: ColumnId;
+  title: string;
+  wipLimit?: number;
+}
+
+export type WipPolicy = 'warn' | 'enforce';
+
+export interface BoardConfig {
+  columns: BoardColumn[];
+  wipPolicy: WipPolicy;
+}
+
+// The file contents are kept in the attachment blob store under `id`.
 export interface Attachment {
+  id: string;
   name: string;
   type: string;
-  data: string; // base64 encoded file content
+  size: number; // bytes
+  data?: string; // inline base64 data URL, only until it has been moved into the blob store (old saves, imports)
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export interface AcceptanceCriterion {
+  id: string;
+  given: string;
+  when: string;
+  then: string;
+}
+
+// MoSCoW prioritisation: must have, should have, could have, won't have (this time).
+export type TaskPriority = 'must' | 'should' | 'could' | 'wont';
+
+export type TaskEventType =
+  | 'created' | 'moved' | 'estimated' | 'sprint-changed' | 'deleted'
+  | 'edited' | 'attachment-added' | 'attachment-removed' | 'ai-analysis';
+
+export interface TaskEvent {
+  type: TaskEventType;
+  at: string; // ISO timestamp
+  from?: ColumnId;
+  to?: ColumnId;
+  points?: number;
+  sprintId?: string | null; // sprint the task belongs to after this event, when it changed
+  actor?: string; // name of the team member who made the change, when known
+  fields?: string[]; // 'edited': the fields that changed
+  attachment?: string; // attachment events: the file name
+}
+
+export interface TaskComment {
+  id: string;
+  text: string; // simple markdown
+  author?: string;
+  createdAt: string; // ISO timestamp
+  parentId?: string; // the comment this one replies to
+}
+
+// Why a task sits in the 'blocked' column; every task there has one.
+export interface TaskBlocker {
+  reason: string;
+  blockedByTaskId?: string;
+  externalParty?: string;
+  since: string; // ISO timestamp
 }
 
 export interface Task {
@@ -13,12 +79,103 @@ export interface Task {
   description: string;
   points?: number;
   attachments?: Attachment[];
+  history?: TaskEvent[];
+  sprintId?: string;
+  assigneeId?: string;
+  checklist?: ChecklistItem[];
+  acceptanceCriteria?: AcceptanceCriterion[];
+  priority?: TaskPriority;
+  labels?: string[];
+  blocker?: TaskBlocker;
+  dependsOn?: string[]; // ids of tasks that have to be finished first
+  comments?: TaskComment[];
+  rank?: number; // position within its column, lowest first
 }
 
+export type SprintStatus = 'planned' | 'active' | 'closed';
+
 export interface Sprint {
     id: string;
     name:string;
     startDate: Date;
     endDate: Date;
     goal: string;
-}
\ No newline at end of file
+    status: SprintStatus;
+    closedAt?: Date;
+}
+export interface TeamMember {
+    id: string;
+    name: string;
+    initials: string;
+    defaultAvailabilityDays: number;
+    availability?: Record<string, number>; // available days per sprint id, overriding the default
+}
+
+export interface Team {
+    members: TeamMember[];
+    pointsPerDay: number; // story points one person typically completes per available day
+}
+
+export type RetroFormatId = 'went-well-improve-actions' | 'start-stop-continue' | 'four-ls';
+
+export interface RetroFormat {
+    id: RetroFormatId;
+    name: string;
+    columns: { id: string; title: string }[];
+}
+
+export interface RetroItem {
+    id: string;
+    columnId: string;
+    text: string;
+    votes: number;
+}
+
+export type ActionItemStatus = 'open' | 'done' | 'dropped';
+
+export interface RetroActionItem {
+    id: string;
+    text: string;
+    owner?: string;
+    status: ActionItemStatus;
+    taskId?: string; // set once the action item has been added to the backlog
+    source?: 'ai'; // suggested by a retrospective summary and not edited since
+}
+
+export interface Retrospective {
+    id: string;
+    sprintId: string;
+    format: RetroFormatId;
+    items: RetroItem[];
+    summary: string;
+    actionItems: RetroActionItem[];
+    updatedAt: string; // ISO timestamp
+}
+
+// Every set field narrows the board; an empty filter shows everything.
+export interface TaskFilter {
+    text?: string;
+    minPoints?: number;
+    maxPoints?: number;
+    hasAttachments?: boolean;
+    label?: string;
+    assigneeId?: string;
+    unestimated?: boolean;
+}
+
+export interface SavedView {
+    id: string;
+    name: string;
+    filter: TaskFilter;
+}
+
+export interface Workspace {
+    tasks: Task[];
+    deletedTasks: Task[];
+    sprints: Sprint[];
+    selectedSprintId: string;
+    board: BoardConfig;
+    team: Team;
+    retrospectives: Retrospective[];
+    savedViews: SavedView[];
+}